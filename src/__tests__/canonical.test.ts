@@ -0,0 +1,125 @@
+import type { Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { canonicalize, conditionEquals, hashCondition } from "../canonical";
+import { createCQLContext } from "../cql-context";
+import { acontains } from "../operators/array-operators";
+import { eq, gt, isIn, isNotIn, lt } from "../operators/comparison-operators";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { intersects } from "../operators/spatial-operators";
+import { after, during } from "../operators/temporal-operators";
+import { like } from "../operators/text-operators";
+
+describe("conditionEquals", () => {
+  it("should compare conditions structurally", () => {
+    expect(
+      conditionEquals(eq("status", "ACTIVE"), eq("status", "ACTIVE")),
+    ).toBe(true);
+    expect(
+      conditionEquals(eq("status", "ACTIVE"), eq("status", "DELETED")),
+    ).toBe(false);
+    expect(conditionEquals(eq("age", 18), gt("age", 18))).toBe(false);
+    expect(conditionEquals(eq("age", 18), eq("age", "18"))).toBe(false);
+    expect(
+      conditionEquals(
+        like("name", "a%", { caseInsensitive: true }),
+        like("name", "a%"),
+      ),
+    ).toBe(false);
+    expect(
+      conditionEquals(
+        and(eq("a", 1), not(lt("b", 2))),
+        and(eq("a", 1), not(lt("b", 2))),
+      ),
+    ).toBe(true);
+  });
+
+  it("should compare geometries by content and dates by instant", () => {
+    const point: Geometry = { type: "Point", coordinates: [1, 2] };
+    const reordered = { coordinates: [1, 2], type: "Point" } as Geometry;
+    expect(
+      conditionEquals(intersects("geom", point), intersects("geom", reordered)),
+    ).toBe(true);
+    expect(
+      conditionEquals(
+        after("d", new Date("2023-01-01T00:00:00Z")),
+        after("d", new Date("2023-01-01T00:00:00.000Z")),
+      ),
+    ).toBe(true);
+    expect(
+      conditionEquals(
+        eq("d", new Date("2023-01-01T00:00:00Z")),
+        eq("d", new Date("2024-01-01T00:00:00Z")),
+      ),
+    ).toBe(false);
+  });
+
+  it("should respect operand order", () => {
+    expect(
+      conditionEquals(and(eq("a", 1), eq("b", 2)), and(eq("b", 2), eq("a", 1))),
+    ).toBe(false);
+  });
+});
+
+describe("canonicalize", () => {
+  const ctx = createCQLContext();
+
+  it("should sort the operands of and/or", () => {
+    expect(
+      canonicalize(or(eq("b", 2), and(gt("c", 3), eq("a", 1)))).toCQL(ctx),
+    ).toBe(
+      canonicalize(or(and(eq("a", 1), gt("c", 3)), eq("b", 2))).toCQL(ctx),
+    );
+    expect(
+      conditionEquals(
+        canonicalize(and(eq("a", 1), eq("b", 2))),
+        canonicalize(and(eq("b", 2), eq("a", 1))),
+      ),
+    ).toBe(true);
+  });
+
+  it("should sort IN lists", () => {
+    expect(canonicalize(isIn("code", ["C", "A", "B"])).toCQL(ctx)).toBe(
+      "code IN ('A', 'B', 'C')",
+    );
+    expect(
+      conditionEquals(
+        canonicalize(not(isNotIn("level", [5, 4]))),
+        canonicalize(not(isNotIn("level", [4, 5]))),
+      ),
+    ).toBe(true);
+  });
+
+  it("should keep other conditions as they are", () => {
+    const condition = acontains("tags", ["b", "a"]);
+    expect(canonicalize(condition)).toBe(condition);
+  });
+});
+
+describe("hashCondition", () => {
+  it("should produce stable hashes", () => {
+    const hash = hashCondition(eq("status", "ACTIVE"));
+    expect(hash).toMatch(/^[0-9a-f]{14}$/);
+    expect(hashCondition(eq("status", "ACTIVE"))).toBe(hash);
+    expect(hashCondition(eq("status", "DELETED"))).not.toBe(hash);
+  });
+
+  it("should ignore the order of commutative operands", () => {
+    expect(hashCondition(and(eq("a", 1), isIn("b", [1, 2])))).toBe(
+      hashCondition(and(isIn("b", [2, 1]), eq("a", 1))),
+    );
+  });
+
+  it("should hash every operator family", () => {
+    const conditions = [
+      eq("a", 1),
+      like("name", "A%"),
+      intersects("geom", { type: "Point", coordinates: [0, 0] }),
+      during("d", { start: "2023-01-01", end: null }),
+      acontains("tags", ["a"]),
+      gt(fn("strLength", "name"), 3),
+    ];
+    const hashes = new Set(conditions.map(hashCondition));
+    expect(hashes.size).toBe(conditions.length);
+  });
+});
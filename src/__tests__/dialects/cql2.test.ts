@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import {
+  commonConditions,
+  commonTemporalConditions,
+  extendedTemporalConditions,
+} from "./fixtures";
+
+describe("CQL2 dialect", () => {
+  const ctx = createCQLContext({ dialect: "cql2" });
+
+  it.each(commonConditions)("should write %s", (_name, condition) => {
+    expect(condition.toCQL(ctx)).toMatchSnapshot();
+  });
+
+  it.each([...commonTemporalConditions, ...extendedTemporalConditions])(
+    "should write temporal %s",
+    (_name, condition) => {
+      expect(condition.toCQL(ctx)).toMatchSnapshot();
+    },
+  );
+});
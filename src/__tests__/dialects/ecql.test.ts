@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import { UnsupportedConditionTypeError } from "../../errors";
+import {
+  commonConditions,
+  commonTemporalConditions,
+  extendedTemporalConditions,
+} from "./fixtures";
+
+describe("ECQL dialect", () => {
+  const ctx = createCQLContext({ dialect: "ecql" });
+
+  it.each(commonConditions)("should write %s", (_name, condition) => {
+    expect(condition.toCQL(ctx)).toMatchSnapshot();
+  });
+
+  it.each(commonTemporalConditions)(
+    "should write temporal %s",
+    (_name, condition) => {
+      expect(condition.toCQL(ctx)).toMatchSnapshot();
+    },
+  );
+
+  it.each(extendedTemporalConditions)(
+    "should reject temporal %s, which ECQL cannot express",
+    (_name, condition) => {
+      expect(() => condition.toCQL(ctx)).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+    },
+  );
+});
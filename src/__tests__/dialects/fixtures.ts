@@ -0,0 +1,130 @@
+import type { Geometry } from "geojson";
+import type { Condition } from "../../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+} from "../../operators/comparison-operators";
+import { and, not, or } from "../../operators/logical-operators";
+import {
+  bbox,
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "../../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  meets,
+  metby,
+  overlappedby,
+  tcontains,
+  tequals,
+  tintersects,
+  toverlaps,
+} from "../../operators/temporal-operators";
+import { contains, like } from "../../operators/text-operators";
+
+const point: Geometry = { type: "Point", coordinates: [8.54, 47.37] };
+
+const polygon: Geometry = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ],
+  ],
+};
+
+const line: Geometry = {
+  type: "LineString",
+  coordinates: [
+    [0, 0],
+    [5, 5],
+  ],
+};
+
+const year = { start: "2023-01-01T00:00:00Z", end: "2023-12-31T00:00:00Z" };
+
+/**
+ * Comparison, text, logical and spatial conditions written by every dialect.
+ */
+export const commonConditions: Array<[string, Condition]> = [
+  ["eq", eq("status", "ACTIVE")],
+  ["eq with quotes", eq("name", "O'Brien's")],
+  ["ne", ne("status", "DELETED")],
+  ["gt with date", gt("createdAt", new Date("2023-01-01T00:00:00Z"))],
+  ["lte with number", lte("price", 99.5)],
+  ["between", between("age", 18, 65)],
+  ["in", isIn("code", ["A", "B"])],
+  ["not in", isNotIn("level", [4, 5])],
+  ["is null", isNull("deletedAt")],
+  ["is not null", isNotNull("email")],
+  ["like", like("name", "Jo%")],
+  ["contains", contains("description", "it's")],
+  [
+    "logical",
+    and(
+      or(eq("status", "PENDING"), eq("status", "PROCESSING")),
+      not(eq("deleted", true)),
+    ),
+  ],
+  ["intersects", intersects("geometry", point)],
+  ["disjoint", disjoint("geometry", polygon)],
+  ["spatial contains", spatialContains("geometry", point)],
+  ["within", within("geometry", polygon)],
+  ["touches", touches("geometry", line)],
+  ["overlaps", overlaps("geometry", polygon)],
+  ["crosses", crosses("geometry", line)],
+  ["spatial equals", spatialEquals("geometry", point)],
+  ["bbox", bbox("geometry", [-10, 40, 5, 52])],
+];
+
+/**
+ * Temporal conditions supported by every dialect.
+ */
+export const commonTemporalConditions: Array<[string, Condition]> = [
+  ["after", after("eventDate", "2023-01-01T00:00:00Z")],
+  ["after with date", after("eventDate", new Date("2023-01-01T00:00:00Z"))],
+  ["before", before("eventDate", "2023-12-31T00:00:00Z")],
+  ["during", during("eventDate", year)],
+  ["tequals", tequals("eventDate", "2023-06-15T12:00:00Z")],
+];
+
+/**
+ * Temporal conditions that only the legacy and CQL2 dialects can express.
+ */
+export const extendedTemporalConditions: Array<[string, Condition]> = [
+  ["anyinteracts", anyinteracts("eventDate", year)],
+  ["begins", begins("eventPeriod", "2023-01-01T00:00:00Z")],
+  ["begunby", begunby("eventPeriod", year)],
+  ["tcontains", tcontains("eventPeriod", "2023-06-15T00:00:00Z")],
+  ["endedby", endedby("eventPeriod", "2023-12-31T00:00:00Z")],
+  ["ends", ends("eventPeriod", "2023-12-31T00:00:00Z")],
+  ["meets", meets("eventPeriod", year)],
+  ["metby", metby("eventPeriod", year)],
+  ["toverlaps", toverlaps("eventPeriod", year)],
+  ["overlappedby", overlappedby("eventPeriod", year)],
+  ["tintersects", tintersects("eventPeriod", year)],
+];
@@ -0,0 +1,283 @@
+import { describe, expect, it } from "vitest";
+import { toElasticsearchQuery } from "../elasticsearch";
+import { UnsupportedConditionTypeError } from "../errors";
+import { add } from "../operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aoverlaps,
+} from "../operators/array-operators";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  bbox,
+  crosses,
+  intersects,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  during,
+  tcontains,
+  tequals,
+} from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+
+describe("toElasticsearchQuery", () => {
+  describe("logical operators", () => {
+    it("should map and, or and not to bool clauses", () => {
+      expect(
+        toElasticsearchQuery(
+          and(eq("status", "ACTIVE"), or(gt("height", 10), not(lt("age", 5)))),
+        ),
+      ).toEqual({
+        bool: {
+          filter: [
+            { term: { status: "ACTIVE" } },
+            {
+              bool: {
+                should: [
+                  { range: { height: { gt: 10 } } },
+                  { bool: { must_not: [{ range: { age: { lt: 5 } } }] } },
+                ],
+                minimum_should_match: 1,
+              },
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe("comparisons", () => {
+    it("should map comparisons to term, range and terms", () => {
+      expect(toElasticsearchQuery(lte("height", 10))).toEqual({
+        range: { height: { lte: 10 } },
+      });
+      expect(toElasticsearchQuery(between("depth", 100, 200))).toEqual({
+        range: { depth: { gte: 100, lte: 200 } },
+      });
+      expect(toElasticsearchQuery(isIn("type", ["CPT", "OTHER"]))).toEqual({
+        terms: { type: ["CPT", "OTHER"] },
+      });
+      expect(
+        toElasticsearchQuery(gt("updated", new Date("2023-01-01T00:00:00Z"))),
+      ).toEqual({ range: { updated: { gt: "2023-01-01T00:00:00.000Z" } } });
+    });
+
+    it("should require the field to exist for negative comparisons", () => {
+      expect(toElasticsearchQuery(ne("status", "DELETED"))).toEqual({
+        bool: {
+          filter: [{ exists: { field: "status" } }],
+          must_not: [{ term: { status: "DELETED" } }],
+        },
+      });
+      expect(toElasticsearchQuery(isNotIn("type", ["CPT"]))).toEqual({
+        bool: {
+          filter: [{ exists: { field: "type" } }],
+          must_not: [{ terms: { type: ["CPT"] } }],
+        },
+      });
+    });
+
+    it("should map null checks to exists", () => {
+      expect(toElasticsearchQuery(isNull("deletedAt"))).toEqual({
+        bool: { must_not: [{ exists: { field: "deletedAt" } }] },
+      });
+      expect(toElasticsearchQuery(isNotNull("deletedAt"))).toEqual({
+        exists: { field: "deletedAt" },
+      });
+    });
+
+    it("should set case_insensitive on term queries", () => {
+      expect(
+        toElasticsearchQuery(eq("city", "zurich", { caseInsensitive: true })),
+      ).toEqual({
+        term: { city: { value: "zurich", case_insensitive: true } },
+      });
+      expect(() =>
+        toElasticsearchQuery(eq("city", "zürich", { accentInsensitive: true })),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should reject expressions as operands", () => {
+      expect(() =>
+        toElasticsearchQuery(gt("updated", prop("created"))),
+      ).toThrowError(
+        "Unsupported condition type: gt with property operand (Elasticsearch).",
+      );
+      expect(() => toElasticsearchQuery(gt(add("a", 1), 10))).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+    });
+  });
+
+  describe("text operators", () => {
+    it("should map LIKE patterns to wildcard queries", () => {
+      expect(toElasticsearchQuery(like("name", "Zür_ch%"))).toEqual({
+        wildcard: { name: { value: "Zür?ch*" } },
+      });
+      expect(toElasticsearchQuery(like("code", "100\\%*?"))).toEqual({
+        wildcard: { code: { value: "100%\\*\\?" } },
+      });
+      expect(
+        toElasticsearchQuery(
+          contains("name", "zurich", { caseInsensitive: true }),
+        ),
+      ).toEqual({
+        wildcard: { name: { value: "*zurich*", case_insensitive: true } },
+      });
+      expect(toElasticsearchQuery(contains("code", "a_b%*"))).toEqual({
+        wildcard: { code: { value: "*a_b%\\**" } },
+      });
+    });
+  });
+
+  describe("spatial operators", () => {
+    it("should map spatial operators to geo_shape relations", () => {
+      const point = { type: "Point" as const, coordinates: [7.4, 46.9] };
+      expect(toElasticsearchQuery(within("geom", point))).toEqual({
+        geo_shape: { geom: { shape: point, relation: "within" } },
+      });
+      expect(toElasticsearchQuery(intersects("geom", point))).toEqual({
+        geo_shape: { geom: { shape: point, relation: "intersects" } },
+      });
+    });
+
+    it("should write bounding boxes as envelopes", () => {
+      expect(toElasticsearchQuery(bbox("geom", [-75, 40, -73, 41]))).toEqual({
+        geo_shape: {
+          geom: {
+            shape: {
+              type: "envelope",
+              coordinates: [
+                [-75, 41],
+                [-73, 40],
+              ],
+            },
+            relation: "intersects",
+          },
+        },
+      });
+      expect(
+        toElasticsearchQuery(bbox("geom", [170, -10, -170, 10])),
+      ).toMatchObject({
+        geo_shape: {
+          geom: {
+            shape: {
+              type: "MultiPolygon",
+              coordinates: [
+                [
+                  [
+                    [170, -10],
+                    [180, -10],
+                    [180, 10],
+                    [170, 10],
+                    [170, -10],
+                  ],
+                ],
+                [
+                  [
+                    [-180, -10],
+                    [-170, -10],
+                    [-170, 10],
+                    [-180, 10],
+                    [-180, -10],
+                  ],
+                ],
+              ],
+            },
+          },
+        },
+      });
+    });
+
+    it("should reject relations geo_shape does not have", () => {
+      expect(() =>
+        toElasticsearchQuery(
+          crosses("geom", {
+            type: "LineString",
+            coordinates: [
+              [0, 0],
+              [1, 1],
+            ],
+          }),
+        ),
+      ).toThrowError("Unsupported condition type: crosses (Elasticsearch).");
+    });
+  });
+
+  describe("temporal operators", () => {
+    it("should map temporal operators to date ranges", () => {
+      expect(
+        toElasticsearchQuery(
+          anyinteracts("updated", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      ).toEqual({
+        range: { updated: { gte: "2023-01-01", lte: "2023-12-31" } },
+      });
+      expect(
+        toElasticsearchQuery(
+          during("updated", { start: "2023-01-01", end: ".." }),
+        ),
+      ).toEqual({ range: { updated: { gt: "2023-01-01" } } });
+      expect(
+        toElasticsearchQuery(before("updated", "2023-01-01T00:00:00Z")),
+      ).toEqual({ range: { updated: { lt: "2023-01-01T00:00:00Z" } } });
+      expect(toElasticsearchQuery(tequals("updated", "2023-01-01"))).toEqual({
+        range: { updated: { gte: "2023-01-01", lte: "2023-01-01" } },
+      });
+    });
+
+    it("should match any date in an unbounded interval", () => {
+      expect(
+        toElasticsearchQuery(
+          anyinteracts("updated", { start: null, end: null }),
+        ),
+      ).toEqual({ exists: { field: "updated" } });
+    });
+
+    it("should reject relations a date cannot have", () => {
+      expect(() =>
+        toElasticsearchQuery(
+          after("updated", { start: "2023-01-01", end: null }),
+        ),
+      ).toThrowError(UnsupportedConditionTypeError);
+      expect(() =>
+        toElasticsearchQuery(
+          tcontains("updated", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      ).toThrowError(
+        "Unsupported condition type: tcontains (Elasticsearch date field).",
+      );
+    });
+  });
+
+  describe("array operators", () => {
+    it("should map array operators to terms", () => {
+      expect(toElasticsearchQuery(acontains("tags", ["a", "b"]))).toEqual({
+        bool: { filter: [{ term: { tags: "a" } }, { term: { tags: "b" } }] },
+      });
+      expect(toElasticsearchQuery(aoverlaps("tags", ["a", "b"]))).toEqual({
+        terms: { tags: ["a", "b"] },
+      });
+      expect(() =>
+        toElasticsearchQuery(acontainedby("tags", ["a", "b"])),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import type { Feature, Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { UnsupportedConditionTypeError } from "../errors";
+import { compileFilter, evaluate } from "../evaluator";
+import { add, intDiv, mod, mul, sub } from "../operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "../operators/array-operators";
+import type { Condition } from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  bbox,
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  meets,
+  metby,
+  overlappedby,
+  tcontains,
+  tequals,
+  tintersects,
+  toverlaps,
+} from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+
+describe("evaluate", () => {
+  const user = {
+    name: "Jane O'Brien",
+    age: 34,
+    status: "ACTIVE",
+    verified: true,
+    deletedAt: null,
+    createdAt: "2023-03-01T10:00:00Z",
+    address: { city: "Zurich", zip: "8001" },
+    tags: ["admin", "beta"],
+  };
+
+  describe("comparison operators", () => {
+    it("should compare primitive values", () => {
+      expect(evaluate(eq("status", "ACTIVE"), user)).toBe(true);
+      expect(evaluate(eq("status", "active"), user)).toBe(false);
+      expect(evaluate(ne("status", "DELETED"), user)).toBe(true);
+      expect(evaluate(lt("age", 34), user)).toBe(false);
+      expect(evaluate(lte("age", 34), user)).toBe(true);
+      expect(evaluate(gt("age", 18), user)).toBe(true);
+      expect(evaluate(gte("age", 35), user)).toBe(false);
+      expect(evaluate(eq("verified", true), user)).toBe(true);
+    });
+
+    it("should compare dates with ISO 8601 strings", () => {
+      expect(evaluate(gt("createdAt", new Date("2023-01-01")), user)).toBe(
+        true,
+      );
+      expect(
+        evaluate(eq("createdAt", new Date("2023-03-01T10:00:00Z")), user),
+      ).toBe(true);
+    });
+
+    it("should evaluate between and lists", () => {
+      expect(evaluate(between("age", 18, 34), user)).toBe(true);
+      expect(evaluate(between("age", 35, 65), user)).toBe(false);
+      expect(evaluate(isIn("status", ["ACTIVE", "PENDING"]), user)).toBe(true);
+      expect(evaluate(isNotIn("status", ["ACTIVE"]), user)).toBe(false);
+      expect(evaluate(isNotIn("missing", ["ACTIVE"]), user)).toBe(false);
+    });
+
+    it("should evaluate null checks", () => {
+      expect(evaluate(isNull("deletedAt"), user)).toBe(true);
+      expect(evaluate(isNull("missing"), user)).toBe(true);
+      expect(evaluate(isNotNull("name"), user)).toBe(true);
+      expect(evaluate(isNotNull("deletedAt"), user)).toBe(false);
+    });
+
+    it("should treat comparisons against missing properties as false", () => {
+      expect(evaluate(eq("missing", "x"), user)).toBe(false);
+      expect(evaluate(ne("missing", "x"), user)).toBe(false);
+      expect(evaluate(gt("name", 5), user)).toBe(false);
+    });
+
+    it("should resolve dotted paths like Path<T>", () => {
+      expect(evaluate(eq("address.city", "Zurich"), user)).toBe(true);
+      expect(evaluate(eq("tags.1", "beta"), user)).toBe(true);
+      expect(evaluate(eq("address.country.code", "CH"), user)).toBe(false);
+    });
+  });
+
+  describe("arithmetic expressions", () => {
+    const order = { price: 25, quantity: 3, discount: null, budget: 100 };
+
+    it("should evaluate expressions on either side of a comparison", () => {
+      expect(evaluate(gt(mul("price", "quantity"), 70), order)).toBe(true);
+      expect(
+        evaluate(lt("budget", add(mul("price", "quantity"), 30)), order),
+      ).toBe(true);
+      expect(evaluate(between(sub("budget", "price"), 70, 80), order)).toBe(
+        true,
+      );
+      expect(evaluate(eq(mod("price", 2), 1), order)).toBe(true);
+      expect(evaluate(eq(intDiv("price", "quantity"), 8), order)).toBe(true);
+    });
+
+    it("should treat missing operands and division by zero as null", () => {
+      expect(evaluate(gt(sub("price", "discount"), 0), order)).toBe(false);
+      expect(evaluate(lt(sub("price", "discount"), 0), order)).toBe(false);
+      expect(evaluate(eq(intDiv("price", 0), 0), order)).toBe(false);
+    });
+  });
+
+  describe("property references", () => {
+    const task = {
+      created: "2023-01-01T00:00:00Z",
+      updated: "2023-02-01T00:00:00Z",
+      estimate: 10,
+      cost: 12,
+    };
+
+    it("should compare properties of the same record", () => {
+      expect(evaluate(gt("cost", prop("estimate")), task)).toBe(true);
+      expect(evaluate(eq("cost", prop("missing")), task)).toBe(false);
+      expect(evaluate(between("cost", prop("estimate"), 20), task)).toBe(true);
+      expect(evaluate(after("updated", prop("created")), task)).toBe(true);
+      expect(evaluate(before("updated", prop("created")), task)).toBe(false);
+    });
+  });
+
+  describe("text operators", () => {
+    it("should match LIKE wildcards", () => {
+      expect(evaluate(like("name", "Jane%"), user)).toBe(true);
+      expect(evaluate(like("name", "%Brien"), user)).toBe(true);
+      expect(evaluate(like("name", "J_ne%"), user)).toBe(true);
+      expect(evaluate(like("name", "jane%"), user)).toBe(false);
+      expect(evaluate(like("name", "Jane"), user)).toBe(false);
+    });
+
+    it("should escape regular expression characters and honour backslash escapes", () => {
+      expect(evaluate(like("v", "a.c"), { v: "abc" })).toBe(false);
+      expect(evaluate(like("v", "100\\%"), { v: "100%" })).toBe(true);
+      expect(evaluate(like("v", "100\\%"), { v: "1000" })).toBe(false);
+    });
+
+    it("should match contains as a substring", () => {
+      expect(evaluate(contains("name", "O'Bri"), user)).toBe(true);
+      expect(evaluate(contains("name", "Smith"), user)).toBe(false);
+      expect(evaluate(contains("age", "3"), user)).toBe(false);
+      expect(evaluate(contains("v", "a_c"), { v: "xa_cx" })).toBe(true);
+      expect(evaluate(contains("v", "a_c"), { v: "xabcx" })).toBe(false);
+      expect(evaluate(contains("v", "100%"), { v: "1000" })).toBe(false);
+    });
+  });
+
+  describe("case- and accent-insensitive matching", () => {
+    const place = { name: "Zürich", canton: "ZH" };
+
+    it("should ignore case and accents as requested", () => {
+      expect(
+        evaluate(contains("name", "zür", { caseInsensitive: true }), place),
+      ).toBe(true);
+      expect(
+        evaluate(like("name", "Zur%", { accentInsensitive: true }), place),
+      ).toBe(true);
+      expect(
+        evaluate(like("name", "zur%", { accentInsensitive: true }), place),
+      ).toBe(false);
+      expect(
+        evaluate(
+          eq("name", "ZURICH", {
+            caseInsensitive: true,
+            accentInsensitive: true,
+          }),
+          place,
+        ),
+      ).toBe(true);
+      expect(
+        evaluate(eq("canton", "zh", { caseInsensitive: true }), place),
+      ).toBe(true);
+    });
+  });
+
+  describe("array operators", () => {
+    const item = { tags: ["road", "bridge"], categories: ["bridge", "rail"] };
+
+    it("should compare arrays as sets or sequences", () => {
+      expect(evaluate(aequals("tags", ["road", "bridge"]), item)).toBe(true);
+      expect(evaluate(aequals("tags", ["bridge", "road"]), item)).toBe(false);
+      expect(evaluate(acontains("tags", ["bridge"]), item)).toBe(true);
+      expect(evaluate(acontains("tags", ["bridge", "rail"]), item)).toBe(false);
+      expect(
+        evaluate(acontainedby("tags", ["road", "bridge", "tunnel"]), item),
+      ).toBe(true);
+      expect(evaluate(aoverlaps("tags", prop("categories")), item)).toBe(true);
+      expect(evaluate(aoverlaps("tags", ["tunnel"]), item)).toBe(false);
+    });
+
+    it("should be false when the property is not an array", () => {
+      expect(evaluate(acontains("missing", ["road"]), item)).toBe(false);
+      expect(evaluate(acontainedby("tags", ["road"]), { tags: "road" })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("logical operators", () => {
+    it("should combine conditions", () => {
+      expect(evaluate(and(eq("status", "ACTIVE"), gt("age", 18)), user)).toBe(
+        true,
+      );
+      expect(
+        evaluate(or(eq("status", "DELETED"), eq("verified", false)), user),
+      ).toBe(false);
+      expect(evaluate(not(eq("status", "DELETED")), user)).toBe(true);
+    });
+  });
+
+  describe("spatial operators", () => {
+    const square: Geometry = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+      ],
+    };
+    const inside: Geometry = { type: "Point", coordinates: [5, 5] };
+    const edge: Geometry = { type: "Point", coordinates: [10, 5] };
+    const outside: Geometry = { type: "Point", coordinates: [20, 20] };
+    const line: Geometry = {
+      type: "LineString",
+      coordinates: [
+        [-5, 5],
+        [5, 5],
+      ],
+    };
+    const shifted: Geometry = {
+      type: "Polygon",
+      coordinates: [
+        [
+          [5, 5],
+          [15, 5],
+          [15, 15],
+          [5, 15],
+          [5, 5],
+        ],
+      ],
+    };
+
+    it("should evaluate spatial predicates with JSTS", () => {
+      expect(evaluate(intersects("geom", square), { geom: inside })).toBe(true);
+      expect(evaluate(disjoint("geom", square), { geom: outside })).toBe(true);
+      expect(evaluate(within("geom", square), { geom: inside })).toBe(true);
+      expect(evaluate(spatialContains("geom", inside), { geom: square })).toBe(
+        true,
+      );
+      expect(evaluate(touches("geom", square), { geom: edge })).toBe(true);
+      expect(evaluate(overlaps("geom", square), { geom: shifted })).toBe(true);
+      expect(evaluate(crosses("geom", square), { geom: line })).toBe(true);
+      expect(evaluate(spatialEquals("geom", square), { geom: square })).toBe(
+        true,
+      );
+      expect(evaluate(within("geom", square), { geom: outside })).toBe(false);
+    });
+
+    it("should test bounding boxes as polygons", () => {
+      expect(evaluate(bbox("geom", [0, 0, 10, 10]), { geom: inside })).toBe(
+        true,
+      );
+      expect(evaluate(within("geom", [0, 0, 10, 10]), { geom: outside })).toBe(
+        false,
+      );
+      expect(
+        evaluate(bbox("geom", [0, 0, -100, 10, 10, 100]), { geom: inside }),
+      ).toBe(true);
+    });
+
+    it("should split bounding boxes crossing the antimeridian", () => {
+      const crossing = bbox("geom", [170, -10, -170, 10]);
+      const point = (x: number): Geometry => ({
+        type: "Point",
+        coordinates: [x, 0],
+      });
+      expect(evaluate(crossing, { geom: point(175) })).toBe(true);
+      expect(evaluate(crossing, { geom: point(-175) })).toBe(true);
+      expect(evaluate(crossing, { geom: point(0) })).toBe(false);
+    });
+
+    it("should test GeoJSON features", () => {
+      const feature: Feature = {
+        type: "Feature",
+        geometry: inside,
+        properties: { name: "Station", level: 3 },
+      };
+
+      expect(
+        evaluate(
+          and(intersects("geometry", square), eq("name", "Station")),
+          feature,
+        ),
+      ).toBe(true);
+      expect(evaluate(gt("level", 5), feature)).toBe(false);
+    });
+
+    it("should compare two geometries of the same record", () => {
+      expect(
+        evaluate(within("geom", prop("area")), { geom: inside, area: square }),
+      ).toBe(true);
+      expect(
+        evaluate(within("geom", prop("area")), { geom: outside, area: square }),
+      ).toBe(false);
+      expect(evaluate(within("geom", prop("area")), { geom: inside })).toBe(
+        false,
+      );
+    });
+
+    it("should be false when the record has no geometry", () => {
+      expect(evaluate(intersects("geom", square), { geom: null })).toBe(false);
+    });
+  });
+
+  describe("temporal operators", () => {
+    const instant = "2023-06-15T00:00:00Z";
+    const year = { start: "2023-01-01T00:00:00Z", end: "2023-12-31T00:00:00Z" };
+    const firstHalf = {
+      start: "2023-01-01T00:00:00Z",
+      end: "2023-06-30T00:00:00Z",
+    };
+    const secondHalf = {
+      start: "2023-06-30T00:00:00Z",
+      end: "2023-12-31T00:00:00Z",
+    };
+    const summer = {
+      start: "2023-06-01T00:00:00Z",
+      end: "2023-08-31T00:00:00Z",
+    };
+
+    it("should evaluate instant relations", () => {
+      expect(evaluate(after("d", "2023-01-01"), { d: instant })).toBe(true);
+      expect(evaluate(before("d", "2023-01-01"), { d: instant })).toBe(false);
+      expect(evaluate(tequals("d", new Date(instant)), { d: instant })).toBe(
+        true,
+      );
+      expect(evaluate(during("d", year), { d: instant })).toBe(true);
+      expect(evaluate(anyinteracts("d", year), { d: new Date(instant) })).toBe(
+        true,
+      );
+    });
+
+    it("should follow Allen's interval relations", () => {
+      expect(evaluate(tcontains("p", summer), { p: year })).toBe(true);
+      expect(evaluate(during("p", year), { p: summer })).toBe(true);
+      expect(evaluate(during("p", year), { p: year })).toBe(false);
+      expect(evaluate(begins("p", year), { p: firstHalf })).toBe(true);
+      expect(evaluate(begunby("p", firstHalf), { p: year })).toBe(true);
+      expect(evaluate(ends("p", year), { p: secondHalf })).toBe(true);
+      expect(evaluate(endedby("p", secondHalf), { p: year })).toBe(true);
+      expect(evaluate(meets("p", secondHalf), { p: firstHalf })).toBe(true);
+      expect(evaluate(metby("p", firstHalf), { p: secondHalf })).toBe(true);
+      expect(evaluate(toverlaps("p", secondHalf), { p: summer })).toBe(true);
+      expect(evaluate(overlappedby("p", firstHalf), { p: summer })).toBe(true);
+      expect(evaluate(tequals("p", year), { p: { ...year } })).toBe(true);
+      expect(evaluate(tintersects("p", summer), { p: secondHalf })).toBe(true);
+    });
+
+    it("should compare boundary relations against instants", () => {
+      expect(evaluate(begins("p", year.start), { p: year })).toBe(true);
+      expect(evaluate(ends("p", year.end), { p: year })).toBe(true);
+      expect(evaluate(ends("p", year.start), { p: year })).toBe(false);
+    });
+
+    it("should treat '..' and null interval bounds as unbounded", () => {
+      const openEnded = { start: "2023-01-01T00:00:00Z", end: ".." };
+      expect(evaluate(tcontains("p", instant), { p: openEnded })).toBe(true);
+      expect(evaluate(after("d", year), { d: [null, "2022-01-01"] })).toBe(
+        false,
+      );
+      expect(
+        evaluate(during("d", { start: "2023-01-01", end: null }), {
+          d: instant,
+        }),
+      ).toBe(true);
+    });
+
+    it("should be false for missing or invalid temporal values", () => {
+      expect(evaluate(after("d", "2023-01-01"), {})).toBe(false);
+      expect(evaluate(after("d", "2023-01-01"), { d: "not a date" })).toBe(
+        false,
+      );
+    });
+  });
+});
+
+describe("compileFilter", () => {
+  interface Product {
+    name: string;
+    price: number;
+  }
+
+  it("should return a reusable predicate", () => {
+    const products: Product[] = [
+      { name: "Laptop", price: 1200 },
+      { name: "Mouse", price: 25 },
+      { name: "Monitor", price: 300 },
+    ];
+    const predicate = compileFilter<Product>(
+      and(like("name", "M%"), gt("price", 100)),
+    );
+
+    expect(products.filter(predicate)).toEqual([
+      { name: "Monitor", price: 300 },
+    ]);
+  });
+
+  it("should throw for function calls, which only the server can evaluate", () => {
+    expect(() =>
+      compileFilter(eq(fn("strToLowerCase", prop("name")), "x")),
+    ).toThrowError("Unsupported condition type: strToLowerCase (function).");
+  });
+
+  it("should throw for unsupported condition types", () => {
+    const condition = {
+      type: "unknown",
+      toCQL: () => "",
+    } as unknown as Condition;
+    expect(() => compileFilter(condition)).toThrowError(
+      UnsupportedConditionTypeError,
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, expect, it } from "vitest";
+import {
+  SpatialOperationError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import { type FilterXMLOptions, toFilterXML } from "../filter-xml";
+import { add, mod } from "../operators/arithmetic-operators";
+import { acontains } from "../operators/array-operators";
+import type { Condition } from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import { bbox, intersects, within } from "../operators/spatial-operators";
+import { after, during, tintersects } from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+import { queryBuilder } from "../query-builder";
+
+/**
+ * Writes a condition and strips the `Filter` element around it.
+ */
+function filterContent(condition: Condition, options?: FilterXMLOptions) {
+  return toFilterXML(condition, options).replace(/^<[^>]+>|<\/[^>]+>$/g, "");
+}
+
+describe("toFilterXML", () => {
+  it("should write a FES 2.0 filter document", () => {
+    expect(toFilterXML(eq("status", "ACTIVE"))).toBe(
+      '<fes:Filter xmlns:fes="http://www.opengis.net/fes/2.0" xmlns:gml="http://www.opengis.net/gml/3.2">' +
+        "<fes:PropertyIsEqualTo><fes:ValueReference>status</fes:ValueReference><fes:Literal>ACTIVE</fes:Literal></fes:PropertyIsEqualTo>" +
+        "</fes:Filter>",
+    );
+  });
+
+  it("should write a Filter 1.1 document", () => {
+    expect(toFilterXML(eq("status", "ACTIVE"), { version: "1.1" })).toBe(
+      '<ogc:Filter xmlns:ogc="http://www.opengis.net/ogc" xmlns:gml="http://www.opengis.net/gml">' +
+        "<ogc:PropertyIsEqualTo><ogc:PropertyName>status</ogc:PropertyName><ogc:Literal>ACTIVE</ogc:Literal></ogc:PropertyIsEqualTo>" +
+        "</ogc:Filter>",
+    );
+  });
+
+  describe("comparisons", () => {
+    it.each([
+      [ne("a", 1), "PropertyIsNotEqualTo"],
+      [lte("a", 1), "PropertyIsLessThanOrEqualTo"],
+      [gt("a", 1), "PropertyIsGreaterThan"],
+    ])("should write %s as its element", (condition, name) => {
+      expect(filterContent(condition)).toBe(
+        `<fes:${name}><fes:ValueReference>a</fes:ValueReference><fes:Literal>1</fes:Literal></fes:${name}>`,
+      );
+    });
+
+    it("should write null checks", () => {
+      expect(filterContent(isNull("owner"))).toBe(
+        "<fes:PropertyIsNull><fes:ValueReference>owner</fes:ValueReference></fes:PropertyIsNull>",
+      );
+      expect(filterContent(isNotNull("owner"))).toBe(
+        "<fes:Not><fes:PropertyIsNull><fes:ValueReference>owner</fes:ValueReference></fes:PropertyIsNull></fes:Not>",
+      );
+    });
+
+    it("should write between with its boundaries", () => {
+      expect(filterContent(between("depth", 100, 200))).toBe(
+        "<fes:PropertyIsBetween><fes:ValueReference>depth</fes:ValueReference>" +
+          "<fes:LowerBoundary><fes:Literal>100</fes:Literal></fes:LowerBoundary>" +
+          "<fes:UpperBoundary><fes:Literal>200</fes:Literal></fes:UpperBoundary>" +
+          "</fes:PropertyIsBetween>",
+      );
+    });
+
+    it("should write IN lists as disjunctions of equalities", () => {
+      const equalTo = (value: string) =>
+        `<fes:PropertyIsEqualTo><fes:ValueReference>status</fes:ValueReference><fes:Literal>${value}</fes:Literal></fes:PropertyIsEqualTo>`;
+
+      expect(filterContent(isIn("status", ["A", "B"]))).toBe(
+        `<fes:Or>${equalTo("A")}${equalTo("B")}</fes:Or>`,
+      );
+      expect(filterContent(isIn("status", ["A"]))).toBe(equalTo("A"));
+      expect(filterContent(isNotIn("status", ["A", "B"]))).toBe(
+        `<fes:Not><fes:Or>${equalTo("A")}${equalTo("B")}</fes:Or></fes:Not>`,
+      );
+    });
+
+    it("should set matchCase for case-insensitive comparisons", () => {
+      expect(
+        filterContent(eq("city", "zürich", { caseInsensitive: true })),
+      ).toBe(
+        '<fes:PropertyIsEqualTo matchCase="false"><fes:ValueReference>city</fes:ValueReference><fes:Literal>zürich</fes:Literal></fes:PropertyIsEqualTo>',
+      );
+      expect(() =>
+        toFilterXML(eq("city", "zurich", { accentInsensitive: true })),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should escape literals and write paths as XPaths", () => {
+      expect(filterContent(eq("address.city", "Tom & Jerry <3"))).toBe(
+        "<fes:PropertyIsEqualTo><fes:ValueReference>address/city</fes:ValueReference><fes:Literal>Tom &amp; Jerry &lt;3</fes:Literal></fes:PropertyIsEqualTo>",
+      );
+      expect(
+        filterContent(eq("updated", new Date(Date.UTC(2023, 0, 1)))),
+      ).toContain("<fes:Literal>2023-01-01T00:00:00.000Z</fes:Literal>");
+    });
+  });
+
+  describe("expressions", () => {
+    it("should write property references and functions", () => {
+      expect(filterContent(gt("updated", prop("created")))).toBe(
+        "<fes:PropertyIsGreaterThan><fes:ValueReference>updated</fes:ValueReference><fes:ValueReference>created</fes:ValueReference></fes:PropertyIsGreaterThan>",
+      );
+      expect(
+        filterContent(eq(fn("strToLowerCase", prop("name")), "zurich")),
+      ).toBe(
+        '<fes:PropertyIsEqualTo><fes:Function name="strToLowerCase"><fes:ValueReference>name</fes:ValueReference></fes:Function><fes:Literal>zurich</fes:Literal></fes:PropertyIsEqualTo>',
+      );
+    });
+
+    it("should write arithmetic in Filter 1.1 only", () => {
+      expect(filterContent(gt(add("a", 1), 10), { version: "1.1" })).toBe(
+        "<ogc:PropertyIsGreaterThan><ogc:Add><ogc:PropertyName>a</ogc:PropertyName><ogc:Literal>1</ogc:Literal></ogc:Add><ogc:Literal>10</ogc:Literal></ogc:PropertyIsGreaterThan>",
+      );
+      expect(() => toFilterXML(gt(add("a", 1), 10))).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+      expect(() =>
+        toFilterXML(eq(mod("a", 2), 0), { version: "1.1" }),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+  });
+
+  describe("text operators", () => {
+    it("should write like with its wildcard attributes", () => {
+      expect(filterContent(like("name", "Zür_ch%"))).toBe(
+        '<fes:PropertyIsLike wildCard="%" singleChar="_" escapeChar="\\"><fes:ValueReference>name</fes:ValueReference><fes:Literal>Zür_ch%</fes:Literal></fes:PropertyIsLike>',
+      );
+      expect(
+        filterContent(contains("name", "lake", { caseInsensitive: true }), {
+          version: "1.1",
+        }),
+      ).toBe(
+        '<ogc:PropertyIsLike wildCard="%" singleChar="_" escapeChar="\\" matchCase="false"><ogc:PropertyName>name</ogc:PropertyName><ogc:Literal>%lake%</ogc:Literal></ogc:PropertyIsLike>',
+      );
+    });
+  });
+
+  describe("spatial operators", () => {
+    const polygon = {
+      type: "Polygon" as const,
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+        [
+          [1, 1],
+          [2, 1],
+          [2, 2],
+          [1, 1],
+        ],
+      ],
+    };
+
+    it("should write GML 3.2 geometries with ids", () => {
+      expect(
+        filterContent(intersects("geom", polygon), {
+          srsName: "urn:ogc:def:crs:EPSG::4326",
+        }),
+      ).toBe(
+        "<fes:Intersects><fes:ValueReference>geom</fes:ValueReference>" +
+          '<gml:Polygon gml:id="id1" srsName="urn:ogc:def:crs:EPSG::4326">' +
+          "<gml:exterior><gml:LinearRing><gml:posList>0 0 10 0 10 10 0 0</gml:posList></gml:LinearRing></gml:exterior>" +
+          "<gml:interior><gml:LinearRing><gml:posList>1 1 2 1 2 2 1 1</gml:posList></gml:LinearRing></gml:interior>" +
+          "</gml:Polygon></fes:Intersects>",
+      );
+    });
+
+    it("should write GML 3.1 geometries", () => {
+      expect(
+        filterContent(
+          within("geom", { type: "Point", coordinates: [7.4, 46.9] }),
+          { version: "1.1" },
+        ),
+      ).toBe(
+        "<ogc:Within><ogc:PropertyName>geom</ogc:PropertyName><gml:Point><gml:pos>7.4 46.9</gml:pos></gml:Point></ogc:Within>",
+      );
+    });
+
+    it("should write multi geometries as members", () => {
+      expect(
+        filterContent(
+          intersects("geom", {
+            type: "MultiLineString",
+            coordinates: [
+              [
+                [0, 0],
+                [1, 1],
+              ],
+              [
+                [2, 2],
+                [3, 3],
+              ],
+            ],
+          }),
+        ),
+      ).toBe(
+        "<fes:Intersects><fes:ValueReference>geom</fes:ValueReference>" +
+          '<gml:MultiCurve gml:id="id1">' +
+          '<gml:curveMember><gml:LineString gml:id="id2"><gml:posList>0 0 1 1</gml:posList></gml:LineString></gml:curveMember>' +
+          '<gml:curveMember><gml:LineString gml:id="id3"><gml:posList>2 2 3 3</gml:posList></gml:LineString></gml:curveMember>' +
+          "</gml:MultiCurve></fes:Intersects>",
+      );
+    });
+
+    it("should write bounding boxes as envelopes", () => {
+      expect(filterContent(bbox("geom", [5.9, 45.8, 10.5, 47.8]))).toBe(
+        "<fes:Intersects><fes:ValueReference>geom</fes:ValueReference>" +
+          "<gml:Envelope><gml:lowerCorner>5.9 45.8</gml:lowerCorner><gml:upperCorner>10.5 47.8</gml:upperCorner></gml:Envelope>" +
+          "</fes:Intersects>",
+      );
+    });
+
+    it("should only compare two geometry properties in FES 2.0", () => {
+      expect(filterContent(intersects("geom", prop("footprint")))).toBe(
+        "<fes:Intersects><fes:ValueReference>geom</fes:ValueReference><fes:ValueReference>footprint</fes:ValueReference></fes:Intersects>",
+      );
+      expect(() =>
+        toFilterXML(intersects("geom", prop("footprint")), { version: "1.1" }),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should reject geometries without coordinates", () => {
+      expect(() =>
+        toFilterXML(
+          intersects("geom", { type: "Point" } as unknown as GeoJSON.Point),
+        ),
+      ).toThrowError(SpatialOperationError);
+    });
+  });
+
+  describe("temporal operators", () => {
+    it("should write instants as gml:TimeInstant", () => {
+      expect(filterContent(after("updated", "2023-01-01T00:00:00Z"))).toBe(
+        "<fes:After><fes:ValueReference>updated</fes:ValueReference>" +
+          '<gml:TimeInstant gml:id="id1"><gml:timePosition>2023-01-01T00:00:00Z</gml:timePosition></gml:TimeInstant>' +
+          "</fes:After>",
+      );
+    });
+
+    it("should write intervals as gml:TimePeriod", () => {
+      expect(
+        filterContent(
+          during("updated", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      ).toBe(
+        "<fes:During><fes:ValueReference>updated</fes:ValueReference>" +
+          '<gml:TimePeriod gml:id="id1"><gml:beginPosition>2023-01-01</gml:beginPosition><gml:endPosition>2023-12-31</gml:endPosition></gml:TimePeriod>' +
+          "</fes:During>",
+      );
+      expect(
+        filterContent(
+          tintersects("updated", { start: "2023-01-01", end: null }),
+        ),
+      ).toBe(
+        "<fes:AnyInteracts><fes:ValueReference>updated</fes:ValueReference>" +
+          '<gml:TimePeriod gml:id="id1"><gml:beginPosition>2023-01-01</gml:beginPosition><gml:endPosition indeterminatePosition="unknown"/></gml:TimePeriod>' +
+          "</fes:AnyInteracts>",
+      );
+    });
+
+    it("should reject temporal operators in Filter 1.1", () => {
+      expect(() =>
+        toFilterXML(after("updated", "2023-01-01"), { version: "1.1" }),
+      ).toThrowError("Unsupported condition type: after (Filter 1.1)");
+    });
+  });
+
+  describe("logical operators", () => {
+    it("should nest And, Or and Not", () => {
+      expect(
+        filterContent(and(eq("a", 1), or(eq("b", 2), not(eq("c", 3)))), {
+          version: "1.1",
+        }),
+      ).toBe(
+        "<ogc:And>" +
+          "<ogc:PropertyIsEqualTo><ogc:PropertyName>a</ogc:PropertyName><ogc:Literal>1</ogc:Literal></ogc:PropertyIsEqualTo>" +
+          "<ogc:Or>" +
+          "<ogc:PropertyIsEqualTo><ogc:PropertyName>b</ogc:PropertyName><ogc:Literal>2</ogc:Literal></ogc:PropertyIsEqualTo>" +
+          "<ogc:Not><ogc:PropertyIsEqualTo><ogc:PropertyName>c</ogc:PropertyName><ogc:Literal>3</ogc:Literal></ogc:PropertyIsEqualTo></ogc:Not>" +
+          "</ogc:Or></ogc:And>",
+      );
+    });
+  });
+
+  it("should reject array operators", () => {
+    expect(() => toFilterXML(acontains("tags", ["a"]))).toThrowError(
+      UnsupportedConditionTypeError,
+    );
+  });
+
+  it("should be available on the query builder", () => {
+    expect(queryBuilder().toFilterXML()).toBe("");
+    expect(
+      queryBuilder()
+        .filter(eq("status", "ACTIVE"))
+        .toFilterXML({ version: "1.1" }),
+    ).toBe(toFilterXML(eq("status", "ACTIVE"), { version: "1.1" }));
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, expect, it } from "vitest";
+import {
+  SpatialOperationError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import { toMongoFilter } from "../mongo";
+import { mul } from "../operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "../operators/array-operators";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  ne,
+} from "../operators/comparison-operators";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  bbox,
+  intersects,
+  touches,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  during,
+  meets,
+  toverlaps,
+} from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+
+describe("toMongoFilter", () => {
+  it("should map logical operators to $and, $or and $nor", () => {
+    expect(
+      toMongoFilter(
+        and(eq("status", "ACTIVE"), or(gt("height", 10), not(lt("age", 5)))),
+      ),
+    ).toEqual({
+      $and: [
+        { status: { $eq: "ACTIVE" } },
+        {
+          $or: [{ height: { $gt: 10 } }, { $nor: [{ age: { $lt: 5 } }] }],
+        },
+      ],
+    });
+  });
+
+  describe("comparisons", () => {
+    it("should map comparisons to query operators", () => {
+      expect(toMongoFilter(gte("height", 10))).toEqual({
+        height: { $gte: 10 },
+      });
+      expect(toMongoFilter(between("depth", 100, 200))).toEqual({
+        depth: { $gte: 100, $lte: 200 },
+      });
+      expect(toMongoFilter(isIn("type", ["CPT", "OTHER"]))).toEqual({
+        type: { $in: ["CPT", "OTHER"] },
+      });
+    });
+
+    it("should use dotted paths as field paths", () => {
+      expect(toMongoFilter(eq("address.city", "Bern"))).toEqual({
+        "address.city": { $eq: "Bern" },
+      });
+    });
+
+    it("should never match missing fields in negative comparisons", () => {
+      expect(toMongoFilter(ne("status", "DELETED"))).toEqual({
+        status: { $nin: ["DELETED", null] },
+      });
+      expect(toMongoFilter(isNotIn("type", ["CPT"]))).toEqual({
+        type: { $nin: ["CPT", null] },
+      });
+    });
+
+    it("should compare with null for null checks", () => {
+      expect(toMongoFilter(isNull("deletedAt"))).toEqual({
+        deletedAt: { $eq: null },
+      });
+      expect(toMongoFilter(isNotNull("deletedAt"))).toEqual({
+        deletedAt: { $ne: null },
+      });
+    });
+
+    it("should match case-insensitive equality with a regular expression", () => {
+      expect(
+        toMongoFilter(eq("city", "St. Gallen", { caseInsensitive: true })),
+      ).toEqual({ city: { $regex: "^St\\. Gallen$", $options: "is" } });
+      expect(() =>
+        toMongoFilter(ne("city", "bern", { caseInsensitive: true })),
+      ).toThrowError(UnsupportedConditionTypeError);
+      expect(() =>
+        toMongoFilter(eq("city", "zürich", { accentInsensitive: true })),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should reject expressions as operands", () => {
+      expect(() => toMongoFilter(gt("updated", prop("created")))).toThrowError(
+        "Unsupported condition type: gt with property operand (MongoDB).",
+      );
+      expect(() => toMongoFilter(gt(mul("a", 2), 10))).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+    });
+  });
+
+  describe("text operators", () => {
+    it("should map LIKE patterns to anchored regular expressions", () => {
+      expect(toMongoFilter(like("name", "Zür_ch%"))).toEqual({
+        name: { $regex: "^Zür.ch.*$", $options: "s" },
+      });
+      expect(toMongoFilter(like("code", "1.5\\%(a)"))).toEqual({
+        code: { $regex: "^1\\.5%\\(a\\)$", $options: "s" },
+      });
+      expect(
+        toMongoFilter(contains("name", "zurich", { caseInsensitive: true })),
+      ).toEqual({ name: { $regex: "^.*zurich.*$", $options: "is" } });
+      expect(toMongoFilter(contains("code", "a_b%.c"))).toEqual({
+        code: { $regex: "^.*a_b%\\.c.*$", $options: "s" },
+      });
+    });
+  });
+
+  describe("spatial operators", () => {
+    const polygon = {
+      type: "Polygon" as const,
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+      ],
+    };
+
+    it("should map intersects and within to geospatial operators", () => {
+      expect(toMongoFilter(intersects("geometry", polygon))).toEqual({
+        geometry: { $geoIntersects: { $geometry: polygon } },
+      });
+      expect(toMongoFilter(within("geometry", polygon))).toEqual({
+        geometry: { $geoWithin: { $geometry: polygon } },
+      });
+    });
+
+    it("should write bounding boxes as polygons", () => {
+      expect(toMongoFilter(bbox("geometry", [0, 0, 1, 1]))).toEqual({
+        geometry: {
+          $geoIntersects: {
+            $geometry: {
+              type: "Polygon",
+              coordinates: [
+                [
+                  [0, 0],
+                  [1, 0],
+                  [1, 1],
+                  [0, 1],
+                  [0, 0],
+                ],
+              ],
+            },
+          },
+        },
+      });
+    });
+
+    it("should split bounding boxes crossing the antimeridian", () => {
+      expect(
+        toMongoFilter(bbox("geometry", [170, -10, -170, 10])),
+      ).toMatchObject({
+        geometry: {
+          $geoIntersects: {
+            $geometry: {
+              type: "MultiPolygon",
+              coordinates: [
+                [
+                  [
+                    [170, -10],
+                    [180, -10],
+                    [180, 10],
+                    [170, 10],
+                    [170, -10],
+                  ],
+                ],
+                [
+                  [
+                    [-180, -10],
+                    [-170, -10],
+                    [-170, 10],
+                    [-180, 10],
+                    [-180, -10],
+                  ],
+                ],
+              ],
+            },
+          },
+        },
+      });
+    });
+
+    it("should reject other relations and geometries", () => {
+      expect(() =>
+        toMongoFilter(
+          within("geometry", { type: "Point", coordinates: [0, 0] }),
+        ),
+      ).toThrowError(SpatialOperationError);
+      expect(() => toMongoFilter(touches("geometry", polygon))).toThrowError(
+        "Unsupported condition type: touches (MongoDB).",
+      );
+    });
+  });
+
+  describe("temporal operators", () => {
+    it("should map temporal operators to Date range comparisons", () => {
+      expect(toMongoFilter(after("updated", "2023-01-01T00:00:00Z"))).toEqual({
+        updated: { $gt: new Date("2023-01-01T00:00:00Z") },
+      });
+      expect(
+        toMongoFilter(
+          anyinteracts("updated", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      ).toEqual({
+        updated: {
+          $gte: new Date("2023-01-01"),
+          $lte: new Date("2023-12-31"),
+        },
+      });
+      expect(
+        toMongoFilter(during("updated", { start: null, end: "2023-12-31" })),
+      ).toEqual({ updated: { $lt: new Date("2023-12-31") } });
+      expect(
+        toMongoFilter(
+          meets("updated", { start: new Date("2023-01-01"), end: ".." }),
+        ),
+      ).toEqual({
+        updated: {
+          $gte: new Date("2023-01-01"),
+          $lte: new Date("2023-01-01"),
+        },
+      });
+    });
+
+    it("should match any date in an unbounded interval", () => {
+      expect(
+        toMongoFilter(anyinteracts("updated", { start: "..", end: ".." })),
+      ).toEqual({ updated: { $ne: null } });
+    });
+
+    it("should reject relations a date cannot have", () => {
+      expect(() =>
+        toMongoFilter(
+          toverlaps("updated", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      ).toThrowError(
+        "Unsupported condition type: toverlaps (MongoDB date field).",
+      );
+    });
+  });
+
+  it("should map array operators", () => {
+    expect(toMongoFilter(aequals("tags", ["a", "b"]))).toEqual({
+      tags: { $eq: ["a", "b"] },
+    });
+    expect(toMongoFilter(acontains("tags", ["a", "b"]))).toEqual({
+      tags: { $all: ["a", "b"] },
+    });
+    expect(toMongoFilter(aoverlaps("tags", ["a", "b"]))).toEqual({
+      tags: { $in: ["a", "b"] },
+    });
+    expect(() => toMongoFilter(acontainedby("tags", ["a"]))).toThrowError(
+      UnsupportedConditionTypeError,
+    );
+  });
+});
@@ -1,5 +1,11 @@
 import type { Geometry } from "geojson";
 import { describe, expect, it } from "vitest";
+import {
+  InvalidConditionError,
+  InvalidQueryOptionError,
+  InvalidTemporalValueError,
+} from "../errors";
+import type { BBox } from "../operators/base-types";
 import {
   between,
   eq,
@@ -11,6 +17,7 @@ import {
   lte,
   ne,
 } from "../operators/comparison-operators";
+import { defineFunctions, fn } from "../operators/function-calls";
 import { and, not, or } from "../operators/logical-operators";
 import {
   disjoint,
@@ -18,6 +25,7 @@ import {
   spatialContains,
   within,
 } from "../operators/spatial-operators";
+import type { TemporalValue } from "../operators/temporal-operators";
 import {
   after,
   anyinteracts,
@@ -36,7 +44,7 @@ import {
   toverlaps,
 } from "../operators/temporal-operators";
 import { contains, like } from "../operators/text-operators";
-import { QueryBuilder, queryBuilder } from "../query-builder";
+import { QueryBuilder, queryBuilder, toQueryString } from "../query-builder";
 
 describe("QueryBuilder", () => {
   describe("filter method", () => {
@@ -50,6 +58,288 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("andFilter and orFilter methods", () => {
+    it("should combine conditions with the current filter", () => {
+      const qb = new QueryBuilder()
+        .filter(eq("type", "station"))
+        .andFilter(eq("status", "ACTIVE"))
+        .andFilter((op) => op.gt("capacity", 100));
+
+      expect(qb.toCQL()).toBe(
+        "(type = 'station' AND status = 'ACTIVE' AND capacity > 100)",
+      );
+      expect(
+        new QueryBuilder()
+          .filter(eq("status", "PENDING"))
+          .orFilter(eq("status", "PROCESSING"))
+          .toCQL(),
+      ).toBe("(status = 'PENDING' OR status = 'PROCESSING')");
+    });
+
+    it("should set the filter when none is set", () => {
+      const condition = eq("status", "ACTIVE");
+      expect(new QueryBuilder().andFilter(condition)._getOptions().filter).toBe(
+        condition,
+      );
+      expect(new QueryBuilder().orFilter(condition).toCQL()).toBe(
+        "status = 'ACTIVE'",
+      );
+    });
+
+    it("should group the current filter when switching between and and or", () => {
+      const qb = new QueryBuilder()
+        .filter(eq("a", 1))
+        .orFilter(eq("b", 2))
+        .andFilter(eq("c", 3));
+
+      expect(qb.toCQL()).toBe("((a = 1 OR b = 2) AND c = 3)");
+    });
+  });
+
+  describe("immutable mode", () => {
+    it("should return a new builder from each filter call", () => {
+      const base = new QueryBuilder({ immutable: true }).filter(
+        eq("type", "station"),
+      );
+      const active = base.andFilter(eq("status", "ACTIVE"));
+      const closed = base.andFilter(eq("status", "CLOSED"));
+
+      expect(active).not.toBe(base);
+      expect(base.toCQL()).toBe("type = 'station'");
+      expect(active.toCQL()).toBe("(type = 'station' AND status = 'ACTIVE')");
+      expect(closed.toCQL()).toBe("(type = 'station' AND status = 'CLOSED')");
+    });
+
+    it("should stay immutable in clones", () => {
+      const base = queryBuilder({ immutable: true }).clone();
+      expect(base.filter(eq("a", 1))).not.toBe(base);
+      expect(base.toCQL()).toBe("");
+    });
+  });
+
+  describe("query shape", () => {
+    type Station = {
+      name: string;
+      capacity: number;
+      updated: string;
+      address: { city: string };
+    };
+
+    it("should describe the whole request in toParams", () => {
+      const params = queryBuilder<Station>()
+        .filter(eq("name", "Central"))
+        .select("name", "address.city")
+        .sortBy("capacity", "desc")
+        .sortBy("name")
+        .limit(10)
+        .offset(20)
+        .toParams();
+
+      expect(params).toEqual({
+        filter: "name = 'Central'",
+        properties: "name,address.city",
+        sortby: "-capacity,name",
+        limit: 10,
+        offset: 20,
+      });
+    });
+
+    it("should only include the parameters that are set", () => {
+      expect(queryBuilder().toParams()).toEqual({});
+      expect(queryBuilder().offset(0).toParams()).toEqual({ offset: 0 });
+      expect(
+        queryBuilder<Station>().select("name").select("name").toParams(),
+      ).toEqual({ properties: "name" });
+    });
+
+    it("should reject invalid limits and offsets", () => {
+      expect(() => queryBuilder().limit(0)).toThrowError(
+        InvalidQueryOptionError,
+      );
+      expect(() => queryBuilder().offset(-1)).toThrowError(
+        "Invalid value for query option 'offset': expected a non-negative integer but got -1.",
+      );
+      expect(() => queryBuilder().limit(2.5)).toThrowError(
+        InvalidQueryOptionError,
+      );
+    });
+
+    it("should carry the query shape through clone", () => {
+      const base = queryBuilder<Station>()
+        .select("name")
+        .sortBy("name")
+        .limit(10);
+      const clone = base.clone().select("capacity").sortBy("updated", "desc");
+      clone.offset(10);
+
+      expect(base.toParams()).toEqual({
+        properties: "name",
+        sortby: "name",
+        limit: 10,
+      });
+      expect(clone.toParams()).toEqual({
+        properties: "name,capacity",
+        sortby: "name,-updated",
+        limit: 10,
+        offset: 10,
+      });
+    });
+
+    it("should return new builders in immutable mode", () => {
+      const base = queryBuilder<Station>({ immutable: true }).limit(10);
+      const page = base.offset(10).sortBy("name");
+
+      expect(base.toParams()).toEqual({ limit: 10 });
+      expect(page.toParams()).toEqual({
+        limit: 10,
+        offset: 10,
+        sortby: "name",
+      });
+    });
+  });
+
+  describe("OGC API Features requests", () => {
+    // Examples from OGC API - Features - Part 1 (bbox, datetime), Part 2 (CRS URIs)
+    // and the CQL2 standard (filters), as sent to `/collections/{collectionId}/items`
+    type Place = {
+      geometry: Geometry;
+      city: string;
+      event_date: string;
+      name: string;
+      population: number;
+    };
+
+    it("should encode the filter as CQL2 text", () => {
+      const builder = queryBuilder<Place>().filter((op) =>
+        op.eq("city", "Toronto"),
+      );
+
+      expect(builder.toURLSearchParams()).toEqual({
+        "filter-lang": "cql2-text",
+        filter: "city = 'Toronto'",
+      });
+      expect(toQueryString(builder.toURLSearchParams())).toBe(
+        "filter-lang=cql2-text&filter=city%20%3D%20'Toronto'",
+      );
+    });
+
+    it("should write CQL2 whatever the builder's dialect", () => {
+      const params = queryBuilder<Place>({ dialect: "legacy" })
+        .filter((op) =>
+          op.tintersects("event_date", {
+            start: "1969-07-16T05:32:00Z",
+            end: "1969-07-24T16:50:35Z",
+          }),
+        )
+        .toURLSearchParams();
+
+      expect(params.filter).toBe(
+        "T_INTERSECTS(event_date, INTERVAL('1969-07-16T05:32:00Z', '1969-07-24T16:50:35Z'))",
+      );
+    });
+
+    it("should encode the filter as CQL2-JSON", () => {
+      const params = queryBuilder<Place>({ filterLang: "cql2-json" })
+        .filter((op) => op.eq("city", "Toronto"))
+        .toURLSearchParams();
+
+      expect(params["filter-lang"]).toBe("cql2-json");
+      expect(JSON.parse(params.filter)).toEqual({
+        op: "=",
+        args: [{ property: "city" }, "Toronto"],
+      });
+    });
+
+    it("should add the core and Part 3 parameters", () => {
+      const params = queryBuilder<Place>()
+        .filter((op) =>
+          op.intersects("geometry", {
+            type: "Point",
+            coordinates: [36.319836, 32.288087],
+          }),
+        )
+        .select("name", "population")
+        .sortBy("population", "desc")
+        .limit(10)
+        .offset(20)
+        .toURLSearchParams({
+          filterCrs: "http://www.opengis.net/def/crs/OGC/1.3/CRS84",
+          bbox: [160.6, -55.95, -170, -25.89],
+          bboxCrs: "http://www.opengis.net/def/crs/EPSG/0/4326",
+          datetime: { start: "2018-02-12T00:00:00Z", end: null },
+        });
+
+      expect(params).toEqual({
+        "filter-lang": "cql2-text",
+        filter: "S_INTERSECTS(geometry, POINT (36.319836 32.288087))",
+        "filter-crs": "http://www.opengis.net/def/crs/OGC/1.3/CRS84",
+        bbox: "160.6,-55.95,-170,-25.89",
+        "bbox-crs": "http://www.opengis.net/def/crs/EPSG/0/4326",
+        datetime: "2018-02-12T00:00:00Z/..",
+        properties: "name,population",
+        sortby: "-population",
+        limit: "10",
+        offset: "20",
+      });
+    });
+
+    it("should format datetime instants and intervals", () => {
+      const datetime = (value: TemporalValue) =>
+        queryBuilder().toURLSearchParams({ datetime: value }).datetime;
+
+      expect(datetime("2018-02-12T23:20:50Z")).toBe("2018-02-12T23:20:50Z");
+      expect(datetime(new Date(Date.UTC(2018, 1, 12)))).toBe(
+        "2018-02-12T00:00:00.000Z",
+      );
+      expect(
+        datetime({
+          start: "2018-02-12T00:00:00Z",
+          end: "2018-03-18T12:31:12Z",
+        }),
+      ).toBe("2018-02-12T00:00:00Z/2018-03-18T12:31:12Z");
+      expect(datetime({ start: "2018-02-12T00:00:00Z", end: ".." })).toBe(
+        "2018-02-12T00:00:00Z/..",
+      );
+      expect(datetime({ start: "..", end: "2018-03-18T12:31:12Z" })).toBe(
+        "../2018-03-18T12:31:12Z",
+      );
+    });
+
+    it("should reject invalid bbox and datetime parameters", () => {
+      expect(() =>
+        queryBuilder().toURLSearchParams({
+          bbox: [1, 2, 3] as unknown as BBox,
+        }),
+      ).toThrowError(InvalidQueryOptionError);
+      expect(() =>
+        queryBuilder().toURLSearchParams({ datetime: "2018-02-30" }),
+      ).toThrowError(InvalidTemporalValueError);
+    });
+
+    it("should build the items URL", () => {
+      const builder = queryBuilder<Place>()
+        .filter((op) => op.eq("city", "Toronto"))
+        .limit(10);
+
+      expect(
+        builder.toItemsUrl("https://data.example.org/", "buildings", {
+          bbox: [160.6, -55.95, -170, -25.89],
+          datetime: "2018-02-12T23:20:50Z",
+        }),
+      ).toBe(
+        "https://data.example.org/collections/buildings/items?filter-lang=cql2-text&filter=city%20%3D%20'Toronto'&bbox=160.6%2C-55.95%2C-170%2C-25.89&datetime=2018-02-12T23%3A20%3A50Z&limit=10",
+      );
+      expect(
+        builder.toItemsUrl("https://data.example.org", "swiss buildings"),
+      ).toMatch(
+        /^https:\/\/data\.example\.org\/collections\/swiss%20buildings\/items\?/,
+      );
+      expect(
+        queryBuilder().toItemsUrl("https://data.example.org", "buildings"),
+      ).toBe("https://data.example.org/collections/buildings/items");
+    });
+  });
+
   describe("clone method", () => {
     it("should create a new QueryBuilder with the same configuration", () => {
       const qb = new QueryBuilder();
@@ -71,6 +361,15 @@ describe("QueryBuilder", () => {
       expect(qb.toCQL()).toBe("status = 'ACTIVE'");
       expect(clone.toCQL()).toBe("status = 'PENDING'");
     });
+
+    it("should not share filters added incrementally", () => {
+      const qb = new QueryBuilder().filter(eq("status", "ACTIVE"));
+      const clone = qb.clone().andFilter(eq("type", "station"));
+      qb.orFilter(eq("status", "PENDING"));
+
+      expect(qb.toCQL()).toBe("(status = 'ACTIVE' OR status = 'PENDING')");
+      expect(clone.toCQL()).toBe("(status = 'ACTIVE' AND type = 'station')");
+    });
   });
 
   describe("toCQLUrlSafe method", () => {
@@ -94,6 +393,47 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("toCQLJSON method", () => {
+    it("should return undefined when no filter is set", () => {
+      expect(new QueryBuilder().toCQLJSON()).toBeUndefined();
+    });
+
+    it("should convert the filter to CQL2-JSON", () => {
+      const point: Geometry = { type: "Point", coordinates: [0, 0] };
+      const qb = new QueryBuilder().filter(
+        and(
+          eq("status", "ACTIVE"),
+          intersects("geometry", point),
+          during("eventDate", { start: "2023-01-01", end: "2023-12-31" }),
+        ),
+      );
+
+      expect(qb.toCQLJSON()).toEqual({
+        op: "and",
+        args: [
+          { op: "=", args: [{ property: "status" }, "ACTIVE"] },
+          { op: "s_intersects", args: [{ property: "geometry" }, point] },
+          {
+            op: "t_during",
+            args: [
+              { property: "eventDate" },
+              { interval: ["2023-01-01", "2023-12-31"] },
+            ],
+          },
+        ],
+      });
+    });
+
+    it("should produce JSON-serializable output", () => {
+      const qb = new QueryBuilder().filter((op) =>
+        op.or(op.isIn("code", ["A", "B"]), op.isNull("code")),
+      );
+      const json = qb.toCQLJSON();
+
+      expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+    });
+  });
+
   describe("toCQL method", () => {
     it("should convert comparison operators to CQL", () => {
       expect(new QueryBuilder().filter(eq("status", "ACTIVE")).toCQL()).toEqual(
@@ -366,6 +706,179 @@ describe("QueryBuilder", () => {
     });
   });
 
+  describe("arithmetic expressions", () => {
+    type Order = {
+      name: string;
+      price: number;
+      quantity: number;
+      discount?: number;
+    };
+
+    it("should expose typed expression builders in the filter callback", () => {
+      const cql = new QueryBuilder<Order>()
+        .filter((op) =>
+          op.and(
+            op.gt(op.mul("price", "quantity"), 1000),
+            op.lte("discount", op.div("price", 10)),
+          ),
+        )
+        .toCQL();
+
+      expect(cql).toBe("(price * quantity > 1000 AND discount <= price / 10)");
+    });
+  });
+
+  describe("property references", () => {
+    type Task = {
+      title: string;
+      createdAt: Date;
+      updatedAt: Date;
+      estimatedCost: number;
+      actualCost: number;
+    };
+
+    it("should expose typed property references in the filter callback", () => {
+      const cql = new QueryBuilder<Task>()
+        .filter((op) =>
+          op.and(
+            op.gt("actualCost", op.prop("estimatedCost")),
+            op.after("updatedAt", op.prop("createdAt")),
+          ),
+        )
+        .toCQL();
+
+      expect(cql).toBe(
+        "(actualCost > estimatedCost AND AFTER(updatedAt, createdAt))",
+      );
+    });
+  });
+
+  describe("case- and accent-insensitive comparisons", () => {
+    type Place = { name: string; population: number };
+
+    it("should accept the options on string paths", () => {
+      const cql = new QueryBuilder<Place>({ dialect: "cql2" })
+        .filter((op) =>
+          op.or(
+            op.contains("name", "zurich", { caseInsensitive: true }),
+            op.eq("name", "Zürich", { accentInsensitive: true }),
+          ),
+        )
+        .toCQL();
+
+      expect(cql).toBe(
+        "(CASEI(name) LIKE CASEI('%zurich%') OR ACCENTI(name) = ACCENTI('Zürich'))",
+      );
+    });
+  });
+
+  describe("array operators", () => {
+    type Item = { title: string; tags: string[]; categories: string[] };
+
+    it("should expose typed array operators in the filter callback", () => {
+      const cql = new QueryBuilder<Item>({ dialect: "cql2" })
+        .filter((op) =>
+          op.and(
+            op.acontains("tags", ["road", "bridge"]),
+            op.aoverlaps("tags", op.prop("categories")),
+          ),
+        )
+        .toCQL();
+
+      expect(cql).toBe(
+        "(A_CONTAINS(tags, ('road', 'bridge')) AND A_OVERLAPS(tags, categories))",
+      );
+    });
+  });
+
+  describe("bounding boxes", () => {
+    it("should expose bbox in the filter callback", () => {
+      type Place = { name: string; geom: Geometry };
+      const cql = new QueryBuilder<Place>({ dialect: "ecql" })
+        .filter((op) =>
+          op.and(op.eq("name", "Zurich"), op.bbox("geom", [8, 47, 9, 48])),
+        )
+        .toCQL();
+
+      expect(cql).toBe(
+        "(name = 'Zurich' AND INTERSECTS(geom, ENVELOPE(8, 9, 48, 47)))",
+      );
+    });
+  });
+
+  describe("function registry", () => {
+    type Place = { name: string; geom: Geometry };
+    const functions = defineFunctions({
+      strToLowerCase: { args: ["string"], returns: "string" },
+      distance: { args: ["geometry", "geometry"], returns: "number" },
+    });
+
+    it("should expose declared functions in the filter callback", () => {
+      const point: Geometry = { type: "Point", coordinates: [0, 0] };
+      const query = new QueryBuilder<Place, typeof functions>({
+        functions,
+      }).filter((op) =>
+        op.and(
+          op.eq(op.fn.strToLowerCase(op.prop("name")), "zurich"),
+          op.lt(op.fn.distance(op.prop("geom"), point), 1000),
+        ),
+      );
+
+      expect(query.toCQL()).toBe(
+        "(strToLowerCase(name) = 'zurich' AND distance(geom, POINT (0 0)) < 1000)",
+      );
+    });
+
+    it("should validate the arity of declared functions in toCQL", () => {
+      const query = queryBuilder({ functions }).filter(
+        eq(fn("strToLowerCase"), "x"),
+      );
+
+      expect(() => query.toCQL()).toThrowError(InvalidConditionError);
+      expect(() => query.clone().toCQL()).toThrowError(InvalidConditionError);
+    });
+  });
+
+  describe("dialect option", () => {
+    const point: Geometry = { type: "Point", coordinates: [0, 0] };
+    const condition = and(
+      eq("name", "O'Brien"),
+      intersects("geometry", point),
+      during("eventDate", {
+        start: "2023-01-01T00:00:00Z",
+        end: "2023-12-31T00:00:00Z",
+      }),
+    );
+
+    it("should default to the legacy output", () => {
+      expect(new QueryBuilder().filter(condition).toCQL()).toBe(
+        "(name = 'O''Brien' AND INTERSECTS(geometry, POINT (0 0)) AND DURING(eventDate, INTERVAL('2023-01-01T00:00:00Z', '2023-12-31T00:00:00Z')))",
+      );
+    });
+
+    it("should write CQL2", () => {
+      expect(
+        new QueryBuilder({ dialect: "cql2" }).filter(condition).toCQL(),
+      ).toBe(
+        "(name = 'O''Brien' AND S_INTERSECTS(geometry, POINT (0 0)) AND T_DURING(eventDate, INTERVAL('2023-01-01T00:00:00Z', '2023-12-31T00:00:00Z')))",
+      );
+    });
+
+    it("should write ECQL", () => {
+      expect(queryBuilder({ dialect: "ecql" }).filter(condition).toCQL()).toBe(
+        "(name = 'O''Brien' AND INTERSECTS(geometry, POINT (0 0)) AND eventDate DURING 2023-01-01T00:00:00Z/2023-12-31T00:00:00Z)",
+      );
+    });
+
+    it("should keep the dialect when cloning", () => {
+      const clone = queryBuilder({ dialect: "cql2" })
+        .filter(intersects("geometry", point))
+        .clone();
+
+      expect(clone.toCQL()).toBe("S_INTERSECTS(geometry, POINT (0 0))");
+    });
+  });
+
   describe("queryBuilder factory function", () => {
     it("should create a QueryBuilder instance without new keyword", () => {
       const qb = queryBuilder();
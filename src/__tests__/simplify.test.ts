@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../cql-context";
+import {
+  eq,
+  gt,
+  isIn,
+  isNull,
+  lt,
+  ne,
+} from "../operators/comparison-operators";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import { simplify, toDNF, toNNF } from "../simplify";
+
+describe("simplify", () => {
+  const ctx = createCQLContext();
+
+  it("should flatten nested and/or conditions", () => {
+    expect(
+      simplify(and(eq("a", 1), and(eq("b", 2), and(eq("c", 3))))).toCQL(ctx),
+    ).toBe("(a = 1 AND b = 2 AND c = 3)");
+    expect(
+      simplify(or(gt("a", 1), or(lt("b", 2), and(eq("c", 3))))).toCQL(ctx),
+    ).toBe("(a > 1 OR b < 2 OR c = 3)");
+  });
+
+  it("should remove duplicate operands", () => {
+    expect(simplify(and(eq("a", 1), gt("b", 2), eq("a", 1))).toCQL(ctx)).toBe(
+      "(a = 1 AND b > 2)",
+    );
+    expect(simplify(and(eq("a", 1), and(eq("a", 1)))).toCQL(ctx)).toBe("a = 1");
+  });
+
+  it("should collapse double negation", () => {
+    expect(simplify(not(not(eq("a", 1)))).toCQL(ctx)).toBe("a = 1");
+    expect(simplify(not(not(not(eq("a", 1))))).toCQL(ctx)).toBe("NOT (a = 1)");
+  });
+
+  it("should merge equalities on the same property into IN", () => {
+    expect(
+      simplify(
+        or(
+          eq("status", "A"),
+          gt("age", 18),
+          eq("status", "B"),
+          eq("status", "A"),
+        ),
+      ).toCQL(ctx),
+    ).toBe("(status IN ('A', 'B') OR age > 18)");
+    expect(
+      simplify(or(isIn("code", [1, 2]), eq("code", 3), eq("code", 2))).toCQL(
+        ctx,
+      ),
+    ).toBe("code IN (1, 2, 3)");
+    expect(
+      simplify(or(eq("owner", prop("creator")), eq("owner", "admin"))).toCQL(
+        ctx,
+      ),
+    ).toBe("owner IN (creator, 'admin')");
+  });
+
+  it("should leave equalities that cannot be merged", () => {
+    expect(simplify(or(eq("a", 1), isNull("a"), ne("a", 2))).toCQL(ctx)).toBe(
+      "(a = 1 OR a IS NULL OR a <> 2)",
+    );
+    expect(
+      simplify(
+        or(
+          eq("name", "x", { caseInsensitive: true }),
+          eq("name", "y", { caseInsensitive: true }),
+        ),
+      ).toCQL(createCQLContext({ dialect: "cql2" })),
+    ).toBe("(CASEI(name) = CASEI('x') OR CASEI(name) = CASEI('y'))");
+    expect(simplify(and(eq("a", 1), eq("a", 2))).toCQL(ctx)).toBe(
+      "(a = 1 AND a = 2)",
+    );
+  });
+
+  it("should return leaf conditions unchanged", () => {
+    const condition = eq("a", 1);
+    expect(simplify(condition)).toBe(condition);
+  });
+});
+
+describe("toNNF", () => {
+  const ctx = createCQLContext();
+
+  it("should push negations down to the predicates", () => {
+    expect(toNNF(not(and(eq("a", 1), not(eq("b", 2))))).toCQL(ctx)).toBe(
+      "(NOT (a = 1) OR b = 2)",
+    );
+    expect(
+      toNNF(not(or(eq("a", 1), and(eq("b", 2), eq("c", 3))))).toCQL(ctx),
+    ).toBe("(NOT (a = 1) AND (NOT (b = 2) OR NOT (c = 3)))");
+  });
+});
+
+describe("toDNF", () => {
+  const ctx = createCQLContext();
+
+  it("should distribute and over or", () => {
+    expect(toDNF(and(or(eq("a", 1), eq("a", 2)), eq("b", 3))).toCQL(ctx)).toBe(
+      "((a = 1 AND b = 3) OR (a = 2 AND b = 3))",
+    );
+    expect(
+      toDNF(and(or(eq("a", 1), eq("b", 2)), or(eq("c", 3), eq("d", 4)))).toCQL(
+        ctx,
+      ),
+    ).toBe(
+      "((a = 1 AND c = 3) OR (a = 1 AND d = 4) OR (b = 2 AND c = 3) OR (b = 2 AND d = 4))",
+    );
+  });
+
+  it("should normalize negations first", () => {
+    expect(toDNF(not(and(eq("a", 1), eq("b", 2)))).toCQL(ctx)).toBe(
+      "(NOT (a = 1) OR NOT (b = 2))",
+    );
+    expect(toDNF(eq("a", 1)).toCQL(ctx)).toBe("a = 1");
+  });
+});
@@ -0,0 +1,342 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidQueryOptionError,
+  UnknownFunctionError,
+  UnknownPropertyError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import { add, intDiv, mul } from "../operators/arithmetic-operators";
+import { acontains, aoverlaps } from "../operators/array-operators";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  ne,
+} from "../operators/comparison-operators";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  bbox,
+  intersects,
+  spatialEquals,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  during,
+  ends,
+  meets,
+  tcontains,
+  tequals,
+} from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+import { parseCQL } from "../parsers/cql-text-parser";
+import { type SQLOptions, toSQL } from "../sql";
+
+const columns = Object.fromEntries(
+  [
+    "status",
+    "height",
+    "kind",
+    "owner",
+    "type",
+    "depth",
+    "city",
+    "updated",
+    "created",
+    "name",
+    "price",
+    "fee",
+    "code",
+    "geom",
+    "other",
+    "tags",
+    "label",
+    "a",
+    "address.city",
+    'na"me',
+  ].map((name) => [name, name]),
+);
+
+const postgis: SQLOptions = { dialect: "postgis", columns };
+
+describe("toSQL", () => {
+  describe("comparisons", () => {
+    it("should pass values as placeholders", () => {
+      expect(
+        toSQL(
+          and(eq("status", "ACTIVE"), or(gt("height", 10), ne("kind", "x"))),
+          postgis,
+        ),
+      ).toEqual({
+        text: '("status" = $1 AND ("height" > $2 OR "kind" <> $3))',
+        values: ["ACTIVE", 10, "x"],
+      });
+    });
+
+    it("should write null checks, lists and ranges", () => {
+      expect(toSQL(isNull("owner"), postgis).text).toBe('"owner" IS NULL');
+      expect(toSQL(not(isNotNull("owner")), postgis).text).toBe(
+        'NOT ("owner" IS NOT NULL)',
+      );
+      expect(toSQL(isIn("type", ["CPT", "OTHER"]), postgis)).toEqual({
+        text: '"type" IN ($1, $2)',
+        values: ["CPT", "OTHER"],
+      });
+      expect(toSQL(isNotIn("type", ["CPT"]), postgis).text).toBe(
+        '"type" NOT IN ($1)',
+      );
+      expect(toSQL(between("depth", 100, 200), postgis)).toEqual({
+        text: '"depth" BETWEEN $1 AND $2',
+        values: [100, 200],
+      });
+    });
+
+    it("should lower both sides of case-insensitive comparisons", () => {
+      expect(
+        toSQL(eq("city", "Zurich", { caseInsensitive: true }), postgis).text,
+      ).toBe('lower("city") = lower($1)');
+      expect(() =>
+        toSQL(eq("city", "Zürich", { accentInsensitive: true }), postgis),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should write properties, functions and arithmetic", () => {
+      expect(toSQL(gt("updated", prop("created")), postgis).text).toBe(
+        '"updated" > "created"',
+      );
+      expect(
+        toSQL(eq(fn("strToLowerCase", prop("name")), "zurich"), {
+          ...postgis,
+          functions: { strToLowerCase: "lower" },
+        }),
+      ).toEqual({
+        text: '"lower"("name") = $1',
+        values: ["zurich"],
+      });
+      expect(
+        toSQL(gt(add(mul("price", 2), intDiv("fee", 3)), 100), postgis),
+      ).toEqual({
+        text: '(("price" * $1) + div("fee", $2)) > $3',
+        values: [2, 3, 100],
+      });
+    });
+
+    it("should only call functions from the function map", () => {
+      expect(() => toSQL(eq(fn("pg_sleep", 10), 1), postgis)).toThrowError(
+        new UnknownFunctionError("pg_sleep"),
+      );
+      expect(() =>
+        toSQL(eq(fn("pg_read_file", "/etc/passwd"), "x"), {
+          dialect: "postgis",
+          columns: {},
+          functions: { strToLowerCase: "lower" },
+        }),
+      ).toThrowError(UnknownFunctionError);
+      expect(() =>
+        toSQL(parseCQL("pg_sleep(10) = 1"), {
+          dialect: "postgis",
+          columns: { a: "a" },
+        }),
+      ).toThrowError(
+        "Unknown function 'pg_sleep': it is not mapped to a SQL function.",
+      );
+      expect(() =>
+        toSQL(eq(fn("toString"), 1), {
+          ...postgis,
+          functions: { strToLowerCase: "lower" },
+        }),
+      ).toThrowError(UnknownFunctionError);
+    });
+
+    it("should quote mapped function names", () => {
+      expect(
+        toSQL(gt(fn("area", prop("geom")), 10), {
+          ...postgis,
+          functions: { area: 'gis.st_"area' },
+        }).text,
+      ).toBe('"gis"."st_""area"("geom") > $1');
+    });
+  });
+
+  describe("identifiers", () => {
+    it("should quote identifiers", () => {
+      expect(toSQL(eq('na"me', "x"), postgis).text).toBe('"na""me" = $1');
+      expect(toSQL(eq("address.city", "Bern"), postgis).text).toBe(
+        '"address"."city" = $1',
+      );
+    });
+
+    it("should map properties to columns", () => {
+      const options: SQLOptions = {
+        dialect: "postgis",
+        columns: { "address.city": "city", created: "f.created_at" },
+      };
+      expect(
+        toSQL(and(eq("address.city", "Bern"), gt("created", "2023")), options)
+          .text,
+      ).toBe('("city" = $1 AND "f"."created_at" > $2)');
+      expect(() => toSQL(eq("name; DROP TABLE f", 1), options)).toThrowError(
+        new UnknownPropertyError("name; DROP TABLE f"),
+      );
+      expect(() => toSQL(eq("toString", 1), options)).toThrowError(
+        UnknownPropertyError,
+      );
+      expect(() => toSQL(gt("created", prop("updated")), options)).toThrowError(
+        "Unknown property 'updated': it is not mapped to a column.",
+      );
+    });
+  });
+
+  describe("text operators", () => {
+    it("should write LIKE with an escape character", () => {
+      expect(toSQL(like("name", "A\\_%"), postgis)).toEqual({
+        text: "\"name\" LIKE $1 ESCAPE '\\'",
+        values: ["A\\_%"],
+      });
+      expect(
+        toSQL(contains("name", "zurich", { caseInsensitive: true }), postgis),
+      ).toEqual({
+        text: "\"name\" ILIKE $1 ESCAPE '\\'",
+        values: ["%zurich%"],
+      });
+    });
+
+    it("should match the substring of contains literally", () => {
+      expect(toSQL(contains("code", "a_b%c\\d"), postgis)).toEqual({
+        text: "\"code\" LIKE $1 ESCAPE '\\'",
+        values: ["%a\\_b\\%c\\\\d%"],
+      });
+    });
+  });
+
+  describe("spatial operators", () => {
+    it("should read geometries from GeoJSON", () => {
+      const point = { type: "Point" as const, coordinates: [7.4, 46.9] };
+      expect(toSQL(intersects("geom", point), postgis)).toEqual({
+        text: 'ST_Intersects("geom", ST_GeomFromGeoJSON($1))',
+        values: ['{"type":"Point","coordinates":[7.4,46.9]}'],
+      });
+      expect(
+        toSQL(within("geom", point), { ...postgis, srid: 2056 }).text,
+      ).toBe('ST_Within("geom", ST_SetSRID(ST_GeomFromGeoJSON($1), 2056))');
+      expect(toSQL(spatialEquals("geom", prop("other")), postgis).text).toBe(
+        'ST_Equals("geom", "other")',
+      );
+    });
+
+    it("should build envelopes for bounding boxes", () => {
+      expect(toSQL(bbox("geom", [-75, 40, -73, 41]), postgis)).toEqual({
+        text: 'ST_Intersects("geom", ST_MakeEnvelope($1, $2, $3, $4, 4326))',
+        values: [-75, 40, -73, 41],
+      });
+      expect(toSQL(bbox("geom", [0, 0, 0, 1, 1, 1]), postgis).values).toEqual([
+        0, 0, 1, 1,
+      ]);
+      expect(toSQL(bbox("geom", [170, -10, -170, 10]), postgis)).toEqual({
+        text: 'ST_Intersects("geom", ST_Collect(ST_MakeEnvelope($1, $2, $3, $4, 4326), ST_MakeEnvelope($5, $6, $7, $8, 4326)))',
+        values: [170, -10, 180, 10, -180, -10, -170, 10],
+      });
+    });
+  });
+
+  describe("temporal operators", () => {
+    it("should compare instants", () => {
+      expect(toSQL(after("updated", "2023-01-01T00:00:00Z"), postgis)).toEqual({
+        text: '"updated" > $1',
+        values: ["2023-01-01T00:00:00Z"],
+      });
+      expect(toSQL(tequals("updated", prop("created")), postgis)).toEqual({
+        text: '"updated" = "created"',
+        values: [],
+      });
+    });
+
+    it("should compare with the bounds of intervals", () => {
+      expect(
+        toSQL(
+          anyinteracts("updated", { start: "2023-01-01", end: "2023-12-31" }),
+          postgis,
+        ),
+      ).toEqual({
+        text: '("updated" >= $1 AND "updated" <= $2)',
+        values: ["2023-01-01", "2023-12-31"],
+      });
+      expect(
+        toSQL(during("updated", { start: "2023-01-01", end: ".." }), postgis),
+      ).toEqual({
+        text: '"updated" > $1',
+        values: ["2023-01-01"],
+      });
+      expect(
+        toSQL(anyinteracts("updated", { start: null, end: ".." }), postgis),
+      ).toEqual({ text: '"updated" IS NOT NULL', values: [] });
+    });
+
+    it("should only pass the bounds a relation uses", () => {
+      const year = { start: "2023-01-01", end: "2023-12-31" };
+      expect(toSQL(before("updated", year), postgis)).toEqual({
+        text: '"updated" < $1',
+        values: ["2023-01-01"],
+      });
+      expect(toSQL(begins("updated", year), postgis)).toEqual({
+        text: '"updated" = $1',
+        values: ["2023-01-01"],
+      });
+      expect(
+        toSQL(ends("updated", { start: null, end: "2023-12-31" }), postgis),
+      ).toEqual({ text: '"updated" = $1', values: ["2023-12-31"] });
+      expect(
+        toSQL(and(meets("updated", year), eq("status", "ACTIVE")), postgis),
+      ).toEqual({
+        text: '("updated" = $1 AND "status" = $2)',
+        values: ["2023-01-01", "ACTIVE"],
+      });
+    });
+
+    it("should reject relations an instant cannot have", () => {
+      expect(() =>
+        toSQL(after("updated", { start: "2023-01-01", end: null }), postgis),
+      ).toThrowError(UnsupportedConditionTypeError);
+      expect(() =>
+        toSQL(
+          tcontains("updated", { start: "2023-01-01", end: "2023-12-31" }),
+          postgis,
+        ),
+      ).toThrowError(
+        "Unsupported condition type: tcontains (SQL instant column).",
+      );
+    });
+  });
+
+  it("should write array operators", () => {
+    expect(toSQL(acontains("tags", ["a", "b"]), postgis)).toEqual({
+      text: '"tags" @> $1',
+      values: [["a", "b"]],
+    });
+    expect(toSQL(aoverlaps("tags", ["a", prop("label")]), postgis)).toEqual({
+      text: '"tags" && ARRAY[$1, "label"]',
+      values: ["a"],
+    });
+  });
+
+  it("should reject unknown dialects, missing column maps and invalid SRIDs", () => {
+    expect(() =>
+      toSQL(eq("a", 1), { dialect: "mysql" } as unknown as SQLOptions),
+    ).toThrowError(InvalidQueryOptionError);
+    expect(() =>
+      toSQL(eq("a", 1), { dialect: "postgis" } as SQLOptions),
+    ).toThrowError(InvalidQueryOptionError);
+    expect(() => toSQL(eq("a", 1), { ...postgis, srid: 1.5 })).toThrowError(
+      InvalidQueryOptionError,
+    );
+  });
+});
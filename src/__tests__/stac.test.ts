@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../cql-context";
+import { InvalidQueryOptionError, InvalidTemporalValueError } from "../errors";
+import { eq } from "../operators/comparison-operators";
+import { and } from "../operators/logical-operators";
+import { queryBuilder } from "../query-builder";
+import {
+  acquiredDuring,
+  cloudCoverBetween,
+  maxCloudCover,
+  type StacItemProperties,
+} from "../stac";
+
+describe("STAC API", () => {
+  describe("property helpers", () => {
+    it("should filter on cloud cover", () => {
+      expect(maxCloudCover(10).toCQLJSON()).toEqual({
+        op: "<=",
+        args: [{ property: "eo:cloud_cover" }, 10],
+      });
+      expect(cloudCoverBetween(5, 20).toCQL(createCQLContext())).toBe(
+        "eo:cloud_cover BETWEEN 5 AND 20",
+      );
+    });
+
+    it("should reject cloud cover outside 0 to 100", () => {
+      expect(() => maxCloudCover(101)).toThrowError(InvalidQueryOptionError);
+      expect(() => cloudCoverBetween(-1, 20)).toThrowError(
+        "Invalid value for query option 'min': expected a percentage of eo:cloud_cover from 0 to 100 but got -1.",
+      );
+    });
+
+    it("should filter on the acquisition time", () => {
+      expect(
+        acquiredDuring({
+          start: "2023-06-01T00:00:00Z",
+          end: "2023-09-01T00:00:00Z",
+        }).toCQLJSON(),
+      ).toEqual({
+        op: "t_intersects",
+        args: [
+          { property: "datetime" },
+          { interval: ["2023-06-01T00:00:00Z", "2023-09-01T00:00:00Z"] },
+        ],
+      });
+      expect(() => acquiredDuring("2023-13-01")).toThrowError(
+        InvalidTemporalValueError,
+      );
+    });
+  });
+
+  describe("toStacSearchBody", () => {
+    it("should build a search with the Filter extension", () => {
+      const body = queryBuilder<StacItemProperties>()
+        .filter(
+          and(
+            maxCloudCover(10),
+            acquiredDuring({ start: "2021-04-08T04:39:23Z", end: null }),
+          ),
+        )
+        .limit(10)
+        .toStacSearchBody({ collections: ["sentinel-2-l2a"] });
+
+      expect(body).toEqual({
+        collections: ["sentinel-2-l2a"],
+        limit: 10,
+        "filter-lang": "cql2-json",
+        filter: {
+          op: "and",
+          args: [
+            { op: "<=", args: [{ property: "eo:cloud_cover" }, 10] },
+            {
+              op: "t_intersects",
+              args: [
+                { property: "datetime" },
+                { interval: ["2021-04-08T04:39:23Z", ".."] },
+              ],
+            },
+          ],
+        },
+      });
+    });
+
+    it("should add the core, Sort and Fields parameters", () => {
+      const body = queryBuilder<StacItemProperties>()
+        .filter((op) => op.eq("platform", "sentinel-2b"))
+        .select("eo:cloud_cover", "datetime")
+        .sortBy("eo:cloud_cover")
+        .sortBy("datetime", "desc")
+        .limit(50)
+        .toStacSearchBody({
+          collections: ["sentinel-2-l2a", "landsat-c2-l2"],
+          bbox: [-110, 39.5, -105, 40.5],
+          datetime: {
+            start: "2018-02-12T00:00:00Z",
+            end: "2018-03-18T12:31:12Z",
+          },
+        });
+
+      expect(body).toEqual({
+        collections: ["sentinel-2-l2a", "landsat-c2-l2"],
+        bbox: [-110, 39.5, -105, 40.5],
+        datetime: "2018-02-12T00:00:00Z/2018-03-18T12:31:12Z",
+        limit: 50,
+        sortby: [
+          { field: "eo:cloud_cover", direction: "asc" },
+          { field: "datetime", direction: "desc" },
+        ],
+        fields: { include: ["eo:cloud_cover", "datetime"] },
+        "filter-lang": "cql2-json",
+        filter: { op: "=", args: [{ property: "platform" }, "sentinel-2b"] },
+      });
+    });
+
+    it("should search by ids and geometry", () => {
+      const intersects = {
+        type: "Polygon" as const,
+        coordinates: [
+          [
+            [-122.308150179, 37.488035566],
+            [-122.597502109, 37.538869539],
+            [-122.576687533, 37.613537207],
+            [-122.2880486, 37.562818007],
+            [-122.308150179, 37.488035566],
+          ],
+        ],
+      };
+
+      expect(
+        queryBuilder().toStacSearchBody({
+          ids: ["S2B_MSIL2A_20210408T185919"],
+          intersects,
+          datetime: new Date(Date.UTC(2021, 3, 8)),
+        }),
+      ).toEqual({
+        ids: ["S2B_MSIL2A_20210408T185919"],
+        intersects,
+        datetime: "2021-04-08T00:00:00.000Z",
+      });
+      expect(queryBuilder().toStacSearchBody()).toEqual({});
+    });
+
+    it("should reject parameters STAC API search does not accept", () => {
+      expect(() => queryBuilder().offset(10).toStacSearchBody()).toThrowError(
+        InvalidQueryOptionError,
+      );
+      expect(() =>
+        queryBuilder().toStacSearchBody({
+          bbox: [0, 0, 1, 1],
+          intersects: { type: "Point", coordinates: [0, 0] },
+        }),
+      ).toThrowError(InvalidQueryOptionError);
+      expect(() =>
+        queryBuilder()
+          .filter(eq("platform", "sentinel-2b"))
+          .toStacSearchBody({ datetime: "2021-02-29T00:00:00Z" }),
+      ).toThrowError(InvalidTemporalValueError);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import type { Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { conditionEquals } from "../canonical";
+import { createCQLContext } from "../cql-context";
+import { InvalidConditionError } from "../errors";
+import { add } from "../operators/arithmetic-operators";
+import { acontains } from "../operators/array-operators";
+import type { Condition } from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNull,
+  lt,
+} from "../operators/comparison-operators";
+import { isGeometry } from "../operators/condition-guards";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  bbox,
+  intersects,
+  spatialContains,
+  spatialEquals,
+} from "../operators/spatial-operators";
+import { after, during } from "../operators/temporal-operators";
+import { contains, like } from "../operators/text-operators";
+import { transformCondition, visitCondition } from "../visitor";
+
+const point: Geometry = { type: "Point", coordinates: [7.4, 46.9] };
+
+const ctx = createCQLContext({ dialect: "cql2" });
+
+describe("visitCondition", () => {
+  it("should call the callback for each operator family", () => {
+    const visited: string[] = [];
+    visitCondition(
+      and(
+        eq("status", "ACTIVE"),
+        or(like("name", "Z%"), not(intersects("geom", point))),
+        after("updated", "2023-01-01"),
+        acontains("tags", ["a"]),
+      ),
+      {
+        logical: (c) => {
+          visited.push(c.type);
+        },
+        comparison: (c) => visited.push(`comparison ${c.type}`),
+        text: (c) => visited.push(`text ${c.type}`),
+        spatial: (c) => visited.push(`spatial ${c.type}`),
+        temporal: (c) => visited.push(`temporal ${c.type}`),
+        array: (c) => visited.push(`array ${c.type}`),
+      },
+    );
+    expect(visited).toEqual([
+      "and",
+      "comparison eq",
+      "or",
+      "text like",
+      "not",
+      "spatial intersects",
+      "temporal after",
+      "array acontains",
+    ]);
+  });
+
+  it("should tell spatial and text conditions from comparisons of the same type", () => {
+    const visited: string[] = [];
+    visitCondition(
+      and(spatialEquals("geom", point), spatialContains("geom", point)),
+      {
+        comparison: () => visited.push("comparison"),
+        text: () => visited.push("text"),
+        spatial: (c) => visited.push(c.type),
+      },
+    );
+    expect(visited).toEqual(["eq", "contains"]);
+  });
+
+  it("should visit every property, including those in expressions", () => {
+    const properties: string[] = [];
+    visitCondition(
+      and(
+        gt(add("price", "shipping"), prop("budget")),
+        eq(fn("strToLowerCase", prop("city")), "zurich"),
+        during("updated", prop("season")),
+        isIn("type", [prop("fallback"), "CPT"]),
+      ),
+      { property: (name) => properties.push(name) },
+    );
+    expect(properties).toEqual([
+      "price",
+      "shipping",
+      "budget",
+      "city",
+      "updated",
+      "season",
+      "type",
+      "fallback",
+    ]);
+  });
+
+  it("should collect geometries", () => {
+    const geometries: Geometry[] = [];
+    visitCondition(or(intersects("geom", point), bbox("geom", [0, 0, 1, 1])), {
+      spatial: (c) => {
+        if (isGeometry(c.geometry)) geometries.push(c.geometry);
+      },
+    });
+    expect(geometries).toEqual([point]);
+  });
+
+  it("should skip the operands of a logical condition returning false", () => {
+    const visited: string[] = [];
+    visitCondition(and(eq("a", 1), not(eq("b", 2))), {
+      logical: (c) => (c.type === "not" ? false : undefined),
+      comparison: (c) => visited.push(c.attr as string),
+    });
+    expect(visited).toEqual(["a"]);
+  });
+});
+
+describe("transformCondition", () => {
+  it("should rename properties everywhere", () => {
+    const condition = and(
+      eq("status", "ACTIVE"),
+      gt(add("price", 1), prop("budget")),
+      intersects("geom", point),
+      not(like("name", "Z%")),
+      between("depth", 1, 2),
+      acontains("tags", prop("required")),
+    );
+    const renamed = transformCondition(condition, {
+      property: (name) => `properties.${name}`,
+    });
+    expect(renamed.toCQL(ctx)).toBe(
+      "(properties.status = 'ACTIVE' AND properties.price + 1 > properties.budget AND S_INTERSECTS(properties.geom, POINT (7.4 46.9)) AND NOT (properties.name LIKE 'Z%') AND properties.depth BETWEEN 1 AND 2 AND A_CONTAINS(properties.tags, properties.required))",
+    );
+    expect(renamed.toCQLJSON().args[0]).toEqual({
+      op: "=",
+      args: [{ property: "properties.status" }, "ACTIVE"],
+    });
+    expect(condition.toCQL(ctx)).toContain("status = 'ACTIVE'");
+  });
+
+  it("should keep null checks when renaming", () => {
+    expect(
+      transformCondition(isNull("deletedAt"), {
+        property: (name) => name.toUpperCase(),
+      }).toCQL(ctx),
+    ).toBe("DELETEDAT IS NULL");
+  });
+
+  it("should rebuild spread copies so that they serialize their new fields", () => {
+    const transformed = transformCondition(
+      and(like("name", "Z%"), contains("city", "rich"), lt("age", 5)),
+      {
+        text: (c) => ({ ...c, options: { caseInsensitive: true } }),
+        comparison: (c) => ({ ...c, attr: "years" }),
+      },
+    );
+    expect(transformed.toCQL(ctx)).toBe(
+      "(CASEI(name) LIKE CASEI('Z%') AND CASEI(city) LIKE CASEI('%rich%') AND years < 5)",
+    );
+    expect(transformed.toCQLJSON().args[2]).toEqual({
+      op: "<",
+      args: [{ property: "years" }, 5],
+    });
+  });
+
+  it("should replace conditions with the callback's result", () => {
+    const transformed = transformCondition(
+      and(eq("status", "ACTIVE"), bbox("geom", [0, 0, 1, 1])),
+      {
+        spatial: (c) => or(isNull(c.attr), c),
+        logical: (c) => (c.type === "and" ? not(c) : undefined),
+      },
+    );
+    expect(transformed.toCQL(ctx)).toBe(
+      "NOT ((status = 'ACTIVE' AND (geom IS NULL OR S_INTERSECTS(geom, BBOX(0, 0, 1, 1)))))",
+    );
+  });
+
+  it("should pass renamed conditions to the callbacks", () => {
+    const attrs: string[] = [];
+    transformCondition(eq("status", "ACTIVE"), {
+      property: (name) => `p.${name}`,
+      comparison: (c) => {
+        attrs.push(c.attr as string);
+        return undefined;
+      },
+    });
+    expect(attrs).toEqual(["p.status"]);
+  });
+
+  it("should return an equal condition without callbacks", () => {
+    const condition: Condition = and(
+      eq("status", "ACTIVE", { caseInsensitive: true }),
+      spatialEquals("geom", point),
+      during("updated", { start: "2023-01-01", end: ".." }),
+    );
+    expect(conditionEquals(transformCondition(condition, {}), condition)).toBe(
+      true,
+    );
+  });
+
+  it("should reject invalid replacements", () => {
+    expect(() =>
+      transformCondition(eq("status", "ACTIVE"), {
+        comparison: (c) => ({ ...c, attr: "" }),
+      }),
+    ).toThrowError(InvalidConditionError);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { InvalidQueryOptionError } from "../errors";
+import { and } from "../operators/logical-operators";
+import { queryBuilder } from "../query-builder";
+import { toWFSGetFeatureParams, type WFSVersion } from "../wfs";
+
+type State = {
+  STATE_NAME: string;
+  PERSONS: number;
+  LAND_KM: number;
+  updated: string;
+};
+
+describe("WFS GetFeature requests", () => {
+  const states = () =>
+    queryBuilder<State>()
+      .filter((op) => op.gt("PERSONS", 15000000))
+      .select("STATE_NAME", "PERSONS")
+      .sortBy("PERSONS", "desc")
+      .sortBy("STATE_NAME")
+      .limit(10)
+      .offset(20);
+
+  it("should name the parameters as WFS 2.0.0 does", () => {
+    expect(
+      states().toWFSGetFeatureParams({
+        typeName: "topp:states",
+        srsName: "EPSG:4326",
+        outputFormat: "application/json",
+      }),
+    ).toEqual({
+      service: "WFS",
+      version: "2.0.0",
+      request: "GetFeature",
+      typeNames: "topp:states",
+      srsName: "EPSG:4326",
+      outputFormat: "application/json",
+      count: "10",
+      startIndex: "20",
+      propertyName: "STATE_NAME,PERSONS",
+      sortBy: "PERSONS DESC,STATE_NAME ASC",
+      CQL_FILTER: "PERSONS > 15000000",
+    });
+  });
+
+  it("should name the parameters as WFS 1.1.0 does", () => {
+    expect(
+      states().toWFSGetFeatureParams({
+        typeName: "topp:states",
+        version: "1.1.0",
+      }),
+    ).toEqual({
+      service: "WFS",
+      version: "1.1.0",
+      request: "GetFeature",
+      typeName: "topp:states",
+      maxFeatures: "10",
+      startIndex: "20",
+      propertyName: "STATE_NAME,PERSONS",
+      sortBy: "PERSONS D,STATE_NAME A",
+      CQL_FILTER: "PERSONS > 15000000",
+    });
+  });
+
+  it("should name the parameters as WFS 1.0.0 does", () => {
+    const params = queryBuilder<State>()
+      .filter((op) => op.eq("STATE_NAME", "Texas"))
+      .limit(5)
+      .toWFSGetFeatureParams({
+        typeName: ["topp:states", "topp:cities"],
+        version: "1.0.0",
+      });
+
+    expect(params).toEqual({
+      service: "WFS",
+      version: "1.0.0",
+      request: "GetFeature",
+      typeName: "topp:states,topp:cities",
+      maxFeatures: "5",
+      CQL_FILTER: "STATE_NAME = 'Texas'",
+    });
+  });
+
+  it("should reject sorting in WFS 1.0.0", () => {
+    expect(() =>
+      states().toWFSGetFeatureParams({
+        typeName: "topp:states",
+        version: "1.0.0",
+      }),
+    ).toThrowError(InvalidQueryOptionError);
+  });
+
+  it("should write the filter as ECQL whatever the builder's dialect", () => {
+    const params = queryBuilder<State>({ dialect: "cql2" })
+      .filter((op) =>
+        and(
+          op.gt("LAND_KM", 100000),
+          op.after("updated", "2023-01-01T00:00:00Z"),
+        ),
+      )
+      .toWFSGetFeatureParams({ typeName: "topp:states" });
+
+    expect(params.CQL_FILTER).toBe(
+      "(LAND_KM > 100000 AND updated AFTER 2023-01-01T00:00:00Z)",
+    );
+  });
+
+  it("should build the GetFeature URL", () => {
+    const builder = queryBuilder<State>().filter((op) =>
+      op.eq("STATE_NAME", "Texas"),
+    );
+
+    expect(
+      builder.toWFSGetFeatureUrl("https://example.org/geoserver/wfs", {
+        typeName: "topp:states",
+      }),
+    ).toBe(
+      "https://example.org/geoserver/wfs?service=WFS&version=2.0.0&request=GetFeature&typeNames=topp%3Astates&CQL_FILTER=STATE_NAME%20%3D%20'Texas'",
+    );
+    expect(
+      builder.toWFSGetFeatureUrl("https://example.org/geoserver/ows?map=us", {
+        typeName: "topp:states",
+        version: "1.1.0",
+      }),
+    ).toBe(
+      "https://example.org/geoserver/ows?map=us&service=WFS&version=1.1.0&request=GetFeature&typeName=topp%3Astates&CQL_FILTER=STATE_NAME%20%3D%20'Texas'",
+    );
+  });
+
+  it("should build the parameters of a query without a builder", () => {
+    expect(
+      toWFSGetFeatureParams(
+        { cqlFilter: "PERSONS > 15000000", properties: [], limit: 10 },
+        { typeName: ["topp:states", "topp:cities"], version: "1.1.0" },
+      ),
+    ).toEqual({
+      service: "WFS",
+      version: "1.1.0",
+      request: "GetFeature",
+      typeName: "topp:states,topp:cities",
+      maxFeatures: "10",
+      CQL_FILTER: "PERSONS > 15000000",
+    });
+    expect(() =>
+      toWFSGetFeatureParams(
+        {},
+        {
+          typeName: "topp:states",
+          version: "3.0.0" as WFSVersion,
+        },
+      ),
+    ).toThrowError(InvalidQueryOptionError);
+  });
+});
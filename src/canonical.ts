@@ -0,0 +1,126 @@
+import { stringifyJSON } from "./cql-json";
+import type { Condition } from "./operators/base-types";
+import { isIn, isNotIn } from "./operators/comparison-operators";
+import {
+  isComparisonCondition,
+  isLogicalCondition,
+} from "./operators/condition-guards";
+import { and, not, or } from "./operators/logical-operators";
+import { formatJSONOperand } from "./operators/operands";
+
+/**
+ * Returns a string that is equal for structurally equal conditions.
+ * Conditions are compared through their CQL2-JSON encoding, which covers every operator
+ * family as well as geometries, dates and expressions.
+ */
+export function conditionKey(condition: Condition): string {
+  return stringifyJSON(condition.toCQLJSON());
+}
+
+/**
+ * Sorts values by a string key, computing each key once.
+ */
+function sortByKey<V>(values: V[], key: (value: V) => string): V[] {
+  return values
+    .map((value) => ({ value, key: key(value) }))
+    .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+    .map(({ value }) => value);
+}
+
+/**
+ * Checks whether two conditions have the same structure: the same operators, properties
+ * and values in the same order. GeoJSON geometries are compared by content, and `Date`
+ * values by instant.
+ * Use {@link canonicalize} first to ignore the order of `and`/`or` operands and `IN` lists.
+ *
+ * @example
+ * ```typescript
+ * conditionEquals(eq("status", "ACTIVE"), eq("status", "ACTIVE")); // true
+ * conditionEquals(and(a, b), and(b, a)); // false
+ * conditionEquals(canonicalize(and(a, b)), canonicalize(and(b, a))); // true
+ * ```
+ *
+ * @param a The first condition
+ * @param b The second condition
+ * @returns True if both conditions are structurally equal
+ */
+export function conditionEquals(a: Condition, b: Condition): boolean {
+  return a === b || conditionKey(a) === conditionKey(b);
+}
+
+/**
+ * Rewrites a condition into a canonical form, in which the operands of commutative
+ * operators are in a deterministic order: `and`/`or` operands are sorted, as are the
+ * values of `isIn` and `isNotIn`. Conditions that only differ in that order have the
+ * same canonical form.
+ *
+ * @example
+ * ```typescript
+ * canonicalize(and(eq("b", 2), eq("a", 1))).toCQL(ctx); // (a = 1 AND b = 2)
+ * ```
+ *
+ * @param condition The condition to canonicalize
+ * @returns An equivalent condition in canonical form
+ */
+export function canonicalize(condition: Condition): Condition {
+  if (isLogicalCondition(condition)) {
+    if (condition.type === "not" && condition.condition) {
+      return not(canonicalize(condition.condition));
+    }
+    const conditions = sortByKey(
+      (condition.conditions ?? []).map(canonicalize),
+      conditionKey,
+    );
+    return condition.type === "and" ? and(...conditions) : or(...conditions);
+  }
+  if (
+    isComparisonCondition(condition) &&
+    (condition.type === "in" || condition.type === "notIn") &&
+    typeof condition.attr === "string"
+  ) {
+    const values = sortByKey(condition.value as unknown[], (value) =>
+      stringifyJSON(formatJSONOperand(value)),
+    );
+    return condition.type === "in"
+      ? isIn(condition.attr, values)
+      : isNotIn(condition.attr, values);
+  }
+  return condition;
+}
+
+/**
+ * The 53-bit cyrb53 string hash.
+ */
+function cyrb53(value: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Computes a stable hash of a condition, suitable as a cache key. The hash is computed
+ * from the canonical form, so conditions that only differ in the order of `and`/`or`
+ * operands or `IN` values hash the same. It is stable across runs and platforms.
+ *
+ * @example
+ * ```typescript
+ * hashCondition(and(eq("a", 1), eq("b", 2))) === hashCondition(and(eq("b", 2), eq("a", 1))); // true
+ * ```
+ *
+ * @param condition The condition to hash
+ * @returns A 14-character hexadecimal hash
+ */
+export function hashCondition(condition: Condition): string {
+  return cyrb53(conditionKey(canonicalize(condition)))
+    .toString(16)
+    .padStart(14, "0");
+}
@@ -1,16 +1,79 @@
 import type { Geometry } from "geojson";
+import GeometryFactory from "jsts/org/locationtech/jts/geom/GeometryFactory";
 import GeoJSONReader from "jsts/org/locationtech/jts/io/GeoJSONReader.js";
 import WKTWriter from "jsts/org/locationtech/jts/io/WKTWriter.js";
-import { SpatialOperationError } from "./errors";
-import type { CQLContext } from "./operators/base-types";
-import type { TemporalValue } from "./operators/temporal-operators";
-import GeometryFactory from "jsts/org/locationtech/jts/geom/GeometryFactory";
+import { SpatialOperationError, UnsupportedConditionTypeError } from "./errors";
+import type {
+  BBox,
+  CQLContext,
+  CQLDialect,
+  FunctionRegistry,
+  PropertyReference,
+} from "./operators/base-types";
+import { isBBox, isExpression } from "./operators/condition-guards";
+import type {
+  IntervalBound,
+  TemporalInstant,
+  TemporalValue,
+} from "./operators/temporal-operators";
+import {
+  CalendarDate,
+  isDateString,
+  isOpenBound,
+} from "./operators/temporal-values";
 
 // Create instances of JSTS readers and writers
 const geometryFactory = new GeometryFactory();
 const geoJsonReader = new GeoJSONReader(geometryFactory);
 const wktWriter = new WKTWriter(geometryFactory);
 
+/**
+ * Options for creating a CQL context.
+ */
+export interface CQLContextOptions {
+  /**
+   * The CQL flavour to write. Defaults to `"legacy"`, the backward-compatible output of earlier versions.
+   * Use `"cql2"` for OGC API servers such as pygeoapi and `"ecql"` for GeoServer.
+   */
+  dialect?: CQLDialect;
+  /**
+   * Signatures of the filter functions exposed by the server.
+   * Calls to declared functions are checked for the right number of arguments.
+   */
+  functions?: FunctionRegistry;
+}
+
+/**
+ * Temporal operators supported by GeoServer's ECQL, which writes them as infix predicates.
+ */
+const ECQL_TEMPORAL_OPERATORS = new Set([
+  "AFTER",
+  "BEFORE",
+  "DURING",
+  "TEQUALS",
+]);
+
+/**
+ * Converts an instant to an ISO 8601 string.
+ */
+function formatInstant(value: TemporalInstant): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Formats an interval bound as a quoted string, writing open bounds as `'..'`.
+ */
+function formatIntervalBound(value: IntervalBound): string {
+  return isOpenBound(value) ? "'..'" : `'${formatInstant(value)}'`;
+}
+
+/**
+ * Formats a string literal, escaping embedded quotes by doubling them.
+ */
+function formatString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
 /**
  * Formats a value for use in CQL expressions.
  * Handles null, strings, booleans, dates, and other primitives.
@@ -23,17 +86,37 @@ function formatValue(value: unknown): string {
     return "NULL";
   }
   if (typeof value === "string") {
-    return `'${value.replace(/'/g, "\\'")}'`;
+    return formatString(value);
   }
   if (typeof value === "boolean") {
     return value ? "TRUE" : "FALSE";
   }
+  if (value instanceof CalendarDate) {
+    return `DATE('${value.isoDate}')`;
+  }
   if (value instanceof Date) {
     return `TIMESTAMP('${value.toISOString()}')`;
   }
   return String(value);
 }
 
+/**
+ * Formats a value for use in ECQL expressions.
+ * ECQL has no TIMESTAMP function, so dates are written as ISO 8601 strings.
+ *
+ * @param value The value to format
+ * @returns The formatted value as an ECQL string
+ */
+function formatECQLValue(value: unknown): string {
+  if (value instanceof CalendarDate) {
+    return formatString(value.isoDate);
+  }
+  if (value instanceof Date) {
+    return formatString(value.toISOString());
+  }
+  return formatValue(value);
+}
+
 /**
  * Formats a temporal value for use in CQL temporal operators.
  * Handles Date objects, ISO 8601 strings, and temporal intervals.
@@ -42,11 +125,11 @@ function formatValue(value: unknown): string {
  * @returns The formatted temporal value as a CQL string
  */
 function formatTemporalValue(value: TemporalValue): string {
-  if (value instanceof Date) {
-    return `TIMESTAMP('${value.toISOString()}')`;
+  if (isDateString(value)) {
+    return `DATE('${value}')`;
   }
-  if (typeof value === "string") {
-    return `TIMESTAMP('${value}')`;
+  if (value instanceof Date || typeof value === "string") {
+    return `TIMESTAMP('${formatInstant(value)}')`;
   }
   // Handle interval objects
   if (
@@ -55,53 +138,177 @@ function formatTemporalValue(value: TemporalValue): string {
     "start" in value &&
     "end" in value
   ) {
-    const start =
-      value.start instanceof Date
-        ? value.start.toISOString()
-        : String(value.start);
-    const end =
-      value.end instanceof Date ? value.end.toISOString() : String(value.end);
-    return `INTERVAL('${start}', '${end}')`;
+    return `INTERVAL(${formatIntervalBound(value.start)}, ${formatIntervalBound(value.end)})`;
   }
   return String(value);
 }
 
+/**
+ * Formats a temporal value as an ECQL literal.
+ * Instants are written as bare ISO 8601 strings and intervals as `start/end` periods.
+ * ECQL periods cannot be open-ended, so open bounds are rejected.
+ *
+ * @param value The temporal value to format
+ * @returns The formatted temporal value as an ECQL string
+ * @throws UnsupportedConditionTypeError if the interval has an open bound
+ */
+function formatECQLTemporalValue(value: TemporalValue): string {
+  if (value instanceof Date || typeof value === "string") {
+    return formatInstant(value);
+  }
+  const { start, end } = value;
+  if (isOpenBound(start) || isOpenBound(end)) {
+    throw new UnsupportedConditionTypeError("open interval (ecql)", { value });
+  }
+  return `${formatInstant(start)}/${formatInstant(end)}`;
+}
+
+/**
+ * Formats the operand of a temporal operator, which is a temporal value or a property reference.
+ */
+function formatTemporalOperand(
+  value: TemporalValue | PropertyReference,
+): string {
+  return isExpression(value) ? value.name : formatTemporalValue(value);
+}
+
+/**
+ * Converts a GeoJSON geometry to Well-Known Text (WKT).
+ *
+ * @param operator The operation the geometry is used in, reported in errors
+ * @param geometry The GeoJSON geometry to convert
+ * @returns The WKT representation of the geometry
+ * @throws SpatialOperationError if the geometry cannot be read
+ */
+function formatGeometry(operator: string, geometry: Geometry): string {
+  try {
+    return wktWriter.write(geoJsonReader.read(geometry));
+  } catch (error) {
+    throw new SpatialOperationError(
+      operator,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Formats a bounding box as a legacy / ECQL `ENVELOPE`, which lists the west, east, north and south bounds.
+ * Envelopes have no third dimension, so 3D bounding boxes are rejected.
+ *
+ * @throws UnsupportedConditionTypeError if the bounding box is 3D
+ */
+function formatEnvelope(
+  operator: string,
+  dialect: CQLDialect,
+  bbox: BBox,
+): string {
+  if (bbox.length === 6) {
+    throw new UnsupportedConditionTypeError(
+      `${operator} (3D bbox, ${dialect})`,
+      {
+        geometry: bbox,
+      },
+    );
+  }
+  const [minx, miny, maxx, maxy] = bbox;
+  return `ENVELOPE(${minx}, ${maxx}, ${maxy}, ${miny})`;
+}
+
 /**
  * Formats a spatial query by converting GeoJSON to Well-Known Text (WKT) format.
+ * Bounding boxes are written as `BBOX` literals in CQL2 and as `ENVELOPE` literals otherwise.
  *
+ * @param dialect The CQL dialect being written
  * @param operator The spatial operator (e.g., "INTERSECTS", "WITHIN")
  * @param attribute The attribute/field name to apply the operator to
- * @param geometry The GeoJSON geometry to be converted to WKT
+ * @param geometry The GeoJSON geometry or bounding box, or a reference to another geometry property
  * @returns The formatted spatial query string
  * @throws SpatialOperationError if there's an issue with the spatial operation
  */
 function formatSpatialQuery(
+  dialect: CQLDialect,
   operator: string,
   attribute: string,
-  geometry: Geometry,
+  geometry: Geometry | BBox | PropertyReference,
 ): string {
-  try {
-    const geo = geoJsonReader.read(geometry);
-    const wkt = wktWriter.write(geo);
-    return `${operator}(${attribute}, ${wkt})`;
-  } catch (error) {
-    throw new SpatialOperationError(
-      operator,
-      error instanceof Error ? error.message : String(error),
-    );
+  let operand: string;
+  if (isExpression(geometry)) {
+    operand = geometry.name;
+  } else if (isBBox(geometry)) {
+    operand =
+      dialect === "cql2"
+        ? `BBOX(${geometry.join(", ")})`
+        : formatEnvelope(operator, dialect, geometry);
+  } else {
+    operand = formatGeometry(operator, geometry);
   }
+  return `${operator}(${attribute}, ${operand})`;
 }
 
 /**
  * Creates a CQL context object with formatting utilities.
  * This context is passed to condition toCQL methods for serialization.
  *
+ * @example
+ * ```typescript
+ * during("eventDate", { start: "2023-01-01T00:00:00Z", end: "2023-12-31T00:00:00Z" })
+ *   .toCQL(createCQLContext({ dialect: "ecql" }));
+ * // eventDate DURING 2023-01-01T00:00:00Z/2023-12-31T00:00:00Z
+ * ```
+ *
+ * @param options Options selecting the CQL dialect to write and the declared functions
  * @returns A CQLContext object with formatting functions
  */
-export function createCQLContext(): CQLContext {
-  return {
-    formatValue,
-    formatTemporalValue,
-    formatSpatialQuery,
-  };
+export function createCQLContext(options: CQLContextOptions = {}): CQLContext {
+  const { dialect = "legacy", functions = {} } = options;
+
+  switch (dialect) {
+    case "cql2":
+      return {
+        dialect,
+        functions,
+        formatValue,
+        formatTemporalValue,
+        formatGeometry,
+        formatSpatialQuery: (operator, attr, geometry) =>
+          formatSpatialQuery(dialect, `S_${operator}`, attr, geometry),
+        formatTemporalQuery: (_operator, cql2Operator, attr, value) =>
+          `${cql2Operator}(${attr}, ${formatTemporalOperand(value)})`,
+      };
+    case "ecql":
+      return {
+        dialect,
+        functions,
+        formatValue: formatECQLValue,
+        formatTemporalValue: formatECQLTemporalValue,
+        formatGeometry,
+        formatSpatialQuery: (operator, attr, geometry) =>
+          formatSpatialQuery(dialect, operator, attr, geometry),
+        formatTemporalQuery: (operator, _cql2Operator, attr, value) => {
+          // ECQL temporal predicates only take literals on the right-hand side
+          if (!ECQL_TEMPORAL_OPERATORS.has(operator) || isExpression(value)) {
+            throw new UnsupportedConditionTypeError(
+              `${operator} (${dialect})`,
+              {
+                attr,
+                value,
+              },
+            );
+          }
+          return `${attr} ${operator} ${formatECQLTemporalValue(value)}`;
+        },
+      };
+    default:
+      return {
+        dialect,
+        functions,
+        formatValue,
+        formatTemporalValue,
+        formatGeometry,
+        formatSpatialQuery: (operator, attr, geometry) =>
+          formatSpatialQuery(dialect, operator, attr, geometry),
+        formatTemporalQuery: (operator, _cql2Operator, attr, value) =>
+          `${operator}(${attr}, ${formatTemporalOperand(value)})`,
+      };
+  }
 }
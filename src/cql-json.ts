@@ -0,0 +1,132 @@
+import type {
+  CQLJSONArgument,
+  CQLJSONExpression,
+  CQLJSONProperty,
+  CQLJSONTemporal,
+  PropertyReference,
+} from "./operators/base-types";
+import { isExpression } from "./operators/condition-guards";
+import type {
+  IntervalBound,
+  TemporalValue,
+} from "./operators/temporal-operators";
+import {
+  CalendarDate,
+  isDateString,
+  isOpenBound,
+} from "./operators/temporal-values";
+
+/**
+ * Formats an attribute name as a CQL2-JSON property reference.
+ *
+ * @param attr The attribute/field name
+ * @returns The property reference object
+ */
+export function formatJSONProperty(attr: string): CQLJSONProperty {
+  return { property: attr };
+}
+
+/**
+ * Formats a value for use as a CQL2-JSON argument.
+ * Primitives are passed through, dates become date or timestamp literals and arrays are formatted element-wise.
+ *
+ * @param value The value to format
+ * @returns The formatted CQL2-JSON argument
+ */
+export function formatJSONValue(value: unknown): CQLJSONArgument {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof CalendarDate) {
+    return { date: value.isoDate };
+  }
+  if (value instanceof Date) {
+    return { timestamp: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => formatJSONValue(v));
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  if (typeof value === "object") {
+    return value as CQLJSONArgument;
+  }
+  return String(value);
+}
+
+/**
+ * Formats an interval bound as an ISO 8601 string, writing open bounds as `".."`.
+ */
+function formatJSONIntervalBound(value: IntervalBound): string {
+  if (isOpenBound(value)) {
+    return "..";
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Formats a temporal value as a CQL2-JSON temporal literal.
+ * Handles Date objects, ISO 8601 strings, temporal intervals and property references.
+ *
+ * @param value The temporal value to format
+ * @returns The formatted `date`, `timestamp` or `interval` literal, or the property reference
+ */
+export function formatJSONTemporalValue(
+  value: TemporalValue | PropertyReference,
+): CQLJSONTemporal | CQLJSONProperty {
+  if (isExpression(value)) {
+    return value.toCQLJSON();
+  }
+  if (value instanceof Date) {
+    return { timestamp: value.toISOString() };
+  }
+  if (typeof value === "string") {
+    return isDateString(value) ? { date: value } : { timestamp: value };
+  }
+  return {
+    interval: [
+      formatJSONIntervalBound(value.start),
+      formatJSONIntervalBound(value.end),
+    ],
+  };
+}
+
+/**
+ * Wraps a CQL2-JSON expression in a `not` operation.
+ *
+ * @param expression The expression to negate
+ * @returns The negated expression
+ */
+export function negateJSON(expression: CQLJSONExpression): CQLJSONExpression {
+  return { op: "not", args: [expression] };
+}
+
+/**
+ * Serializes a CQL2-JSON document with object keys in sorted order, so that documents
+ * with the same content always produce the same string, e.g. regardless of the key
+ * order of embedded GeoJSON geometries.
+ *
+ * @param value The CQL2-JSON document or argument
+ * @returns The stable JSON string
+ */
+export function stringifyJSON(value: CQLJSONArgument): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stringifyJSON).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(
+        ([k, v]) =>
+          `${JSON.stringify(k)}:${stringifyJSON(v as CQLJSONArgument)}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,315 @@
+import type { Geometry } from "geojson";
+import { UnsupportedConditionTypeError } from "./errors";
+import type {
+  ArrayCondition,
+  BBox,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+} from "./operators/base-types";
+import {
+  isArrayCondition,
+  isBBox,
+  isComparisonCondition,
+  isExpression,
+  isLogicalCondition,
+  isSpatialCondition,
+  isTemporalCondition,
+  isTextCondition,
+} from "./operators/condition-guards";
+import {
+  bboxToGeometry,
+  checkOptions,
+  convertLikePattern,
+  definedBounds,
+  flattenBBox,
+  INSTANT_RELATIONS,
+  likePattern,
+  type RangeBounds,
+  toTimeSpan,
+} from "./translation";
+
+/**
+ * An Elasticsearch or OpenSearch query clause, e.g. `{ term: { status: "ACTIVE" } }`.
+ */
+export type ElasticsearchQuery = Record<string, unknown>;
+
+/**
+ * `geo_shape` relations. Touches, overlaps, crosses and equals have no equivalent.
+ */
+const SPATIAL_RELATIONS: Partial<Record<SpatialCondition["type"], string>> = {
+  intersects: "intersects",
+  disjoint: "disjoint",
+  within: "within",
+  contains: "contains",
+};
+
+/**
+ * Rejects property references, functions and arithmetic as operands, which would need a script query.
+ */
+function unsupportedOperand(condition: Condition, operand: Expression): never {
+  throw new UnsupportedConditionTypeError(
+    `${condition.type} with ${operand.kind} operand (Elasticsearch)`,
+    condition,
+  );
+}
+
+/**
+ * Writes a literal value. Dates become ISO 8601 strings, which date fields parse by default.
+ */
+function formatValue(condition: Condition, value: unknown): unknown {
+  if (isExpression(value)) {
+    unsupportedOperand(condition, value);
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function exists(field: string): ElasticsearchQuery {
+  return { exists: { field } };
+}
+
+/**
+ * Matches documents that have the field but do not match `query`, like a CQL comparison
+ * that is never true for missing values.
+ */
+function existsAndNot(
+  field: string,
+  query: ElasticsearchQuery,
+): ElasticsearchQuery {
+  return { bool: { filter: [exists(field)], must_not: [query] } };
+}
+
+function range(
+  field: string,
+  bounds: RangeBounds<unknown>,
+): ElasticsearchQuery {
+  const defined = definedBounds(bounds);
+  return Object.keys(defined).length === 0
+    ? exists(field)
+    : { range: { [field]: defined } };
+}
+
+function formatComparison(condition: ComparisonCondition): ElasticsearchQuery {
+  checkOptions(condition, "Elasticsearch");
+  const { type, value } = condition;
+  if (typeof condition.attr !== "string") {
+    unsupportedOperand(condition, condition.attr);
+  }
+  const field = condition.attr;
+  const caseInsensitive = condition.options?.caseInsensitive === true;
+  const term = (v: unknown): ElasticsearchQuery => ({
+    term: {
+      [field]: caseInsensitive
+        ? { value: formatValue(condition, v), case_insensitive: true }
+        : formatValue(condition, v),
+    },
+  });
+  const terms = (values: unknown[]): ElasticsearchQuery => ({
+    terms: { [field]: values.map((v) => formatValue(condition, v)) },
+  });
+
+  switch (type) {
+    case "eq":
+    case "ne":
+      if (value === null || value === undefined) {
+        return type === "eq"
+          ? { bool: { must_not: [exists(field)] } }
+          : exists(field);
+      }
+      return type === "eq" ? term(value) : existsAndNot(field, term(value));
+    case "lt":
+    case "lte":
+    case "gt":
+    case "gte":
+      if (caseInsensitive) {
+        break;
+      }
+      return range(field, { [type]: formatValue(condition, value) });
+    case "between": {
+      if (caseInsensitive) {
+        break;
+      }
+      const [lower, upper] = value as [unknown, unknown];
+      return range(field, {
+        gte: formatValue(condition, lower),
+        lte: formatValue(condition, upper),
+      });
+    }
+    case "in":
+      return terms(value as unknown[]);
+    case "notIn":
+      return existsAndNot(field, terms(value as unknown[]));
+  }
+  throw new UnsupportedConditionTypeError(
+    `${type}${caseInsensitive ? " (case-insensitive, Elasticsearch)" : ""}`,
+    condition,
+  );
+}
+
+/**
+ * Converts a LIKE pattern to a `wildcard` pattern, in which `*`, `?` and `\` are escaped.
+ */
+function likeToWildcard(pattern: string): string {
+  return convertLikePattern(pattern, { any: "*", one: "?" }, (char) =>
+    /[*?\\]/.test(char) ? `\\${char}` : char,
+  );
+}
+
+function formatText(condition: TextCondition): ElasticsearchQuery {
+  checkOptions(condition, "Elasticsearch");
+  return {
+    wildcard: {
+      [condition.attr]: {
+        value: likeToWildcard(likePattern(condition)),
+        ...(condition.options?.caseInsensitive && { case_insensitive: true }),
+      },
+    },
+  };
+}
+
+/**
+ * Writes a bounding box as an envelope, given by its upper left and lower right corners.
+ * A box crossing the antimeridian is written as a multipolygon with a part on each side.
+ */
+function formatEnvelope(bbox: BBox): ElasticsearchQuery | Geometry {
+  const [minx, miny, maxx, maxy] = flattenBBox(bbox);
+  if (minx > maxx) {
+    return bboxToGeometry(bbox);
+  }
+  return {
+    type: "envelope",
+    coordinates: [
+      [minx, maxy],
+      [maxx, miny],
+    ],
+  };
+}
+
+function formatSpatial(condition: SpatialCondition): ElasticsearchQuery {
+  const relation = SPATIAL_RELATIONS[condition.type];
+  if (!relation) {
+    throw new UnsupportedConditionTypeError(
+      `${condition.type} (Elasticsearch)`,
+      condition,
+    );
+  }
+  const { geometry } = condition;
+  const shape = isBBox(geometry)
+    ? formatEnvelope(geometry)
+    : (formatValue(condition, geometry) as Geometry);
+  return { geo_shape: { [condition.attr]: { shape, relation } } };
+}
+
+function formatTemporal(condition: TemporalCondition): ElasticsearchQuery {
+  const { value } = condition;
+  if (isExpression(value)) {
+    unsupportedOperand(condition, value);
+  }
+  const span = toTimeSpan(value, (instant) => formatValue(condition, instant));
+  const bounds = INSTANT_RELATIONS[condition.type](span);
+  if (!bounds) {
+    throw new UnsupportedConditionTypeError(
+      `${condition.type} (Elasticsearch date field)`,
+      condition,
+    );
+  }
+  return range(condition.attr, bounds);
+}
+
+/**
+ * `acontains` requires every value, `aoverlaps` any of them. Arrays are indexed as
+ * multi-valued fields, which lose the order and count that `aequals` and `acontainedby` need.
+ */
+function formatArray(condition: ArrayCondition): ElasticsearchQuery {
+  const { type, attr } = condition;
+  if (isExpression(condition.value)) {
+    unsupportedOperand(condition, condition.value);
+  }
+  const values = condition.value.map((v) => formatValue(condition, v));
+  switch (type) {
+    case "acontains":
+      return {
+        bool: { filter: values.map((v) => ({ term: { [attr]: v } })) },
+      };
+    case "aoverlaps":
+      return { terms: { [attr]: values } };
+  }
+  throw new UnsupportedConditionTypeError(`${type} (Elasticsearch)`, condition);
+}
+
+function formatLogical(condition: LogicalCondition): ElasticsearchQuery {
+  if (condition.type === "not" && condition.condition) {
+    return { bool: { must_not: [formatCondition(condition.condition)] } };
+  }
+  if (condition.type === "and" || condition.type === "or") {
+    const clauses = (condition.conditions ?? []).map(formatCondition);
+    return condition.type === "and"
+      ? { bool: { filter: clauses } }
+      : { bool: { should: clauses, minimum_should_match: 1 } };
+  }
+  throw new UnsupportedConditionTypeError(condition.type, condition);
+}
+
+function formatCondition(condition: Condition): ElasticsearchQuery {
+  if (isLogicalCondition(condition)) {
+    return formatLogical(condition);
+  }
+  if (isSpatialCondition(condition)) {
+    return formatSpatial(condition);
+  }
+  if (isTemporalCondition(condition)) {
+    return formatTemporal(condition);
+  }
+  if (isTextCondition(condition)) {
+    return formatText(condition);
+  }
+  if (isComparisonCondition(condition)) {
+    return formatComparison(condition);
+  }
+  if (isArrayCondition(condition)) {
+    return formatArray(condition);
+  }
+  throw new UnsupportedConditionTypeError(
+    (condition as Condition).type,
+    condition,
+  );
+}
+
+/**
+ * Translates a condition to an Elasticsearch or OpenSearch query, for use as the `query`
+ * of a search request. Clauses run in filter context, so they do not affect scoring.
+ *
+ * - `and`, `or` and `not` map to `bool` queries with `filter`, `should` and `must_not` clauses.
+ * - Comparisons map to `term`, `range` and `terms`. `isNull` is a negated `exists`, and
+ *   `ne` and `isNotIn` also require the field to exist, as CQL never matches missing values.
+ * - `like` and `contains` map to `wildcard`, with `%` and `_` written as `*` and `?`. The
+ *   substring of `contains` is matched literally.
+ *   Case-insensitive matches set `case_insensitive`.
+ * - Spatial operators map to `geo_shape` with the matching relation. Bounding boxes are envelopes.
+ * - Temporal operators map to date `range` queries on the field. Relations a date cannot
+ *   have with the value, such as `T_CONTAINS`, throw an `UnsupportedConditionTypeError`.
+ *
+ * @example
+ * ```typescript
+ * toElasticsearchQuery(and(eq("status", "ACTIVE"), isNull("deletedAt")));
+ * // { bool: { filter: [
+ * //   { term: { status: "ACTIVE" } },
+ * //   { bool: { must_not: [{ exists: { field: "deletedAt" } }] } },
+ * // ] } }
+ * ```
+ *
+ * @param condition The condition to translate
+ * @returns The query clause
+ * @throws UnsupportedConditionTypeError for operators with no equivalent: the touches, overlaps,
+ * crosses and equals spatial relations, `aequals` and `acontainedby`, temporal relations a date
+ * cannot have with the value, accent-insensitive matching, and property references, functions or
+ * arithmetic as operands
+ * @see {@link https://www.elastic.co/guide/en/elasticsearch/reference/current/query-dsl.html Elasticsearch Query DSL}
+ */
+export function toElasticsearchQuery(condition: Condition): ElasticsearchQuery {
+  return formatCondition(condition);
+}
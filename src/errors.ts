@@ -23,6 +23,7 @@ export class InvalidConditionError extends CQLError {
    * @param conditionType - The type of the condition
    * @param condition - The condition object that caused the error
    * @param missingAttribute - The name of the missing attribute
+   * @param pointer - JSON pointer to the offending node, when the condition was read from a document
    */
   constructor(
     /** The type of the condition */
@@ -31,8 +32,11 @@ export class InvalidConditionError extends CQLError {
     public readonly condition: Partial<Condition>,
     /** The name of the missing attribute */
     public readonly missingAttribute: string,
+    /** JSON pointer to the offending node, when the condition was read from a document */
+    public readonly pointer?: string,
   ) {
-    const message = `Condition of type '${conditionType}' is missing required attribute: ${missingAttribute}.`;
+    const location = pointer === undefined ? "" : ` at '${pointer}'`;
+    const message = `Condition of type '${conditionType}' is missing required attribute: ${missingAttribute}${location}.`;
     super(message);
     this.name = "InvalidConditionError";
   }
@@ -46,14 +50,18 @@ export class UnsupportedConditionTypeError extends CQLError {
    * Creates a new unsupported condition type error
    * @param conditionType - The unsupported condition type
    * @param condition - The condition object that caused the error
+   * @param pointer - JSON pointer to the offending node, when the condition was read from a document
    */
   constructor(
     /** The unsupported type */
     public readonly conditionType: string,
     /** The condition object that caused the error */
     public readonly condition: Partial<Condition>,
+    /** JSON pointer to the offending node, when the condition was read from a document */
+    public readonly pointer?: string,
   ) {
-    const message = `Unsupported condition type: ${conditionType}.`;
+    const location = pointer === undefined ? "" : ` at '${pointer}'`;
+    const message = `Unsupported condition type: ${conditionType}${location}.`;
     super(message);
     this.name = "UnsupportedConditionTypeError";
   }
@@ -80,3 +88,114 @@ export class SpatialOperationError extends CQLError {
     this.name = "SpatialOperationError";
   }
 }
+
+/**
+ * Error thrown when a temporal value is not a valid ISO 8601 date, timestamp or interval.
+ */
+export class InvalidTemporalValueError extends CQLError {
+  /**
+   * Creates a new invalid temporal value error
+   * @param conditionType - The type of the condition the value was given to
+   * @param value - The offending value
+   * @param reason - Why the value was rejected
+   */
+  constructor(
+    /** The type of the condition the value was given to */
+    public readonly conditionType: string,
+    /** The offending value */
+    public readonly value: unknown,
+    /** Why the value was rejected */
+    public readonly reason: string,
+  ) {
+    const message = `Invalid temporal value for '${conditionType}': ${reason}.`;
+    super(message);
+    this.name = "InvalidTemporalValueError";
+  }
+}
+
+/**
+ * Error thrown when a query option such as `limit` or `offset` is given an invalid value.
+ */
+export class InvalidQueryOptionError extends CQLError {
+  /**
+   * Creates a new invalid query option error
+   * @param option - The name of the option
+   * @param value - The offending value
+   * @param expected - A description of the values the option accepts
+   */
+  constructor(
+    /** The name of the option */
+    public readonly option: string,
+    /** The offending value */
+    public readonly value: unknown,
+    /** A description of the values the option accepts */
+    public readonly expected: string,
+  ) {
+    const message = `Invalid value for query option '${option}': expected ${expected} but got ${String(value)}.`;
+    super(message);
+    this.name = "InvalidQueryOptionError";
+  }
+}
+
+/**
+ * Error thrown when a condition refers to a property that is missing from a column map.
+ */
+export class UnknownPropertyError extends CQLError {
+  /**
+   * Creates a new unknown property error
+   * @param property - The property the condition refers to
+   */
+  constructor(
+    /** The property the condition refers to */
+    public readonly property: string,
+  ) {
+    const message = `Unknown property '${property}': it is not mapped to a column.`;
+    super(message);
+    this.name = "UnknownPropertyError";
+  }
+}
+
+/**
+ * Error thrown when a condition calls a function that is missing from a function map.
+ */
+export class UnknownFunctionError extends CQLError {
+  /**
+   * Creates a new unknown function error
+   * @param functionName - The function the condition calls
+   */
+  constructor(
+    /** The function the condition calls */
+    public readonly functionName: string,
+  ) {
+    const message = `Unknown function '${functionName}': it is not mapped to a SQL function.`;
+    super(message);
+    this.name = "UnknownFunctionError";
+  }
+}
+
+/**
+ * Error thrown when a CQL text expression cannot be parsed.
+ */
+export class CQLParseError extends CQLError {
+  /**
+   * Creates a new CQL parse error
+   * @param line - The 1-based line where parsing failed
+   * @param column - The 1-based column where parsing failed
+   * @param expected - A description of the token the parser expected
+   * @param found - A description of the token that was found instead
+   */
+  constructor(
+    /** The 1-based line where parsing failed */
+    public readonly line: number,
+    /** The 1-based column where parsing failed */
+    public readonly column: number,
+    /** A description of the token the parser expected */
+    public readonly expected: string,
+    /** A description of the token that was found instead */
+    public readonly found: string,
+  ) {
+    const message = `Parse error at line ${line}, column ${column}: expected ${expected} but found ${found}.`;
+    super(message);
+    this.name = "CQLParseError";
+  }
+}
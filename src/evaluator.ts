@@ -0,0 +1,564 @@
+import type { Geometry } from "geojson";
+import type JSTSGeometry from "jsts/org/locationtech/jts/geom/Geometry";
+import GeometryFactory from "jsts/org/locationtech/jts/geom/GeometryFactory";
+import GeoJSONReader from "jsts/org/locationtech/jts/io/GeoJSONReader.js";
+import RelateOp from "jsts/org/locationtech/jts/operation/relate/RelateOp.js";
+import { SpatialOperationError, UnsupportedConditionTypeError } from "./errors";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  ArithmeticOperator,
+  ArrayCondition,
+  ArrayOperator,
+  BBox,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+  TextMatchOptions,
+} from "./operators/base-types";
+import {
+  isArrayCondition,
+  isBBox,
+  isComparisonCondition,
+  isExpression,
+  isLogicalCondition,
+  isSpatialCondition,
+  isTemporalCondition,
+  isTextCondition,
+} from "./operators/condition-guards";
+import type { TemporalOperator } from "./operators/temporal-operators";
+import { bboxToGeometry, convertLikePattern, likePattern } from "./translation";
+
+// Create instances of JSTS readers
+const geometryFactory = new GeometryFactory();
+const geoJsonReader = new GeoJSONReader(geometryFactory);
+
+type Predicate = (record: unknown) => boolean;
+
+type Resolver = (record: unknown) => unknown;
+
+/**
+ * A time span in epoch milliseconds. Instants have equal bounds.
+ */
+interface TimeSpan {
+  start: number;
+  end: number;
+  instant: boolean;
+}
+
+const SPATIAL_RELATIONS: Record<
+  SpatialCondition["type"],
+  (a: JSTSGeometry, b: JSTSGeometry) => boolean
+> = {
+  intersects: (a, b) => RelateOp.intersects(a, b),
+  disjoint: (a, b) => RelateOp.disjoint(a, b),
+  contains: (a, b) => RelateOp.contains(a, b),
+  within: (a, b) => RelateOp.contains(b, a),
+  touches: (a, b) => RelateOp.touches(a, b),
+  overlaps: (a, b) => RelateOp.overlaps(a, b),
+  crosses: (a, b) => RelateOp.crosses(a, b),
+  eq: (a, b) => RelateOp.equalsTopo(a, b),
+};
+
+/**
+ * Allen interval relations between the property value `a` and the condition value `b`.
+ * Boundary relations (begins, ends, ...) against an instant only compare the shared bound.
+ */
+const TEMPORAL_RELATIONS: Record<
+  TemporalOperator,
+  (a: TimeSpan, b: TimeSpan) => boolean
+> = {
+  anyinteracts: (a, b) => a.start <= b.end && a.end >= b.start,
+  after: (a, b) => a.start > b.end,
+  before: (a, b) => a.end < b.start,
+  begins: (a, b) => a.start === b.start && (b.instant || a.end < b.end),
+  begunby: (a, b) => a.start === b.start && (b.instant || a.end > b.end),
+  tcontains: (a, b) => a.start < b.start && a.end > b.end,
+  during: (a, b) => a.start > b.start && a.end < b.end,
+  endedby: (a, b) => a.end === b.end && (b.instant || a.start < b.start),
+  ends: (a, b) => a.end === b.end && (b.instant || a.start > b.start),
+  tequals: (a, b) => a.start === b.start && a.end === b.end,
+  meets: (a, b) => a.end === b.start,
+  metby: (a, b) => a.start === b.end,
+  toverlaps: (a, b) => a.start < b.start && b.start < a.end && a.end < b.end,
+  overlappedby: (a, b) => b.start < a.start && a.start < b.end && b.end < a.end,
+  tintersects: (a, b) => a.start <= b.end && a.end >= b.start,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isFeature(
+  value: unknown,
+): value is { type: "Feature"; properties?: unknown; geometry?: unknown } {
+  return isObject(value) && value.type === "Feature";
+}
+
+function walkPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (!isObject(current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Resolves a dotted attribute path against a record, the same way `Path<T>` describes it.
+ * Array elements are addressed by index (`tags.0`). For GeoJSON features the path is
+ * looked up in `properties` first, then on the feature itself (e.g. `geometry`, `id`).
+ */
+function resolvePath(record: unknown, path: string): unknown {
+  if (isFeature(record)) {
+    const value = walkPath(record.properties, path);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return walkPath(record, path);
+}
+
+const ARITHMETIC_OPERATIONS: Record<
+  ArithmeticOperator,
+  (a: number, b: number) => number
+> = {
+  "+": (a, b) => a + b,
+  "-": (a, b) => a - b,
+  "*": (a, b) => a * b,
+  "/": (a, b) => a / b,
+  "%": (a, b) => a % b,
+  div: (a, b) => Math.trunc(a / b),
+};
+
+function compileArithmeticOperand(operand: ArithmeticOperand): Resolver {
+  if (typeof operand === "string") {
+    return (record) => resolvePath(record, operand);
+  }
+  if (typeof operand === "number") {
+    return () => operand;
+  }
+  return compileExpression(operand);
+}
+
+/**
+ * Compiles an arithmetic expression. Like SQL, the result is null when an operand is
+ * missing or not a number; division by zero also yields null.
+ */
+function compileArithmetic(expression: ArithmeticExpression): Resolver {
+  const operation = ARITHMETIC_OPERATIONS[expression.operator];
+  const left = compileArithmeticOperand(expression.left);
+  const right = compileArithmeticOperand(expression.right);
+  return (record) => {
+    const a = left(record);
+    const b = right(record);
+    if (typeof a !== "number" || typeof b !== "number") {
+      return null;
+    }
+    const result = operation(a, b);
+    return Number.isFinite(result) ? result : null;
+  };
+}
+
+function compileExpression(expression: Expression): Resolver {
+  switch (expression.kind) {
+    case "arithmetic":
+      return compileArithmetic(expression);
+    case "property":
+      return (record) => resolvePath(record, expression.name);
+    case "function":
+      // Filter functions are implemented by the server, so they cannot be evaluated here
+      throw new UnsupportedConditionTypeError(
+        `${expression.name} (function)`,
+        {},
+      );
+  }
+}
+
+/**
+ * Compiles the left-hand side of a condition: a property path or an expression.
+ */
+function compileAttribute(attr: string | Expression): Resolver {
+  return typeof attr === "string"
+    ? (record) => resolvePath(record, attr)
+    : compileExpression(attr);
+}
+
+/**
+ * Compiles a value operand: a literal or an expression.
+ */
+function compileOperand(value: unknown): Resolver {
+  return isExpression(value) ? compileExpression(value) : () => value;
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === "string") {
+    return Date.parse(value);
+  }
+  if (typeof value === "number") {
+    return value;
+  }
+  return Number.NaN;
+}
+
+/**
+ * Compares two values, returning a negative, zero or positive number,
+ * or undefined when the values are missing or not comparable.
+ * Dates are compared by time, so ISO 8601 strings in records match `Date` values in conditions.
+ */
+function compareValues(left: unknown, right: unknown): number | undefined {
+  if (left === null || left === undefined || right === null) {
+    return undefined;
+  }
+  if (left instanceof Date || right instanceof Date) {
+    const difference = toTime(left) - toTime(right);
+    return Number.isNaN(difference) ? undefined : difference;
+  }
+  if (
+    typeof left !== typeof right ||
+    !["string", "number", "boolean", "bigint"].includes(typeof left)
+  ) {
+    return undefined;
+  }
+  const a = left as string | number;
+  const b = right as string | number;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Creates the normalization applied to strings by the `CASEI()` and `ACCENTI()` options.
+ * Accents are removed by decomposing characters and dropping the combining marks.
+ */
+function createNormalizer(
+  options: TextMatchOptions | undefined,
+): (value: unknown) => unknown {
+  if (!options?.caseInsensitive && !options?.accentInsensitive) {
+    return (value) => value;
+  }
+  return (value) => {
+    if (typeof value !== "string") {
+      return value;
+    }
+    let result = value;
+    if (options.accentInsensitive) {
+      result = result.normalize("NFD").replace(/\p{M}/gu, "");
+    }
+    return options.caseInsensitive ? result.toLowerCase() : result;
+  };
+}
+
+function compileComparison(condition: ComparisonCondition): Predicate {
+  const { value } = condition;
+  const normalize = createNormalizer(condition.options);
+  const attr = compileAttribute(condition.attr);
+  const compareTo = (
+    test: (result: number) => boolean,
+    operand: unknown,
+  ): Predicate => {
+    const resolveOperand = compileOperand(operand);
+    return (record) => {
+      const result = compareValues(
+        normalize(attr(record)),
+        normalize(resolveOperand(record)),
+      );
+      return result !== undefined && test(result);
+    };
+  };
+
+  switch (condition.type) {
+    case "eq":
+      return value === null
+        ? (record) => attr(record) == null
+        : compareTo((result) => result === 0, value);
+    case "ne":
+      return value === null
+        ? (record) => attr(record) != null
+        : compareTo((result) => result !== 0, value);
+    case "lt":
+      return compareTo((result) => result < 0, value);
+    case "lte":
+      return compareTo((result) => result <= 0, value);
+    case "gt":
+      return compareTo((result) => result > 0, value);
+    case "gte":
+      return compareTo((result) => result >= 0, value);
+    case "between": {
+      const [lower, upper] = value as [unknown, unknown];
+      const aboveLower = compareTo((result) => result >= 0, lower);
+      const belowUpper = compareTo((result) => result <= 0, upper);
+      return (record) => aboveLower(record) && belowUpper(record);
+    }
+    case "in":
+    case "notIn": {
+      const matchers = (value as unknown[]).map((v) =>
+        compareTo((result) => result === 0, v),
+      );
+      const matchesAny: Predicate = (record) =>
+        matchers.some((matches) => matches(record));
+      return condition.type === "in"
+        ? matchesAny
+        : (record) => attr(record) != null && !matchesAny(record);
+    }
+  }
+  throw new UnsupportedConditionTypeError(condition.type, condition);
+}
+
+/**
+ * Converts a LIKE pattern into an anchored regular expression.
+ * `%` matches any sequence, `_` matches a single character and `\` escapes the next character.
+ */
+function likeToRegExp(pattern: string): RegExp {
+  const source = convertLikePattern(
+    pattern,
+    { any: "[\\s\\S]*", one: "[\\s\\S]" },
+    (char) => char.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&"),
+  );
+  return new RegExp(`^${source}$`);
+}
+
+function compileText(condition: TextCondition): Predicate {
+  const normalize = createNormalizer(condition.options);
+  const regExp = likeToRegExp(String(normalize(likePattern(condition))));
+  return (record) => {
+    const value = normalize(resolvePath(record, condition.attr));
+    return typeof value === "string" && regExp.test(value);
+  };
+}
+
+function readGeometry(
+  operator: string,
+  geometry: Geometry | BBox,
+): JSTSGeometry {
+  try {
+    return geoJsonReader.read(
+      isBBox(geometry) ? bboxToGeometry(geometry) : geometry,
+    );
+  } catch (error) {
+    throw new SpatialOperationError(
+      operator,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Reads a geometry found in a record. Features are unwrapped to their geometry.
+ */
+function readRecordGeometry(
+  operator: string,
+  value: unknown,
+): JSTSGeometry | undefined {
+  const geometry = isFeature(value) ? value.geometry : value;
+  return isObject(geometry)
+    ? readGeometry(operator, geometry as unknown as Geometry)
+    : undefined;
+}
+
+function compileSpatial(condition: SpatialCondition): Predicate {
+  const relation = SPATIAL_RELATIONS[condition.type];
+  const { geometry } = condition;
+  const fixed = isExpression(geometry)
+    ? undefined
+    : readGeometry(condition.type, geometry);
+  const target = (record: unknown) =>
+    isExpression(geometry)
+      ? readRecordGeometry(condition.type, resolvePath(record, geometry.name))
+      : fixed;
+  return (record) => {
+    const value = readRecordGeometry(
+      condition.type,
+      resolvePath(record, condition.attr),
+    );
+    const other = target(record);
+    return value !== undefined && other !== undefined && relation(value, other);
+  };
+}
+
+function toBound(value: unknown, openBound: number): number {
+  return value === null || value === undefined || value === ".."
+    ? openBound
+    : toTime(value);
+}
+
+/**
+ * Converts an instant (Date, ISO 8601 string or epoch milliseconds) or an interval
+ * (`{ start, end }` or `[start, end]`) into a time span. `..` or null bounds are unbounded.
+ */
+function toTimeSpan(value: unknown): TimeSpan | undefined {
+  let span: TimeSpan;
+  if (Array.isArray(value) && value.length === 2) {
+    span = {
+      start: toBound(value[0], -Infinity),
+      end: toBound(value[1], Infinity),
+      instant: false,
+    };
+  } else if (isObject(value) && "start" in value && "end" in value) {
+    span = {
+      start: toBound(value.start, -Infinity),
+      end: toBound(value.end, Infinity),
+      instant: false,
+    };
+  } else {
+    const time = toTime(value);
+    span = { start: time, end: time, instant: true };
+  }
+  return Number.isNaN(span.start) || Number.isNaN(span.end) ? undefined : span;
+}
+
+function compileTemporal(condition: TemporalCondition): Predicate {
+  const relation = TEMPORAL_RELATIONS[condition.type];
+  const { value } = condition;
+  const fixed = isExpression(value) ? undefined : toTimeSpan(value);
+  const target = (record: unknown) =>
+    isExpression(value) ? toTimeSpan(resolvePath(record, value.name)) : fixed;
+  return (record) => {
+    const source = toTimeSpan(resolvePath(record, condition.attr));
+    const other = target(record);
+    return (
+      source !== undefined && other !== undefined && relation(source, other)
+    );
+  };
+}
+
+/**
+ * Array relations. Elements are matched like `eq`, so dates match ISO 8601 strings.
+ */
+const ARRAY_RELATIONS: Record<
+  ArrayOperator,
+  (array: unknown[], values: unknown[]) => boolean
+> = {
+  aequals: (array, values) =>
+    array.length === values.length &&
+    array.every((element, index) => isSameElement(element, values[index])),
+  acontains: (array, values) =>
+    values.every((value) =>
+      array.some((element) => isSameElement(element, value)),
+    ),
+  acontainedby: (array, values) =>
+    array.every((element) =>
+      values.some((value) => isSameElement(element, value)),
+    ),
+  aoverlaps: (array, values) =>
+    array.some((element) =>
+      values.some((value) => isSameElement(element, value)),
+    ),
+};
+
+function isSameElement(element: unknown, value: unknown): boolean {
+  return compareValues(element, value) === 0;
+}
+
+function compileArray(condition: ArrayCondition): Predicate {
+  const relation = ARRAY_RELATIONS[condition.type];
+  const { value } = condition;
+  const operands = isExpression(value) ? [] : value.map(compileOperand);
+  const resolveValues: Resolver = isExpression(value)
+    ? compileExpression(value)
+    : (record) => operands.map((operand) => operand(record));
+  return (record) => {
+    const array = resolvePath(record, condition.attr);
+    const values = resolveValues(record);
+    return (
+      Array.isArray(array) && Array.isArray(values) && relation(array, values)
+    );
+  };
+}
+
+function compileLogical(condition: LogicalCondition): Predicate {
+  if (condition.type === "not" && condition.condition) {
+    const predicate = compileCondition(condition.condition);
+    return (record) => !predicate(record);
+  }
+  const predicates = (condition.conditions ?? []).map(compileCondition);
+  if (condition.type === "and") {
+    return (record) => predicates.every((predicate) => predicate(record));
+  }
+  if (condition.type === "or") {
+    return (record) => predicates.some((predicate) => predicate(record));
+  }
+  throw new UnsupportedConditionTypeError(condition.type, condition);
+}
+
+function compileCondition(condition: Condition): Predicate {
+  if (isLogicalCondition(condition)) {
+    return compileLogical(condition);
+  }
+  if (isSpatialCondition(condition)) {
+    return compileSpatial(condition);
+  }
+  if (isTemporalCondition(condition)) {
+    return compileTemporal(condition);
+  }
+  if (isTextCondition(condition)) {
+    return compileText(condition);
+  }
+  if (isComparisonCondition(condition)) {
+    return compileComparison(condition);
+  }
+  if (isArrayCondition(condition)) {
+    return compileArray(condition);
+  }
+  throw new UnsupportedConditionTypeError(
+    (condition as Condition).type,
+    condition,
+  );
+}
+
+/**
+ * Compiles a condition into a reusable predicate that tests plain objects or GeoJSON
+ * features in memory. Geometries and LIKE patterns in the condition are prepared once,
+ * so the predicate is cheap to apply to many records.
+ *
+ * - Attribute paths are resolved like `Path<T>` (`address.city`, `tags.0`); for GeoJSON
+ *   features they are looked up in `properties`, falling back to the feature itself.
+ * - Comparisons against a missing or null property are false, as in SQL.
+ * - Arithmetic expressions yield null when an operand is not a number or on division by zero.
+ * - `like` uses LIKE wildcards (`%`, `_`, `\` escape); `contains` matches its substring literally.
+ * - Spatial operators are evaluated with JSTS.
+ * - Temporal operators follow Allen's interval relations; instants are zero-length intervals.
+ *
+ * @example
+ * ```typescript
+ * const isActiveAdult = compileFilter<User>(and(eq("status", "ACTIVE"), gte("age", 18)));
+ * const visible = users.filter(isActiveAdult);
+ * ```
+ *
+ * @param condition The condition to compile
+ * @returns A predicate returning true for records that match the condition
+ * @throws UnsupportedConditionTypeError if the condition contains an unknown operator
+ * @throws SpatialOperationError if a geometry cannot be read
+ */
+export function compileFilter<T = unknown>(
+  condition: Condition,
+): (record: T) => boolean {
+  return compileCondition(condition);
+}
+
+/**
+ * Tests a single plain object or GeoJSON feature against a condition.
+ * Prefer {@link compileFilter} when testing many records against the same condition.
+ *
+ * @example
+ * ```typescript
+ * evaluate(eq("status", "ACTIVE"), { status: "ACTIVE" }); // true
+ * ```
+ *
+ * @param condition The condition to evaluate
+ * @param record The record to test
+ * @returns True if the record matches the condition
+ */
+export function evaluate<T = unknown>(
+  condition: Condition,
+  record: T,
+): boolean {
+  return compileCondition(condition)(record);
+}
@@ -6,11 +6,45 @@ export * from "./errors";
 export * from "./operators/base-types";
 
 // Operators
+export * from "./operators/arithmetic-operators";
+export * from "./operators/array-operators";
 export * from "./operators/comparison-operators";
+export * from "./operators/condition-guards";
+export * from "./operators/function-calls";
 export * from "./operators/logical-operators";
 export * from "./operators/path-type";
+export * from "./operators/property-reference";
 export * from "./operators/spatial-operators";
 export * from "./operators/temporal-operators";
 export * from "./operators/text-operators";
 export * from "./query-builder";
+export * from "./cql-context";
 export { queryBuilder } from "./query-builder";
+
+// Parsers
+export * from "./parsers/cql-text-parser";
+export * from "./parsers/cql-json-parser";
+export * from "./parsers/filter-xml-parser";
+
+// Evaluation
+export * from "./evaluator";
+
+// Simplification and equality
+export { canonicalize, conditionEquals, hashCondition } from "./canonical";
+export * from "./simplify";
+
+// Request encodings
+export * from "./stac";
+export * from "./wfs";
+export type { FilterXMLOptions, FilterXMLVersion } from "./filter-xml";
+export { toFilterXML } from "./filter-xml";
+export type { SQLDialect, SQLOptions, SQLQuery } from "./sql";
+export { toSQL } from "./sql";
+export type { ElasticsearchQuery } from "./elasticsearch";
+export { toElasticsearchQuery } from "./elasticsearch";
+export type { MongoFilter } from "./mongo";
+export { toMongoFilter } from "./mongo";
+
+// Visiting and transforming
+export type { ConditionTransformer, ConditionVisitor } from "./visitor";
+export { transformCondition, visitCondition } from "./visitor";
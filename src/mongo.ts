@@ -0,0 +1,324 @@
+import type { Geometry } from "geojson";
+import { SpatialOperationError, UnsupportedConditionTypeError } from "./errors";
+import type {
+  ArrayCondition,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+} from "./operators/base-types";
+import {
+  isArrayCondition,
+  isBBox,
+  isComparisonCondition,
+  isExpression,
+  isLogicalCondition,
+  isSpatialCondition,
+  isTemporalCondition,
+  isTextCondition,
+} from "./operators/condition-guards";
+import type { TemporalInstant } from "./operators/temporal-operators";
+import {
+  bboxToGeometry,
+  checkOptions,
+  convertLikePattern,
+  definedBounds,
+  INSTANT_RELATIONS,
+  likePattern,
+  type RangeBounds,
+  toTimeSpan,
+} from "./translation";
+
+/**
+ * A MongoDB query filter document, e.g. `{ status: { $eq: "ACTIVE" } }`.
+ */
+export type MongoFilter = Record<string, unknown>;
+
+const COMPARISON_OPERATORS: Record<"lt" | "lte" | "gt" | "gte", string> = {
+  lt: "$lt",
+  lte: "$lte",
+  gt: "$gt",
+  gte: "$gte",
+};
+
+/**
+ * Rejects property references, functions and arithmetic as operands, which would need `$expr`.
+ */
+function unsupportedOperand(condition: Condition, operand: Expression): never {
+  throw new UnsupportedConditionTypeError(
+    `${condition.type} with ${operand.kind} operand (MongoDB)`,
+    condition,
+  );
+}
+
+function formatValue(condition: Condition, value: unknown): unknown {
+  if (isExpression(value)) {
+    unsupportedOperand(condition, value);
+  }
+  return value;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Writes an anchored regular expression. `s` lets `.` match line breaks, like the evaluator's wildcards.
+ */
+function regex(source: string, caseInsensitive?: boolean): MongoFilter {
+  return { $regex: `^${source}$`, $options: caseInsensitive ? "is" : "s" };
+}
+
+function formatComparison(condition: ComparisonCondition): MongoFilter {
+  checkOptions(condition, "MongoDB");
+  const { type, value } = condition;
+  if (typeof condition.attr !== "string") {
+    unsupportedOperand(condition, condition.attr);
+  }
+  const field = condition.attr;
+  const caseInsensitive = condition.options?.caseInsensitive === true;
+
+  switch (type) {
+    case "eq":
+      if (value === null || value === undefined) {
+        return { [field]: { $eq: null } };
+      }
+      // Mongo has no case-insensitive equality without a collation, so a case-insensitive
+      // string comparison is an anchored regular expression
+      return {
+        [field]:
+          caseInsensitive && typeof value === "string"
+            ? regex(escapeRegExp(value), true)
+            : { $eq: formatValue(condition, value) },
+      };
+    case "ne":
+      if (value === null || value === undefined) {
+        return { [field]: { $ne: null } };
+      }
+      if (caseInsensitive) {
+        break;
+      }
+      // `$ne` alone also matches documents without the field, which CQL never does
+      return { [field]: { $nin: [formatValue(condition, value), null] } };
+    case "lt":
+    case "lte":
+    case "gt":
+    case "gte":
+      if (caseInsensitive) {
+        break;
+      }
+      return {
+        [field]: {
+          [COMPARISON_OPERATORS[type]]: formatValue(condition, value),
+        },
+      };
+    case "between": {
+      if (caseInsensitive) {
+        break;
+      }
+      const [lower, upper] = value as [unknown, unknown];
+      return {
+        [field]: {
+          $gte: formatValue(condition, lower),
+          $lte: formatValue(condition, upper),
+        },
+      };
+    }
+    case "in":
+      return {
+        [field]: {
+          $in: (value as unknown[]).map((v) => formatValue(condition, v)),
+        },
+      };
+    case "notIn":
+      return {
+        [field]: {
+          $nin: [
+            ...(value as unknown[]).map((v) => formatValue(condition, v)),
+            null,
+          ],
+        },
+      };
+  }
+  throw new UnsupportedConditionTypeError(
+    `${type}${caseInsensitive ? " (case-insensitive, MongoDB)" : ""}`,
+    condition,
+  );
+}
+
+/**
+ * Converts a LIKE pattern to a regular expression, in which `%` is `.*` and `_` is `.`.
+ */
+function likeToRegExp(pattern: string): string {
+  return convertLikePattern(pattern, { any: ".*", one: "." }, escapeRegExp);
+}
+
+function formatText(condition: TextCondition): MongoFilter {
+  checkOptions(condition, "MongoDB");
+  return {
+    [condition.attr]: regex(
+      likeToRegExp(likePattern(condition)),
+      condition.options?.caseInsensitive,
+    ),
+  };
+}
+
+/**
+ * `$geoIntersects` accepts any geometry, `$geoWithin` only polygons.
+ */
+function formatSpatial(condition: SpatialCondition): MongoFilter {
+  const { type, geometry } = condition;
+  if (isExpression(geometry)) {
+    unsupportedOperand(condition, geometry);
+  }
+  const $geometry: Geometry = isBBox(geometry)
+    ? bboxToGeometry(geometry)
+    : geometry;
+  switch (type) {
+    case "intersects":
+      return { [condition.attr]: { $geoIntersects: { $geometry } } };
+    case "within":
+      if ($geometry.type !== "Polygon" && $geometry.type !== "MultiPolygon") {
+        throw new SpatialOperationError(
+          type,
+          `$geoWithin needs a Polygon or MultiPolygon, not a ${$geometry.type}`,
+        );
+      }
+      return { [condition.attr]: { $geoWithin: { $geometry } } };
+  }
+  throw new UnsupportedConditionTypeError(`${type} (MongoDB)`, condition);
+}
+
+/**
+ * Converts an instant to the Date stored in the field. Date strings are read as UTC midnight.
+ */
+function toDate(instant: TemporalInstant): Date {
+  return instant instanceof Date ? instant : new Date(instant);
+}
+
+/**
+ * Writes range bounds as `$gt`, `$gte`, `$lt` and `$lte`.
+ */
+function formatRange(bounds: RangeBounds<Date>): MongoFilter {
+  return Object.fromEntries(
+    Object.entries(definedBounds(bounds)).map(([key, bound]) => [
+      `$${key}`,
+      bound,
+    ]),
+  );
+}
+
+function formatTemporal(condition: TemporalCondition): MongoFilter {
+  const { value } = condition;
+  if (isExpression(value)) {
+    unsupportedOperand(condition, value);
+  }
+  const bounds = INSTANT_RELATIONS[condition.type](toTimeSpan(value, toDate));
+  if (!bounds) {
+    throw new UnsupportedConditionTypeError(
+      `${condition.type} (MongoDB date field)`,
+      condition,
+    );
+  }
+  const range = formatRange(bounds);
+  // An unbounded interval holds every date
+  return {
+    [condition.attr]: Object.keys(range).length === 0 ? { $ne: null } : range,
+  };
+}
+
+/**
+ * `aequals` matches the array exactly, `acontains` needs every value and `aoverlaps` any of them.
+ */
+function formatArray(condition: ArrayCondition): MongoFilter {
+  const { type, attr } = condition;
+  if (isExpression(condition.value)) {
+    unsupportedOperand(condition, condition.value);
+  }
+  const values = condition.value.map((v) => formatValue(condition, v));
+  switch (type) {
+    case "aequals":
+      return { [attr]: { $eq: values } };
+    case "acontains":
+      return { [attr]: { $all: values } };
+    case "aoverlaps":
+      return { [attr]: { $in: values } };
+  }
+  throw new UnsupportedConditionTypeError(`${type} (MongoDB)`, condition);
+}
+
+function formatLogical(condition: LogicalCondition): MongoFilter {
+  if (condition.type === "not" && condition.condition) {
+    return { $nor: [formatCondition(condition.condition)] };
+  }
+  if (condition.type === "and" || condition.type === "or") {
+    return {
+      [`$${condition.type}`]: (condition.conditions ?? []).map(formatCondition),
+    };
+  }
+  throw new UnsupportedConditionTypeError(condition.type, condition);
+}
+
+function formatCondition(condition: Condition): MongoFilter {
+  if (isLogicalCondition(condition)) {
+    return formatLogical(condition);
+  }
+  if (isSpatialCondition(condition)) {
+    return formatSpatial(condition);
+  }
+  if (isTemporalCondition(condition)) {
+    return formatTemporal(condition);
+  }
+  if (isTextCondition(condition)) {
+    return formatText(condition);
+  }
+  if (isComparisonCondition(condition)) {
+    return formatComparison(condition);
+  }
+  if (isArrayCondition(condition)) {
+    return formatArray(condition);
+  }
+  throw new UnsupportedConditionTypeError(
+    (condition as Condition).type,
+    condition,
+  );
+}
+
+/**
+ * Translates a condition to a MongoDB query filter, for use with `collection.find()`.
+ * Property paths such as `address.city` are used as dotted field paths.
+ *
+ * - Comparisons map to `$eq`, `$ne`, `$gt`, `$in`, ... `ne` and `isNotIn` also exclude
+ *   missing and null fields, as CQL never matches them.
+ * - `and`, `or` and `not` map to `$and`, `$or` and `$nor`.
+ * - `like` and `contains` map to anchored `$regex` patterns, matching the substring of
+ *   `contains` literally. Case-insensitive matches and equalities use the `i` option.
+ * - `intersects` maps to `$geoIntersects` and `within` to `$geoWithin`, with GeoJSON geometries.
+ *   Bounding boxes become polygons.
+ * - Temporal operators compare the field with `Date` values. Relations a date cannot have
+ *   with the value, such as `T_CONTAINS`, throw an `UnsupportedConditionTypeError`.
+ * - `aequals`, `acontains` and `aoverlaps` map to `$eq`, `$all` and `$in`.
+ *
+ * @example
+ * ```typescript
+ * toMongoFilter(and(eq("status", "ACTIVE"), after("updated", "2023-01-01")));
+ * // { $and: [
+ * //   { status: { $eq: "ACTIVE" } },
+ * //   { updated: { $gt: new Date("2023-01-01") } },
+ * // ] }
+ * ```
+ *
+ * @param condition The condition to translate
+ * @returns The filter document
+ * @throws UnsupportedConditionTypeError for operators with no equivalent: spatial operators other
+ * than `intersects` and `within`, `acontainedby`, temporal relations a date cannot have with the
+ * value, accent-insensitive matching, and property references, functions or arithmetic as operands
+ * @throws SpatialOperationError if `within` is given a geometry that is not a polygon
+ * @see {@link https://www.mongodb.com/docs/manual/reference/operator/query/ MongoDB Query Operators}
+ */
+export function toMongoFilter(condition: Condition): MongoFilter {
+  return formatCondition(condition);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import { add, div, intDiv, mod, mul, sub } from "../arithmetic-operators";
+import { between, eq, gt, gte, lt } from "../comparison-operators";
+
+describe("Arithmetic Operators", () => {
+  const ctx = createCQLContext();
+  const cql2 = createCQLContext({ dialect: "cql2" });
+
+  describe("expressions", () => {
+    it("should generate correct CQL for each operator", () => {
+      expect(add("price", "shipping").toCQL(ctx)).toBe("price + shipping");
+      expect(sub("elevation", 10).toCQL(ctx)).toBe("elevation - 10");
+      expect(mul("price", "quantity").toCQL(ctx)).toBe("price * quantity");
+      expect(div("population", "area").toCQL(ctx)).toBe("population / area");
+      expect(mod("id", 2).toCQL(cql2)).toBe("id % 2");
+      expect(intDiv("minutes", 60).toCQL(cql2)).toBe("minutes div 60");
+    });
+
+    it("should only add parentheses where precedence requires them", () => {
+      expect(mul(add("a", "b"), "c").toCQL(ctx)).toBe("(a + b) * c");
+      expect(add(mul("a", "b"), "c").toCQL(ctx)).toBe("a * b + c");
+      expect(add("a", mul("b", "c")).toCQL(ctx)).toBe("a + b * c");
+      expect(sub(sub("a", "b"), "c").toCQL(ctx)).toBe("a - b - c");
+      expect(sub("a", sub("b", "c")).toCQL(ctx)).toBe("a - (b - c)");
+      expect(sub("a", add("b", "c")).toCQL(ctx)).toBe("a - (b + c)");
+      expect(add("a", add("b", "c")).toCQL(ctx)).toBe("a + b + c");
+      expect(div("a", mul("b", "c")).toCQL(ctx)).toBe("a / (b * c)");
+      expect(mul("a", div("b", "c")).toCQL(ctx)).toBe("a * (b / c)");
+    });
+
+    it("should write modulo and integer division only in CQL2", () => {
+      expect(() => mod("id", 2).toCQL(ctx)).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+      expect(() =>
+        intDiv("minutes", 60).toCQL(createCQLContext({ dialect: "ecql" })),
+      ).toThrowError("Unsupported condition type: intDiv (ecql).");
+    });
+
+    it("should reject invalid operands", () => {
+      expect(() => add("", 1)).toThrowError(InvalidConditionError);
+      expect(() => mul("price", Number.NaN)).toThrowError(
+        "Condition of type 'mul' is missing required attribute: right operand.",
+      );
+    });
+  });
+
+  describe("comparisons", () => {
+    it("should accept expressions on either side", () => {
+      expect(gt(mul("price", "quantity"), 1000).toCQL(ctx)).toBe(
+        "price * quantity > 1000",
+      );
+      expect(gte(sub("elevation", "base_height"), 10).toCQL(ctx)).toBe(
+        "elevation - base_height >= 10",
+      );
+      expect(lt("total", add("budget", 100)).toCQL(ctx)).toBe(
+        "total < budget + 100",
+      );
+      expect(eq(mod("id", 2), 0).toCQL(cql2)).toBe("id % 2 = 0");
+    });
+
+    it("should accept expressions in between", () => {
+      expect(
+        between(div("population", "area"), 10, mul("limit", 2)).toCQL(ctx),
+      ).toBe("population / area BETWEEN 10 AND limit * 2");
+    });
+  });
+
+  describe("toCQLJSON", () => {
+    it("should generate nested arithmetic operations", () => {
+      expect(gt(mul(add("a", "b"), 2), 10).toCQLJSON()).toEqual({
+        op: ">",
+        args: [
+          {
+            op: "*",
+            args: [
+              { op: "+", args: [{ property: "a" }, { property: "b" }] },
+              2,
+            ],
+          },
+          10,
+        ],
+      });
+      expect(intDiv("minutes", 60).toCQLJSON()).toEqual({
+        op: "div",
+        args: [{ property: "minutes" }, 60],
+      });
+    });
+  });
+});
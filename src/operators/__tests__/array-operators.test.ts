@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "../array-operators";
+import { prop } from "../property-reference";
+
+describe("Array Operators", () => {
+  const cql2 = createCQLContext({ dialect: "cql2" });
+
+  it("should generate correct CQL for each operator", () => {
+    expect(aequals("tags", ["road", "bridge"]).toCQL(cql2)).toBe(
+      "A_EQUALS(tags, ('road', 'bridge'))",
+    );
+    expect(acontains("keywords", ["flood", 2023]).toCQL(cql2)).toBe(
+      "A_CONTAINS(keywords, ('flood', 2023))",
+    );
+    expect(acontainedby("tags", ["road"]).toCQL(cql2)).toBe(
+      "A_CONTAINEDBY(tags, ('road'))",
+    );
+    expect(aoverlaps("tags", prop("categories")).toCQL(cql2)).toBe(
+      "A_OVERLAPS(tags, categories)",
+    );
+    expect(aequals("tags", []).toCQL(cql2)).toBe("A_EQUALS(tags, ())");
+  });
+
+  it("should generate JSON arrays in CQL2-JSON", () => {
+    expect(acontains("tags", ["road", "bridge"]).toCQLJSON()).toEqual({
+      op: "a_contains",
+      args: [{ property: "tags" }, ["road", "bridge"]],
+    });
+    expect(aoverlaps("tags", prop("categories")).toCQLJSON()).toEqual({
+      op: "a_overlaps",
+      args: [{ property: "tags" }, { property: "categories" }],
+    });
+  });
+
+  it("should only be written in CQL2", () => {
+    expect(() =>
+      acontains("tags", ["road"]).toCQL(createCQLContext()),
+    ).toThrowError(UnsupportedConditionTypeError);
+    expect(() =>
+      acontains("tags", ["road"]).toCQL(createCQLContext({ dialect: "ecql" })),
+    ).toThrowError("Unsupported condition type: A_CONTAINS (ecql).");
+  });
+
+  it("should reject missing attributes and non-array values", () => {
+    expect(() => aequals("", ["road"])).toThrowError(InvalidConditionError);
+    expect(() => aequals("tags", "road" as unknown as string[])).toThrowError(
+      "Condition of type 'aequals' is missing required attribute: values (array).",
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { createCQLContext } from "../../cql-context";
+import { InvalidConditionError } from "../../errors";
 import {
   between,
   eq,
@@ -34,6 +35,34 @@ describe("Comparison Operators", () => {
     });
   });
 
+  describe("case- and accent-insensitive comparisons", () => {
+    const cql2 = createCQLContext({ dialect: "cql2" });
+
+    it("should wrap both sides in CASEI and ACCENTI", () => {
+      expect(eq("city", "zurich", { caseInsensitive: true }).toCQL(cql2)).toBe(
+        "CASEI(city) = CASEI('zurich')",
+      );
+      expect(
+        ne("city", "Zürich", { accentInsensitive: true }).toCQL(cql2),
+      ).toBe("ACCENTI(city) <> ACCENTI('Zürich')");
+      expect(
+        eq("city", "zurich", { caseInsensitive: true }).toCQLJSON(),
+      ).toEqual({
+        op: "=",
+        args: [
+          { op: "casei", args: [{ property: "city" }] },
+          { op: "casei", args: ["zurich"] },
+        ],
+      });
+    });
+
+    it("should only accept string values", () => {
+      expect(() => eq("age", 30, { caseInsensitive: true })).toThrowError(
+        InvalidConditionError,
+      );
+    });
+  });
+
   describe("ne operator", () => {
     it("should generate correct CQL for a not equals condition", () => {
       const condition = ne("status", "DELETED");
@@ -141,4 +170,60 @@ describe("Comparison Operators", () => {
       );
     });
   });
+
+  describe("toCQLJSON", () => {
+    it("should generate CQL2-JSON for binary comparisons", () => {
+      expect(eq("status", "ACTIVE").toCQLJSON()).toEqual({
+        op: "=",
+        args: [{ property: "status" }, "ACTIVE"],
+      });
+      expect(ne("status", "DELETED").toCQLJSON()).toEqual({
+        op: "<>",
+        args: [{ property: "status" }, "DELETED"],
+      });
+      expect(lte("score", 100).toCQLJSON()).toEqual({
+        op: "<=",
+        args: [{ property: "score" }, 100],
+      });
+    });
+
+    it("should generate timestamp literals for Date values", () => {
+      expect(gt("createdAt", new Date("2023-01-01")).toCQLJSON()).toEqual({
+        op: ">",
+        args: [
+          { property: "createdAt" },
+          { timestamp: "2023-01-01T00:00:00.000Z" },
+        ],
+      });
+    });
+
+    it("should generate CQL2-JSON for between", () => {
+      expect(between("age", 18, 65).toCQLJSON()).toEqual({
+        op: "between",
+        args: [{ property: "age" }, 18, 65],
+      });
+    });
+
+    it("should generate CQL2-JSON for null checks", () => {
+      expect(isNull("deletedAt").toCQLJSON()).toEqual({
+        op: "isNull",
+        args: [{ property: "deletedAt" }],
+      });
+      expect(isNotNull("email").toCQLJSON()).toEqual({
+        op: "not",
+        args: [{ op: "isNull", args: [{ property: "email" }] }],
+      });
+    });
+
+    it("should generate CQL2-JSON for in and not in lists", () => {
+      expect(isIn("code", [1, 2]).toCQLJSON()).toEqual({
+        op: "in",
+        args: [{ property: "code" }, [1, 2]],
+      });
+      expect(isNotIn("status", ["DELETED"]).toCQLJSON()).toEqual({
+        op: "not",
+        args: [{ op: "in", args: [{ property: "status" }, ["DELETED"]] }],
+      });
+    });
+  });
 });
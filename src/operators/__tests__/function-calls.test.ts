@@ -0,0 +1,77 @@
+import type { Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import { InvalidConditionError } from "../../errors";
+import { add } from "../arithmetic-operators";
+import { eq, lt } from "../comparison-operators";
+import { defineFunctions, fn, functionBuilders } from "../function-calls";
+import { prop } from "../property-reference";
+
+describe("Function Calls", () => {
+  const ctx = createCQLContext();
+  const point: Geometry = { type: "Point", coordinates: [0, 0] };
+  const functions = defineFunctions({
+    strToLowerCase: { args: ["string"], returns: "string" },
+    distance: { args: ["geometry", "geometry"], returns: "number" },
+  });
+
+  describe("fn", () => {
+    it("should generate correct CQL for function calls", () => {
+      expect(eq(fn("strToLowerCase", prop("name")), "zurich").toCQL(ctx)).toBe(
+        "strToLowerCase(name) = 'zurich'",
+      );
+      expect(lt(fn("distance", prop("geom"), point), 1000).toCQL(ctx)).toBe(
+        "distance(geom, POINT (0 0)) < 1000",
+      );
+      expect(eq("code", fn("strConcat", "CH-", prop("zip"))).toCQL(ctx)).toBe(
+        "code = strConcat('CH-', zip)",
+      );
+      expect(fn("pi").toCQL(ctx)).toBe("pi()");
+    });
+
+    it("should nest function calls and arithmetic", () => {
+      expect(lt(add(fn("abs", prop("delta")), 1), 10).toCQL(ctx)).toBe(
+        "abs(delta) + 1 < 10",
+      );
+      expect(
+        eq(fn("strLength", fn("strTrim", prop("name"))), 3).toCQL(ctx),
+      ).toBe("strLength(strTrim(name)) = 3");
+    });
+
+    it("should generate function calls in CQL2-JSON", () => {
+      expect(lt(fn("distance", prop("geom"), point), 1000).toCQLJSON()).toEqual(
+        {
+          op: "<",
+          args: [{ op: "distance", args: [{ property: "geom" }, point] }, 1000],
+        },
+      );
+    });
+
+    it("should reject empty function names", () => {
+      expect(() => fn("")).toThrowError(InvalidConditionError);
+    });
+  });
+
+  describe("function registry", () => {
+    it("should validate the arity of declared functions when serializing", () => {
+      const withFunctions = createCQLContext({ functions });
+      const condition = eq(fn("strToLowerCase", prop("a"), prop("b")), "x");
+
+      expect(condition.toCQL(ctx)).toBe("strToLowerCase(a, b) = 'x'");
+      expect(() => condition.toCQL(withFunctions)).toThrowError(
+        "Condition of type 'strToLowerCase' is missing required attribute: args (1 arguments).",
+      );
+    });
+
+    it("should create typed builders that validate arity", () => {
+      const { distance, strToLowerCase } = functionBuilders(functions);
+
+      expect(eq(strToLowerCase(prop("name")), "zurich").toCQL(ctx)).toBe(
+        "strToLowerCase(name) = 'zurich'",
+      );
+      expect(() =>
+        (distance as (...args: unknown[]) => unknown)(prop("geom")),
+      ).toThrowError(InvalidConditionError);
+    });
+  });
+});
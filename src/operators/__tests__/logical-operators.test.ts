@@ -45,4 +45,29 @@ describe("Logical Operators", () => {
       );
     });
   });
+
+  describe("toCQLJSON", () => {
+    it("should nest child expressions in args", () => {
+      const condition = or(
+        and(eq("status", "ACTIVE"), gt("age", 18)),
+        not(eq("deleted", true)),
+      );
+      expect(condition.toCQLJSON()).toEqual({
+        op: "or",
+        args: [
+          {
+            op: "and",
+            args: [
+              { op: "=", args: [{ property: "status" }, "ACTIVE"] },
+              { op: ">", args: [{ property: "age" }, 18] },
+            ],
+          },
+          {
+            op: "not",
+            args: [{ op: "=", args: [{ property: "deleted" }, true] }],
+          },
+        ],
+      });
+    });
+  });
 });
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import { add } from "../arithmetic-operators";
+import { between, gt, isIn, ne } from "../comparison-operators";
+import { prop } from "../property-reference";
+import { intersects, within } from "../spatial-operators";
+import { after, during } from "../temporal-operators";
+
+describe("Property References", () => {
+  const ctx = createCQLContext();
+  const cql2 = createCQLContext({ dialect: "cql2" });
+
+  it("should reject empty property names", () => {
+    expect(() => prop("")).toThrowError(InvalidConditionError);
+  });
+
+  describe("comparisons", () => {
+    it("should compare two properties", () => {
+      expect(gt("updated_at", prop("created_at")).toCQL(ctx)).toBe(
+        "updated_at > created_at",
+      );
+      expect(ne("actual_cost", prop("estimated_cost")).toCQL(ctx)).toBe(
+        "actual_cost <> estimated_cost",
+      );
+      expect(gt(add("a", 1), prop("b")).toCQL(ctx)).toBe("a + 1 > b");
+    });
+
+    it("should accept properties in between and lists", () => {
+      expect(between("value", prop("min"), prop("max")).toCQL(ctx)).toBe(
+        "value BETWEEN min AND max",
+      );
+      expect(isIn("owner", [prop("creator"), "admin"]).toCQL(ctx)).toBe(
+        "owner IN (creator, 'admin')",
+      );
+    });
+
+    it("should generate property arguments in CQL2-JSON", () => {
+      expect(gt("updated_at", prop("created_at")).toCQLJSON()).toEqual({
+        op: ">",
+        args: [{ property: "updated_at" }, { property: "created_at" }],
+      });
+      expect(isIn("owner", [prop("creator"), "admin"]).toCQLJSON()).toEqual({
+        op: "in",
+        args: [{ property: "owner" }, [{ property: "creator" }, "admin"]],
+      });
+    });
+  });
+
+  describe("temporal operators", () => {
+    it("should compare two temporal properties", () => {
+      expect(after("updated_at", prop("created_at")).toCQL(ctx)).toBe(
+        "AFTER(updated_at, created_at)",
+      );
+      expect(during("event", prop("season")).toCQL(cql2)).toBe(
+        "T_DURING(event, season)",
+      );
+      expect(after("updated_at", prop("created_at")).toCQLJSON()).toEqual({
+        op: "t_after",
+        args: [{ property: "updated_at" }, { property: "created_at" }],
+      });
+    });
+
+    it("should reject property operands in ECQL temporal predicates", () => {
+      const ecql = createCQLContext({ dialect: "ecql" });
+      expect(() =>
+        after("updated_at", prop("created_at")).toCQL(ecql),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+  });
+
+  describe("spatial operators", () => {
+    it("should compare two geometry properties", () => {
+      expect(intersects("geometry", prop("footprint")).toCQL(ctx)).toBe(
+        "INTERSECTS(geometry, footprint)",
+      );
+      expect(within("geometry", prop("region")).toCQL(cql2)).toBe(
+        "S_WITHIN(geometry, region)",
+      );
+      expect(intersects("geometry", prop("footprint")).toCQLJSON()).toEqual({
+        op: "s_intersects",
+        args: [{ property: "geometry" }, { property: "footprint" }],
+      });
+    });
+  });
+});
@@ -2,6 +2,11 @@ import type { Geometry } from "geojson";
 import { describe, expect, it } from "vitest";
 import { createCQLContext } from "../../cql-context";
 import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import {
+  bbox,
   crosses,
   disjoint,
   intersects,
@@ -104,4 +109,81 @@ describe("Spatial Operators", () => {
       expect(condition.toCQL(ctx)).toBe("EQUALS(geometry, POINT (0 0))");
     });
   });
+
+  describe("bounding boxes", () => {
+    const cql2 = createCQLContext({ dialect: "cql2" });
+    const ecql = createCQLContext({ dialect: "ecql" });
+
+    it("should write BBOX in CQL2 and ENVELOPE in the legacy and ECQL dialects", () => {
+      const condition = within("geometry", [-10, 40, 5, 52]);
+      expect(condition.toCQL(cql2)).toBe(
+        "S_WITHIN(geometry, BBOX(-10, 40, 5, 52))",
+      );
+      expect(condition.toCQL(ecql)).toBe(
+        "WITHIN(geometry, ENVELOPE(-10, 5, 52, 40))",
+      );
+      expect(condition.toCQL(ctx)).toBe(
+        "WITHIN(geometry, ENVELOPE(-10, 5, 52, 40))",
+      );
+    });
+
+    it("should write 3D bounding boxes only in CQL2", () => {
+      const condition = bbox("geometry", [0, 0, -100, 10, 10, 500]);
+      expect(condition.toCQL(cql2)).toBe(
+        "S_INTERSECTS(geometry, BBOX(0, 0, -100, 10, 10, 500))",
+      );
+      expect(() => condition.toCQL(ecql)).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+    });
+
+    it("should be written as a bbox literal in CQL2-JSON", () => {
+      expect(bbox("geometry", [-10, 40, 5, 52]).toCQLJSON()).toEqual({
+        op: "s_intersects",
+        args: [{ property: "geometry" }, { bbox: [-10, 40, 5, 52] }],
+      });
+    });
+
+    it("should reject arrays that are not bounding boxes", () => {
+      expect(() =>
+        intersects("geometry", [0, 0, 1] as unknown as Geometry),
+      ).toThrowError(InvalidConditionError);
+      expect(() => bbox("geometry", [0, 0, 1, Number.NaN])).toThrowError(
+        "geometry (bbox of 4 or 6 numbers, lower corner first)",
+      );
+      expect(() => bbox("geometry", [3, 4, 1, 2])).toThrowError(
+        InvalidConditionError,
+      );
+      expect(() => bbox("geometry", [0, 0, 10, 1, 1, 5])).toThrowError(
+        InvalidConditionError,
+      );
+    });
+
+    it("should accept bounding boxes crossing the antimeridian", () => {
+      expect(bbox("geometry", [170, -10, -170, 10]).toCQL(cql2)).toBe(
+        "S_INTERSECTS(geometry, BBOX(170, -10, -170, 10))",
+      );
+    });
+  });
+
+  describe("toCQLJSON", () => {
+    it("should pass GeoJSON geometries through unchanged", () => {
+      expect(intersects("geometry", polygonGeometry).toCQLJSON()).toEqual({
+        op: "s_intersects",
+        args: [{ property: "geometry" }, polygonGeometry],
+      });
+    });
+
+    it("should use the CQL2 operator names", () => {
+      expect(spatialContains("geometry", pointGeometry).toCQLJSON().op).toBe(
+        "s_contains",
+      );
+      expect(spatialEquals("geometry", pointGeometry).toCQLJSON().op).toBe(
+        "s_equals",
+      );
+      expect(crosses("geometry", lineStringGeometry).toCQLJSON().op).toBe(
+        "s_crosses",
+      );
+    });
+  });
 });
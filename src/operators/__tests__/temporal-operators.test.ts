@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
 import { createCQLContext } from "../../cql-context";
+import {
+  InvalidTemporalValueError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
 import {
   after,
   anyinteracts,
@@ -298,4 +302,123 @@ describe("Temporal Operators", () => {
       );
     });
   });
+
+  describe("toCQLJSON", () => {
+    it("should generate timestamp literals for instants", () => {
+      expect(after("eventDate", "2023-01-01T00:00:00Z").toCQLJSON()).toEqual({
+        op: "t_after",
+        args: [
+          { property: "eventDate" },
+          { timestamp: "2023-01-01T00:00:00Z" },
+        ],
+      });
+      expect(
+        before("eventDate", new Date("2023-06-15T12:00:00Z")).toCQLJSON(),
+      ).toEqual({
+        op: "t_before",
+        args: [
+          { property: "eventDate" },
+          { timestamp: "2023-06-15T12:00:00.000Z" },
+        ],
+      });
+    });
+
+    it("should generate interval literals for intervals", () => {
+      expect(
+        during("eventDate", {
+          start: "2023-01-01",
+          end: new Date("2023-12-31T00:00:00Z"),
+        }).toCQLJSON(),
+      ).toEqual({
+        op: "t_during",
+        args: [
+          { property: "eventDate" },
+          { interval: ["2023-01-01", "2023-12-31T00:00:00.000Z"] },
+        ],
+      });
+    });
+
+    it("should write dates and open interval bounds", () => {
+      expect(after("eventDate", "2023-01-01").toCQLJSON().args[1]).toEqual({
+        date: "2023-01-01",
+      });
+      expect(
+        during("eventDate", { start: "2023-01-01", end: null }).toCQLJSON()
+          .args[1],
+      ).toEqual({ interval: ["2023-01-01", ".."] });
+    });
+
+    it("should map operators onto the CQL2 temporal names", () => {
+      const instant = "2023-01-01T00:00:00Z";
+      expect(anyinteracts("d", instant).toCQLJSON().op).toBe("t_intersects");
+      expect(begins("d", instant).toCQLJSON().op).toBe("t_starts");
+      expect(begunby("d", instant).toCQLJSON().op).toBe("t_startedby");
+      expect(tcontains("d", instant).toCQLJSON().op).toBe("t_contains");
+      expect(endedby("d", instant).toCQLJSON().op).toBe("t_finishedby");
+      expect(ends("d", instant).toCQLJSON().op).toBe("t_finishes");
+      expect(tequals("d", instant).toCQLJSON().op).toBe("t_equals");
+      expect(meets("d", instant).toCQLJSON().op).toBe("t_meets");
+      expect(metby("d", instant).toCQLJSON().op).toBe("t_metby");
+      expect(toverlaps("d", instant).toCQLJSON().op).toBe("t_overlaps");
+      expect(overlappedby("d", instant).toCQLJSON().op).toBe("t_overlappedby");
+      expect(tintersects("d", instant).toCQLJSON().op).toBe("t_intersects");
+    });
+  });
+
+  describe("temporal values", () => {
+    it("should write plain dates as DATE literals", () => {
+      expect(after("eventDate", "2023-01-01").toCQL(ctx)).toBe(
+        "AFTER(eventDate, DATE('2023-01-01'))",
+      );
+      expect(
+        after("eventDate", "2023-01-01T00:00:00Z").toCQL(
+          createCQLContext({ dialect: "cql2" }),
+        ),
+      ).toBe("T_AFTER(eventDate, TIMESTAMP('2023-01-01T00:00:00Z'))");
+    });
+
+    it("should write open interval bounds as '..'", () => {
+      expect(
+        during("eventDate", { start: "2023-01-01", end: ".." }).toCQL(ctx),
+      ).toBe("DURING(eventDate, INTERVAL('2023-01-01', '..'))");
+      expect(
+        during("eventDate", {
+          start: null,
+          end: new Date("2023-12-31T00:00:00Z"),
+        }).toCQL(ctx),
+      ).toBe("DURING(eventDate, INTERVAL('..', '2023-12-31T00:00:00.000Z'))");
+    });
+
+    it("should reject open intervals in ECQL", () => {
+      expect(() =>
+        during("eventDate", { start: "2023-01-01", end: null }).toCQL(
+          createCQLContext({ dialect: "ecql" }),
+        ),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should reject malformed ISO 8601 values when the condition is built", () => {
+      expect(() => after("eventDate", "01/02/2023")).toThrowError(
+        InvalidTemporalValueError,
+      );
+      expect(() => after("eventDate", "2023-02-30")).toThrowError(
+        "Invalid temporal value for 'after': instant '2023-02-30' is not an ISO 8601 date or UTC timestamp.",
+      );
+      expect(() => before("eventDate", new Date("not a date"))).toThrowError(
+        "instant is an invalid Date",
+      );
+      expect(() =>
+        during("eventDate", { start: "2023-01-01", end: "2023-13-01" }),
+      ).toThrowError("interval end '2023-13-01'");
+      expect(() => after("eventDate", "2023-01-01T00:00")).toThrowError(
+        InvalidTemporalValueError,
+      );
+      expect(() =>
+        after("eventDate", "2023-01-01T00:00:00+02:00"),
+      ).toThrowError(InvalidTemporalValueError);
+      expect(() =>
+        during("eventDate", { start: "2023-12-31", end: "2023-01-01" }),
+      ).toThrowError("interval start is after its end");
+    });
+  });
 });
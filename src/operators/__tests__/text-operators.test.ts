@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
+import { conditionEquals } from "../../canonical";
 import { createCQLContext } from "../../cql-context";
+import { UnsupportedConditionTypeError } from "../../errors";
+import { evaluate } from "../../evaluator";
+import { parseCQL } from "../../parsers/cql-text-parser";
 import { contains, like } from "../text-operators";
 
 describe("Text Operators", () => {
@@ -22,5 +26,96 @@ describe("Text Operators", () => {
       const condition = contains("description", "important");
       expect(condition.toCQL(ctx)).toBe("description LIKE '%important%'");
     });
+
+    it("should escape wildcards in the substring", () => {
+      const condition = contains("code", "100%_a\\b");
+      expect(condition.toCQL(ctx)).toBe("code LIKE '%100\\%\\_a\\\\b%'");
+      expect(condition.toCQLJSON()).toEqual({
+        op: "like",
+        args: [{ property: "code" }, "%100\\%\\_a\\\\b%"],
+      });
+    });
+
+    it("should match the same values after a parse round trip", () => {
+      const condition = contains("code", "a_c%");
+      const parsed = parseCQL(condition.toCQL(ctx));
+      for (const code of ["xa_c%x", "xabc%x", "a_cd"]) {
+        expect(evaluate(parsed, { code })).toBe(evaluate(condition, { code }));
+      }
+      expect(evaluate(parsed, { code: "xa_c%x" })).toBe(true);
+      expect(conditionEquals(parsed, condition)).toBe(true);
+      expect(conditionEquals(contains("code", "x"), like("code", "%x%"))).toBe(
+        true,
+      );
+      expect(
+        conditionEquals(contains("code", "x%"), like("code", "%x%%")),
+      ).toBe(false);
+    });
+  });
+
+  describe("case- and accent-insensitive matching", () => {
+    const cql2 = createCQLContext({ dialect: "cql2" });
+
+    it("should wrap both sides in CASEI and ACCENTI", () => {
+      expect(
+        contains("name", "zurich", { caseInsensitive: true }).toCQL(cql2),
+      ).toBe("CASEI(name) LIKE CASEI('%zurich%')");
+      expect(
+        like("name", "Zür%", { accentInsensitive: true }).toCQL(cql2),
+      ).toBe("ACCENTI(name) LIKE ACCENTI('Zür%')");
+      expect(
+        like("name", "z%", {
+          caseInsensitive: true,
+          accentInsensitive: true,
+        }).toCQL(cql2),
+      ).toBe("ACCENTI(CASEI(name)) LIKE ACCENTI(CASEI('z%'))");
+    });
+
+    it("should write case-insensitive matches as ILIKE in ECQL", () => {
+      const ecql = createCQLContext({ dialect: "ecql" });
+      expect(
+        contains("name", "zurich", { caseInsensitive: true }).toCQL(ecql),
+      ).toBe("name ILIKE '%zurich%'");
+      expect(() =>
+        like("name", "Zür%", { accentInsensitive: true }).toCQL(ecql),
+      ).toThrowError("Unsupported condition type: ACCENTI (ecql).");
+    });
+
+    it("should reject the options in the legacy dialect", () => {
+      expect(() =>
+        like("name", "z%", { caseInsensitive: true }).toCQL(ctx),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+
+    it("should generate casei and accenti operations in CQL2-JSON", () => {
+      expect(
+        contains("name", "zurich", {
+          caseInsensitive: true,
+          accentInsensitive: true,
+        }).toCQLJSON(),
+      ).toEqual({
+        op: "like",
+        args: [
+          {
+            op: "accenti",
+            args: [{ op: "casei", args: [{ property: "name" }] }],
+          },
+          { op: "accenti", args: [{ op: "casei", args: ["%zurich%"] }] },
+        ],
+      });
+    });
+  });
+
+  describe("toCQLJSON", () => {
+    it("should generate a like operation for like and contains", () => {
+      expect(like("name", "A%").toCQLJSON()).toEqual({
+        op: "like",
+        args: [{ property: "name" }, "A%"],
+      });
+      expect(contains("description", "important").toCQLJSON()).toEqual({
+        op: "like",
+        args: [{ property: "description" }, "%important%"],
+      });
+    });
   });
 });
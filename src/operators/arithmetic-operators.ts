@@ -0,0 +1,166 @@
+import { formatJSONProperty } from "../cql-json";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  ArithmeticOperator,
+  CQLContext,
+  CQLJSONArgument,
+} from "./base-types";
+import { isExpression } from "./condition-guards";
+
+/**
+ * Binding strength of each operator; higher binds tighter.
+ */
+const PRECEDENCE: Record<ArithmeticOperator, number> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 2,
+  "%": 2,
+  div: 2,
+};
+
+/**
+ * Operators that only exist in CQL2. The legacy and ECQL dialects only write `+`, `-`, `*` and `/`.
+ */
+const CQL2_OPERATORS = new Set<ArithmeticOperator>(["%", "div"]);
+
+function isArithmeticOperand(value: unknown): value is ArithmeticOperand {
+  return (
+    (typeof value === "string" && value !== "") ||
+    (typeof value === "number" && Number.isFinite(value)) ||
+    (isExpression(value) &&
+      (value.kind === "arithmetic" || value.kind === "function"))
+  );
+}
+
+/**
+ * Formats an operand, adding parentheses when it would otherwise bind differently
+ * than its place in the tree, e.g. `(a + b) * c` or `a - (b - c)`.
+ */
+function formatArithmeticOperand(
+  ctx: CQLContext,
+  operand: ArithmeticOperand,
+  parent: ArithmeticOperator,
+  isRight: boolean,
+): string {
+  if (typeof operand === "string") {
+    return operand;
+  }
+  if (typeof operand === "number") {
+    return String(operand);
+  }
+  if (operand.kind === "function") {
+    return operand.toCQL(ctx);
+  }
+  const precedence = PRECEDENCE[operand.operator];
+  const parentPrecedence = PRECEDENCE[parent];
+  // Only `+` and `*` are associative, so equal precedence on the right needs parentheses otherwise
+  const associative =
+    operand.operator === parent && (parent === "+" || parent === "*");
+  const needsParentheses =
+    precedence < parentPrecedence ||
+    (isRight && precedence === parentPrecedence && !associative);
+  const cql = operand.toCQL(ctx);
+  return needsParentheses ? `(${cql})` : cql;
+}
+
+function formatJSONArithmeticOperand(
+  operand: ArithmeticOperand,
+): CQLJSONArgument {
+  if (typeof operand === "string") {
+    return formatJSONProperty(operand);
+  }
+  if (typeof operand === "number") {
+    return operand;
+  }
+  return operand.toCQLJSON();
+}
+
+function createArithmeticOperator(name: string, operator: ArithmeticOperator) {
+  return (
+    left: ArithmeticOperand,
+    right: ArithmeticOperand,
+  ): ArithmeticExpression => {
+    if (!isArithmeticOperand(left)) {
+      throw new InvalidConditionError(name, {}, "left operand");
+    }
+    if (!isArithmeticOperand(right)) {
+      throw new InvalidConditionError(name, {}, "right operand");
+    }
+    return {
+      kind: "arithmetic",
+      operator,
+      left,
+      right,
+      toCQL: (ctx) => {
+        if (CQL2_OPERATORS.has(operator) && ctx.dialect !== "cql2") {
+          throw new UnsupportedConditionTypeError(
+            `${name} (${ctx.dialect})`,
+            {},
+          );
+        }
+        return `${formatArithmeticOperand(ctx, left, operator, false)} ${operator} ${formatArithmeticOperand(ctx, right, operator, true)}`;
+      },
+      toCQLJSON: () => ({
+        op: operator,
+        args: [
+          formatJSONArithmeticOperand(left),
+          formatJSONArithmeticOperand(right),
+        ],
+      }),
+    };
+  };
+}
+
+/**
+ * Creates an addition (+) expression
+ * @example
+ * gt(add("price", "shipping"), 100) // price + shipping > 100
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const add = createArithmeticOperator("add", "+");
+
+/**
+ * Creates a subtraction (-) expression
+ * @example
+ * gte(sub("elevation", "base_height"), 10) // elevation - base_height >= 10
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const sub = createArithmeticOperator("sub", "-");
+
+/**
+ * Creates a multiplication (*) expression
+ * @example
+ * gt(mul("price", "quantity"), 1000) // price * quantity > 1000
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const mul = createArithmeticOperator("mul", "*");
+
+/**
+ * Creates a division (/) expression
+ * @example
+ * lt(div("population", "area"), 50) // population / area < 50
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const div = createArithmeticOperator("div", "/");
+
+/**
+ * Creates a modulo (%) expression. Only supported by the CQL2 dialect.
+ * @example
+ * eq(mod("id", 2), 0) // id % 2 = 0
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const mod = createArithmeticOperator("mod", "%");
+
+/**
+ * Creates an integer division (div) expression. Only supported by the CQL2 dialect.
+ * @example
+ * eq(intDiv("minutes", 60), 2) // minutes div 60 = 2
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export const intDiv = createArithmeticOperator("intDiv", "div");
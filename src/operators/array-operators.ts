@@ -0,0 +1,95 @@
+import { formatJSONProperty } from "../cql-json";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import type {
+  ArrayCondition,
+  ArrayOperator,
+  Condition,
+  PropertyReference,
+} from "./base-types";
+import { isExpression } from "./condition-guards";
+import { formatJSONOperand, formatOperand } from "./operands";
+
+function createArrayOperator(type: ArrayOperator, cql2Name: string) {
+  return (attr: string, values: unknown[] | PropertyReference): Condition => {
+    if (!attr) {
+      throw new InvalidConditionError(type, { type, attr }, "attr");
+    }
+    if (!isExpression(values) && !Array.isArray(values)) {
+      throw new InvalidConditionError(
+        type,
+        { type, attr, value: values },
+        "values (array)",
+      );
+    }
+    const condition: ArrayCondition = {
+      type,
+      attr,
+      value: values,
+      toCQL: (ctx) => {
+        // Arrays were introduced by CQL2, the legacy and ECQL dialects have no array literals
+        if (ctx.dialect !== "cql2") {
+          throw new UnsupportedConditionTypeError(
+            `${cql2Name} (${ctx.dialect})`,
+            condition,
+          );
+        }
+        const operand = isExpression(values)
+          ? values.toCQL(ctx)
+          : `(${values.map((value) => formatOperand(ctx, value)).join(", ")})`;
+        return `${cql2Name}(${attr}, ${operand})`;
+      },
+      toCQLJSON: () => ({
+        op: cql2Name.toLowerCase(),
+        args: [
+          formatJSONProperty(attr),
+          isExpression(values)
+            ? values.toCQLJSON()
+            : values.map(formatJSONOperand),
+        ],
+      }),
+    };
+    return condition;
+  };
+}
+
+/**
+ * Creates a condition where the array property holds exactly the given elements, in the same order.
+ * Array operators are only supported by the CQL2 dialect.
+ * @example
+ * aequals("tags", ["road", "bridge"]) // A_EQUALS(tags, ('road', 'bridge'))
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#array-functions OGC CQL2 - Array Functions}
+ */
+export const aequals = createArrayOperator("aequals", "A_EQUALS");
+
+/**
+ * Creates a condition where the array property contains every given element.
+ * Array operators are only supported by the CQL2 dialect.
+ * @example
+ * acontains("keywords", ["flood", "2023"]) // A_CONTAINS(keywords, ('flood', '2023'))
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#array-functions OGC CQL2 - Array Functions}
+ */
+export const acontains = createArrayOperator("acontains", "A_CONTAINS");
+
+/**
+ * Creates a condition where every element of the array property is one of the given elements.
+ * Array operators are only supported by the CQL2 dialect.
+ * @example
+ * acontainedby("tags", ["road", "bridge", "tunnel"]) // A_CONTAINEDBY(tags, ('road', 'bridge', 'tunnel'))
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#array-functions OGC CQL2 - Array Functions}
+ */
+export const acontainedby = createArrayOperator(
+  "acontainedby",
+  "A_CONTAINEDBY",
+);
+
+/**
+ * Creates a condition where the array property shares at least one element with the given elements.
+ * Array operators are only supported by the CQL2 dialect.
+ * @example
+ * aoverlaps("tags", ["road", "rail"]) // A_OVERLAPS(tags, ('road', 'rail'))
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#array-functions OGC CQL2 - Array Functions}
+ */
+export const aoverlaps = createArrayOperator("aoverlaps", "A_OVERLAPS");
@@ -1,5 +1,5 @@
 import type { Geometry } from "geojson";
-import type { Path, PathType } from "./path-type";
+import type { Path, PathOfType, PathType } from "./path-type";
 import type { TemporalOperator, TemporalValue } from "./temporal-operators";
 
 /**
@@ -42,27 +42,215 @@ export type SpatialOperator =
  */
 export type TextOperator = "like" | "contains";
 
+/**
+ * Array operators from the CQL2 Array Functions conformance class.
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#array-functions OGC CQL2 - Array Functions}
+ */
+export type ArrayOperator =
+  | "aequals"
+  | "acontains"
+  | "acontainedby"
+  | "aoverlaps";
+
+/**
+ * Arithmetic operators from the CQL2 Arithmetic conformance class.
+ * `div` is integer division.
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#arithmetic OGC CQL2 - Arithmetic Expressions}
+ */
+export type ArithmeticOperator = "+" | "-" | "*" | "/" | "%" | "div";
+
+/**
+ * Text encodings that conditions can be serialized to.
+ * - `legacy`: the output of earlier versions, kept for backward compatibility: unprefixed operator
+ *   names such as `INTERSECTS` and `ANYINTERACTS` and `TIMESTAMP`/`INTERVAL` literals. It is not
+ *   CQL 1.0, whose temporal predicates are infix; use `ecql` for servers that need those.
+ * - `cql2`: OGC CQL2 Text, with `S_` and `T_` prefixed spatial and temporal operators
+ * - `ecql`: GeoServer's Extended CQL, with infix temporal predicates
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL2}
+ * @see {@link https://docs.geoserver.org/latest/en/user/filter/ecql_reference.html GeoServer ECQL Reference}
+ */
+export type CQLDialect = "legacy" | "cql2" | "ecql";
+
+/**
+ * A bounding box `[minx, miny, maxx, maxy]`, or `[minx, miny, minz, maxx, maxy, maxz]` in 3D.
+ */
+export type BBox =
+  | [number, number, number, number]
+  | [number, number, number, number, number, number];
+
 /**
  * Context object providing formatting utilities for CQL serialization.
  */
 export interface CQLContext {
+  dialect: CQLDialect;
+  /** Declared function signatures, used to validate the arity of function calls */
+  functions: FunctionRegistry;
   formatValue: (value: unknown) => string;
   formatTemporalValue: (value: TemporalValue) => string;
+  formatGeometry: (operator: string, geometry: Geometry) => string;
   formatSpatialQuery: (
     operator: string,
     attr: string,
-    geometry: Geometry,
+    geometry: Geometry | BBox | PropertyReference,
   ) => string;
+  formatTemporalQuery: (
+    operator: string,
+    cql2Operator: string,
+    attr: string,
+    value: TemporalValue | PropertyReference,
+  ) => string;
+}
+
+/**
+ * A property reference in CQL2-JSON.
+ */
+export interface CQLJSONProperty {
+  property: string;
+}
+
+/**
+ * A temporal literal in CQL2-JSON.
+ */
+export type CQLJSONTemporal =
+  | { timestamp: string }
+  | { date: string }
+  | { interval: [string, string] };
+
+/**
+ * A bounding box literal in CQL2-JSON.
+ */
+export interface CQLJSONBBox {
+  bbox: BBox;
+}
+
+/**
+ * An argument of a CQL2-JSON operation.
+ * Geometries are passed through as GeoJSON.
+ */
+export type CQLJSONArgument =
+  | CQLJSONExpression
+  | CQLJSONProperty
+  | CQLJSONTemporal
+  | CQLJSONBBox
+  | Geometry
+  | string
+  | number
+  | boolean
+  | null
+  | CQLJSONArgument[];
+
+/**
+ * A CQL2-JSON operation, e.g. `{ "op": "=", "args": [{ "property": "status" }, "ACTIVE"] }`.
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#cql2-json OGC CQL2 - JSON Encoding}
+ */
+export interface CQLJSONExpression {
+  op: string;
+  args: CQLJSONArgument[];
+}
+
+export interface BaseExpression {
+  toCQL: (context: CQLContext) => string;
+  toCQLJSON: () => CQLJSONArgument;
+}
+
+/**
+ * Operands of an arithmetic expression: property names, numbers, function calls or nested expressions.
+ */
+export type ArithmeticOperand =
+  | string
+  | number
+  | ArithmeticExpression
+  | FunctionCall;
+
+export interface ArithmeticExpression extends BaseExpression {
+  kind: "arithmetic";
+  operator: ArithmeticOperator;
+  left: ArithmeticOperand;
+  right: ArithmeticOperand;
+  toCQLJSON: () => CQLJSONExpression;
+}
+
+/**
+ * A reference to another property, used to compare two properties of the same item.
+ * @typeParam V - The value type of the referenced property, used to check that both sides are compatible
+ */
+export interface PropertyReference<V = unknown> extends BaseExpression {
+  kind: "property";
+  name: string;
+  /** Type-level marker for the referenced value type; never set at runtime */
+  readonly valueType?: V;
+  toCQLJSON: () => CQLJSONProperty;
+}
+
+/**
+ * Value types that can be declared for function arguments and return values.
+ */
+export type FunctionValueType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "timestamp"
+  | "geometry"
+  | "any";
+
+/**
+ * Maps a declared function value type to the TypeScript type it accepts or returns.
+ */
+export type FunctionValue<V extends FunctionValueType> = {
+  string: string;
+  number: number;
+  boolean: boolean;
+  timestamp: Date | string;
+  geometry: Geometry;
+  any: unknown;
+}[V];
+
+/**
+ * The signature of a filter function, such as `strToLowerCase(string): string`.
+ */
+export interface FunctionSignature {
+  args: readonly FunctionValueType[];
+  returns: FunctionValueType;
+}
+
+/**
+ * Filter functions exposed by a server, keyed by function name.
+ */
+export type FunctionRegistry = Record<string, FunctionSignature>;
+
+/**
+ * A call to a filter function, such as `strToLowerCase(name)`.
+ * @typeParam R - The return type of the function, used to check the other side of a comparison
+ */
+export interface FunctionCall<R = unknown> extends BaseExpression {
+  kind: "function";
+  name: string;
+  /** Literals, GeoJSON geometries or expressions */
+  args: unknown[];
+  /** Type-level marker for the return type; never set at runtime */
+  readonly returnType?: R;
+  toCQLJSON: () => CQLJSONExpression;
 }
 
+/**
+ * Represents a scalar expression that can be used as an operand of a condition.
+ * Like conditions, expressions are self-serializing.
+ */
+export type Expression =
+  | ArithmeticExpression
+  | PropertyReference
+  | FunctionCall;
+
 export interface BaseCondition {
   toCQL: (context: CQLContext) => string;
+  toCQLJSON: () => CQLJSONExpression;
 }
 
 export interface ComparisonCondition extends BaseCondition {
   type: ComparisonOperator | "eq" | "ne";
-  attr: string;
+  attr: string | Expression;
   value: unknown;
+  options?: TextMatchOptions;
 }
 
 export interface LogicalCondition extends BaseCondition {
@@ -74,19 +262,42 @@ export interface LogicalCondition extends BaseCondition {
 export interface SpatialCondition extends BaseCondition {
   type: SpatialOperator | "eq";
   attr: string;
-  geometry: Geometry;
+  geometry: Geometry | BBox | PropertyReference;
 }
 
 export interface TemporalCondition extends BaseCondition {
   type: TemporalOperator;
   attr: string;
-  value: TemporalValue;
+  value: TemporalValue | PropertyReference;
 }
 
 export interface TextCondition extends BaseCondition {
   type: TextOperator;
   attr: string;
   value: unknown;
+  options?: TextMatchOptions;
+}
+
+/**
+ * Options for comparing strings regardless of case or accents.
+ * Both sides of the comparison are wrapped in the CQL2 `CASEI()` and `ACCENTI()` functions.
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#case-insensitive-comparison OGC CQL2 - Case-insensitive Comparison}
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#accent-insensitive-comparison OGC CQL2 - Accent-insensitive Comparison}
+ */
+export interface TextMatchOptions {
+  /** Ignore differences in case, e.g. `Zurich` matches `ZURICH` */
+  caseInsensitive?: boolean;
+  /** Ignore diacritics, e.g. `Zürich` matches `Zurich` */
+  accentInsensitive?: boolean;
+}
+
+/**
+ * A condition comparing an array-valued property with a list of values or another array property.
+ */
+export interface ArrayCondition extends BaseCondition {
+  type: ArrayOperator;
+  attr: string;
+  value: unknown[] | PropertyReference;
 }
 
 /**
@@ -98,61 +309,217 @@ export type Condition =
   | LogicalCondition
   | SpatialCondition
   | TemporalCondition
-  | TextCondition;
+  | TextCondition
+  | ArrayCondition;
+
+/**
+ * Operands accepted where a numeric value of `T` is expected:
+ * numeric paths, number literals and arithmetic expressions.
+ */
+export type NumericOperand<T> =
+  | PathOfType<T, number>
+  | number
+  | ArithmeticExpression
+  | FunctionCall<number>;
+
+/**
+ * Values accepted on the right-hand side of a comparison against the path `K`:
+ * a literal of the path's type, or a property reference or function call of the same type.
+ * Numeric paths can also be compared with arithmetic expressions.
+ * `NoInfer` keeps `K` from being widened by the type of a referenced property.
+ */
+export type ComparisonValue<T, K extends Path<T>> = NoInfer<
+  PathType<T, K> | ExpressionOfType<NonNullable<PathType<T, K>>>
+>;
+
+/**
+ * Expressions producing a value of type `V`: property references and function calls,
+ * plus arithmetic expressions for numbers.
+ */
+export type ExpressionOfType<V> =
+  | PropertyReference<V>
+  | FunctionCall<V>
+  | ([V] extends [number] ? ArithmeticExpression : never);
+
+/**
+ * A reference to a property whose value type matches the path `K`.
+ */
+export type CompatibleProperty<T, K extends Path<T>> = PropertyReference<
+  NonNullable<PathType<T, K>>
+>;
+
+/**
+ * A typed binary comparison. The left-hand side is a path, an arithmetic expression or a function call.
+ * Case- and accent-insensitive options are only accepted on string paths.
+ */
+export type TypedComparison<T> = {
+  <K extends Path<T>>(attr: K, value: ComparisonValue<T, K>): Condition;
+  <K extends PathOfType<T, string>>(
+    attr: K,
+    value: ComparisonValue<T, K>,
+    options: TextMatchOptions,
+  ): Condition;
+  (left: ArithmeticExpression, right: number | ArithmeticExpression): Condition;
+  <V>(
+    left: FunctionCall<V>,
+    right: NoInfer<V | ExpressionOfType<V>>,
+  ): Condition;
+};
+
+/**
+ * A typed text operator. Case- and accent-insensitive options are only accepted on string paths.
+ */
+export type TypedText<T> = {
+  <K extends Path<T>>(attr: K, value: string): Condition;
+  <K extends PathOfType<T, string>>(
+    attr: K,
+    value: string,
+    options: TextMatchOptions,
+  ): Condition;
+};
+
+/**
+ * A typed spatial operator, accepting a geometry, a bounding box or a reference to a compatible property.
+ */
+export type TypedSpatial<T> = <K extends Path<T>>(
+  attr: K,
+  geometry: Geometry | BBox | NoInfer<CompatibleProperty<T, K>>,
+) => Condition;
+
+/**
+ * A typed temporal operator, accepting a temporal value or a reference to a compatible property.
+ */
+export type TypedTemporal<T> = <K extends Path<T>>(
+  attr: K,
+  value: TemporalValue | NoInfer<CompatibleProperty<T, K>>,
+) => Condition;
+
+/**
+ * The element type of the array-valued path `K`.
+ */
+export type ArrayElement<T, K extends Path<T>> =
+  NonNullable<PathType<T, K>> extends readonly (infer E)[] ? E : unknown;
+
+/**
+ * A typed array operator. Only array-valued paths are accepted, compared with an array of
+ * compatible elements or a reference to another array property of the same type.
+ */
+export type TypedArray<T> = <K extends PathOfType<T, readonly unknown[]>>(
+  attr: K,
+  values:
+    | NoInfer<
+        ReadonlyArray<ArrayElement<T, K> | ExpressionOfType<ArrayElement<T, K>>>
+      >
+    | NoInfer<CompatibleProperty<T, K>>,
+) => Condition;
+
+/**
+ * A typed arithmetic expression builder that only accepts numeric operands.
+ */
+export type TypedArithmetic<T> = (
+  left: NumericOperand<T>,
+  right: NumericOperand<T>,
+) => ArithmeticExpression;
+
+/**
+ * Arguments accepted for a declared argument list: a literal of each declared type
+ * or an expression producing it.
+ */
+export type FunctionArguments<A extends readonly FunctionValueType[]> = {
+  -readonly [I in keyof A]: A[I] extends FunctionValueType
+    ? FunctionValue<A[I]> | ExpressionOfType<FunctionValue<A[I]>>
+    : never;
+};
+
+/**
+ * Typed builders for the functions of a registry.
+ */
+export type TypedFunctions<F extends FunctionRegistry> = {
+  [N in keyof F]: (
+    ...args: FunctionArguments<F[N]["args"]>
+  ) => FunctionCall<FunctionValue<F[N]["returns"]>>;
+};
 
 /**
  * Type-safe operators for building CQL filter conditions.
  * Includes all available CQL filter operators with proper type inference.
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Condition Expressions}
  */
-export type ConditionOperator<T extends Record<string, unknown>> = {
-  eq: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  ne: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  lt: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  lte: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  gt: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  gte: <K extends Path<T>>(attr: K, value: PathType<T, K>) => Condition;
-  between: <K extends Path<T>>(
+export type ConditionOperator<
+  T extends Record<string, unknown>,
+  F extends FunctionRegistry = Record<never, FunctionSignature>,
+> = {
+  eq: TypedComparison<T>;
+  ne: TypedComparison<T>;
+  lt: TypedComparison<T>;
+  lte: TypedComparison<T>;
+  gt: TypedComparison<T>;
+  gte: TypedComparison<T>;
+  between: {
+    <K extends Path<T>>(
+      attr: K,
+      lower: ComparisonValue<T, K>,
+      upper: ComparisonValue<T, K>,
+    ): Condition;
+    (
+      left: ArithmeticExpression,
+      lower: number | ArithmeticExpression,
+      upper: number | ArithmeticExpression,
+    ): Condition;
+  };
+  isIn: <K extends Path<T>>(
     attr: K,
-    lower: PathType<T, K>,
-    upper: PathType<T, K>,
+    values: Array<ComparisonValue<T, K>>,
   ) => Condition;
-  isIn: <K extends Path<T>>(attr: K, values: Array<PathType<T, K>>) => Condition;
   isNotIn: <K extends Path<T>>(
     attr: K,
-    values: Array<PathType<T, K>>,
+    values: Array<ComparisonValue<T, K>>,
   ) => Condition;
-  contains: <K extends Path<T>>(attr: K, value: string) => Condition;
-  like: <K extends Path<T>>(attr: K, value: string) => Condition;
+  contains: TypedText<T>;
+  like: TypedText<T>;
   isNull: <K extends Path<T>>(attr: K) => Condition;
   isNotNull: <K extends Path<T>>(attr: K) => Condition;
-  intersects: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  disjoint: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  spatialContains: <K extends Path<T>>(
-    attr: K,
-    geometry: Geometry,
-  ) => Condition;
-  within: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  touches: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  overlaps: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  crosses: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
-  spatialEquals: <K extends Path<T>>(attr: K, geometry: Geometry) => Condition;
+  intersects: TypedSpatial<T>;
+  disjoint: TypedSpatial<T>;
+  spatialContains: TypedSpatial<T>;
+  within: TypedSpatial<T>;
+  touches: TypedSpatial<T>;
+  overlaps: TypedSpatial<T>;
+  crosses: TypedSpatial<T>;
+  spatialEquals: TypedSpatial<T>;
+  bbox: <K extends Path<T>>(attr: K, extent: BBox) => Condition;
   // Temporal operators
-  anyinteracts: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  after: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  before: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  begins: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  begunby: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  tcontains: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  during: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  endedby: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  ends: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  tequals: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  meets: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  metby: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  toverlaps: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  overlappedby: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
-  tintersects: <K extends Path<T>>(attr: K, value: TemporalValue) => Condition;
+  anyinteracts: TypedTemporal<T>;
+  after: TypedTemporal<T>;
+  before: TypedTemporal<T>;
+  begins: TypedTemporal<T>;
+  begunby: TypedTemporal<T>;
+  tcontains: TypedTemporal<T>;
+  during: TypedTemporal<T>;
+  endedby: TypedTemporal<T>;
+  ends: TypedTemporal<T>;
+  tequals: TypedTemporal<T>;
+  meets: TypedTemporal<T>;
+  metby: TypedTemporal<T>;
+  toverlaps: TypedTemporal<T>;
+  overlappedby: TypedTemporal<T>;
+  tintersects: TypedTemporal<T>;
+  // Array operators
+  aequals: TypedArray<T>;
+  acontains: TypedArray<T>;
+  acontainedby: TypedArray<T>;
+  aoverlaps: TypedArray<T>;
+  // Property references
+  prop: <K extends Path<T>>(name: K) => CompatibleProperty<T, K>;
+  // Functions declared in the builder's function registry
+  fn: TypedFunctions<F>;
+  // Arithmetic expressions
+  add: TypedArithmetic<T>;
+  sub: TypedArithmetic<T>;
+  mul: TypedArithmetic<T>;
+  div: TypedArithmetic<T>;
+  mod: TypedArithmetic<T>;
+  intDiv: TypedArithmetic<T>;
   // Logical operators
   and: (...conditions: Condition[]) => Condition;
   or: (...conditions: Condition[]) => Condition;
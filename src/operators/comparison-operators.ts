@@ -1,15 +1,50 @@
+import { formatJSONProperty, negateJSON } from "../cql-json";
 import { InvalidConditionError } from "../errors";
-import type { ComparisonCondition, Condition } from "./base-types";
+import type {
+  ComparisonCondition,
+  Condition,
+  Expression,
+  TextMatchOptions,
+} from "./base-types";
+import { isExpression } from "./condition-guards";
+import {
+  formatAttribute,
+  formatInsensitive,
+  formatJSONAttribute,
+  formatJSONInsensitive,
+  formatJSONOperand,
+  formatOperand,
+} from "./operands";
 
 function createBinaryComparison(type: ComparisonCondition["type"], op: string) {
-  return (attr: string, value: unknown): Condition => {
+  return (
+    attr: string | Expression,
+    value: unknown,
+    options?: TextMatchOptions,
+  ): Condition => {
     if (!attr)
       throw new InvalidConditionError(type, { type, attr, value }, "attr");
+    // CASEI() and ACCENTI() only take strings
+    if (options && typeof value !== "string" && !isExpression(value))
+      throw new InvalidConditionError(
+        type,
+        { type, attr, value },
+        "value (string)",
+      );
     return {
       type,
       attr,
       value,
-      toCQL: (ctx) => `${attr} ${op} ${ctx.formatValue(value)}`,
+      ...(options && { options }),
+      toCQL: (ctx) =>
+        `${formatInsensitive(ctx, formatAttribute(ctx, attr), options)} ${op} ${formatInsensitive(ctx, formatOperand(ctx, value), options)}`,
+      toCQLJSON: () => ({
+        op,
+        args: [
+          formatJSONInsensitive(formatJSONAttribute(attr), options),
+          formatJSONInsensitive(formatJSONOperand(value), options),
+        ],
+      }),
     };
   };
 }
@@ -27,6 +62,10 @@ function createNullComparison(type: ComparisonCondition["type"], op: string) {
       attr,
       value: null,
       toCQL: () => `${attr} ${op}`,
+      toCQLJSON: () => {
+        const expression = { op: "isNull", args: [formatJSONProperty(attr)] };
+        return type === "ne" ? negateJSON(expression) : expression;
+      },
     };
   };
 }
@@ -52,16 +91,27 @@ function createInComparison(type: ComparisonCondition["type"], op: string) {
       value: values,
       toCQL: (ctx) => {
         const formattedValues = values
-          .map((v) => ctx.formatValue(v))
+          .map((v) => formatOperand(ctx, v))
           .join(", ");
         return `${attr} ${op} (${formattedValues})`;
       },
+      toCQLJSON: () => {
+        const expression = {
+          op: "in",
+          args: [formatJSONProperty(attr), values.map(formatJSONOperand)],
+        };
+        return type === "notIn" ? negateJSON(expression) : expression;
+      },
     };
   };
 }
 
 function createBetweenComparison() {
-  return (attr: string, lower: unknown, upper: unknown): Condition => {
+  return (
+    attr: string | Expression,
+    lower: unknown,
+    upper: unknown,
+  ): Condition => {
     if (!attr)
       throw new InvalidConditionError(
         "between",
@@ -73,21 +123,32 @@ function createBetweenComparison() {
       attr,
       value: [lower, upper],
       toCQL: (ctx) =>
-        `${attr} BETWEEN ${ctx.formatValue(lower)} AND ${ctx.formatValue(upper)}`,
+        `${formatAttribute(ctx, attr)} BETWEEN ${formatOperand(ctx, lower)} AND ${formatOperand(ctx, upper)}`,
+      toCQLJSON: () => ({
+        op: "between",
+        args: [
+          formatJSONAttribute(attr),
+          formatJSONOperand(lower),
+          formatJSONOperand(upper),
+        ],
+      }),
     };
   };
 }
 
 /**
- * Creates an equals (=) condition
+ * Creates an equals (=) condition.
+ * Pass `{ caseInsensitive, accentInsensitive }` to compare strings regardless of case or accents (CQL2 only).
  * @example
  * eq("status", "ACTIVE") // status = "ACTIVE"
+ * eq("city", "zurich", { caseInsensitive: true }) // CASEI(city) = CASEI('zurich')
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Comparison Operators}
  */
 export const eq = createBinaryComparison("eq", "=");
 
 /**
- * Creates a not equals (!=) condition
+ * Creates a not equals (!=) condition.
+ * Accepts the same case- and accent-insensitivity options as {@link eq}.
  * @example
  * ne("status", "DELETED") // status <> "DELETED"
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Comparison Operators}
@@ -114,6 +175,7 @@ export const lte = createBinaryComparison("lte", "<=");
  * Creates a greater than (>) condition
  * @example
  * gt("price", 100) // price > 100
+ * gt(mul("price", "quantity"), 1000) // price * quantity > 1000
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Comparison Operators}
  */
 export const gt = createBinaryComparison("gt", ">");
@@ -0,0 +1,160 @@
+import type { Geometry } from "geojson";
+import type {
+  ArrayCondition,
+  BBox,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+} from "./base-types";
+
+const COMPARISON_OPERATORS = new Set<string>([
+  "eq",
+  "ne",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "between",
+  "in",
+  "notIn",
+]);
+
+const LOGICAL_OPERATORS = new Set<string>(["and", "or", "not"]);
+
+const TEXT_OPERATORS = new Set<string>(["like", "contains"]);
+
+const TEMPORAL_OPERATORS = new Set<string>([
+  "anyinteracts",
+  "after",
+  "before",
+  "begins",
+  "begunby",
+  "tcontains",
+  "during",
+  "endedby",
+  "ends",
+  "tequals",
+  "meets",
+  "metby",
+  "toverlaps",
+  "overlappedby",
+  "tintersects",
+]);
+
+const ARRAY_OPERATORS = new Set<string>([
+  "aequals",
+  "acontains",
+  "acontainedby",
+  "aoverlaps",
+]);
+
+/**
+ * Checks whether a condition is a spatial condition.
+ * Spatial conditions share some type names with other families (`eq` for `spatialEquals`,
+ * `contains` for `spatialContains`), so they are identified by their geometry.
+ */
+export function isSpatialCondition(
+  condition: Condition,
+): condition is SpatialCondition {
+  return "geometry" in condition;
+}
+
+/**
+ * Checks whether a condition is a logical (`and`, `or`, `not`) condition.
+ */
+export function isLogicalCondition(
+  condition: Condition,
+): condition is LogicalCondition {
+  return LOGICAL_OPERATORS.has(condition.type);
+}
+
+/**
+ * Checks whether a condition is a temporal condition.
+ */
+export function isTemporalCondition(
+  condition: Condition,
+): condition is TemporalCondition {
+  return TEMPORAL_OPERATORS.has(condition.type);
+}
+
+/**
+ * Checks whether a condition is a text (`like`, `contains`) condition.
+ */
+export function isTextCondition(
+  condition: Condition,
+): condition is TextCondition {
+  return TEXT_OPERATORS.has(condition.type) && !isSpatialCondition(condition);
+}
+
+/**
+ * Checks whether a condition is an array (`aequals`, `acontains`, `acontainedby`, `aoverlaps`) condition.
+ */
+export function isArrayCondition(
+  condition: Condition,
+): condition is ArrayCondition {
+  return ARRAY_OPERATORS.has(condition.type);
+}
+
+/**
+ * Checks whether a condition is a comparison condition, including null checks.
+ */
+export function isComparisonCondition(
+  condition: Condition,
+): condition is ComparisonCondition {
+  return (
+    COMPARISON_OPERATORS.has(condition.type) && !isSpatialCondition(condition)
+  );
+}
+
+/**
+ * Checks whether a value is an expression, such as an arithmetic expression,
+ * rather than a literal value.
+ */
+export function isExpression(value: unknown): value is Expression {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "kind" in value &&
+    "toCQL" in value
+  );
+}
+
+/**
+ * Checks whether a value looks like a GeoJSON geometry: an object with a `type` and
+ * `coordinates`, or `geometries` for a geometry collection.
+ */
+export function isGeometry(value: unknown): value is Geometry {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    typeof value.type === "string" &&
+    ("coordinates" in value || "geometries" in value)
+  );
+}
+
+/**
+ * Checks whether a value is a 2D or 3D bounding box, i.e. an array of 4 or 6 finite numbers
+ * with the lower corner first. Only the longitudes may decrease, for a box that crosses the
+ * antimeridian.
+ */
+export function isBBox(value: unknown): value is BBox {
+  if (
+    !Array.isArray(value) ||
+    (value.length !== 4 && value.length !== 6) ||
+    !value.every((v) => typeof v === "number" && Number.isFinite(v))
+  ) {
+    return false;
+  }
+  const dimensions = value.length / 2;
+  for (let axis = 1; axis < dimensions; axis++) {
+    if (value[axis] > value[axis + dimensions]) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,97 @@
+import { formatJSONValue } from "../cql-json";
+import { InvalidConditionError } from "../errors";
+import type {
+  CQLContext,
+  CQLJSONArgument,
+  FunctionCall,
+  FunctionRegistry,
+  TypedFunctions,
+} from "./base-types";
+import { isExpression, isGeometry } from "./condition-guards";
+
+function formatArgument(ctx: CQLContext, name: string, arg: unknown): string {
+  if (isExpression(arg)) {
+    return arg.toCQL(ctx);
+  }
+  return isGeometry(arg) ? ctx.formatGeometry(name, arg) : ctx.formatValue(arg);
+}
+
+function formatJSONArgument(arg: unknown): CQLJSONArgument {
+  return isExpression(arg) ? arg.toCQLJSON() : formatJSONValue(arg);
+}
+
+function expectArity(name: string, expected: number, actual: number): void {
+  if (actual !== expected) {
+    throw new InvalidConditionError(name, {}, `args (${expected} arguments)`);
+  }
+}
+
+/**
+ * Creates a function call that can be used as an operand, like a property or an arithmetic expression.
+ * Strings are string literals, so properties are passed with {@link prop}; GeoJSON geometries are written as WKT.
+ * Calls to functions declared in the context's function registry are checked for the right number of arguments.
+ * @example
+ * eq(fn("strToLowerCase", prop("name")), "zurich") // strToLowerCase(name) = 'zurich'
+ * lt(fn("distance", prop("geom"), point), 1000) // distance(geom, POINT (0 0)) < 1000
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#functions OGC CQL2 - Functions}
+ */
+export function fn<R = unknown>(
+  name: string,
+  ...args: unknown[]
+): FunctionCall<R> {
+  if (!name) {
+    throw new InvalidConditionError("fn", {}, "name");
+  }
+  return {
+    kind: "function",
+    name,
+    args,
+    toCQL: (ctx) => {
+      const signature = ctx.functions[name];
+      if (signature) {
+        expectArity(name, signature.args.length, args.length);
+      }
+      const formatted = args.map((arg) => formatArgument(ctx, name, arg));
+      return `${name}(${formatted.join(", ")})`;
+    },
+    toCQLJSON: () => ({ op: name, args: args.map(formatJSONArgument) }),
+  };
+}
+
+/**
+ * Declares the signatures of the filter functions exposed by a server.
+ * The registry is passed to the QueryBuilder, which then offers typed builders for each function
+ * in the filter callback and checks the arity of every declared function when serializing.
+ * @example
+ * const functions = defineFunctions({
+ *   strToLowerCase: { args: ["string"], returns: "string" },
+ *   distance: { args: ["geometry", "geometry"], returns: "number" },
+ * });
+ * new QueryBuilder<Place, typeof functions>({ functions })
+ *   .filter((op) => op.eq(op.fn.strToLowerCase(op.prop("name")), "zurich"));
+ */
+export function defineFunctions<const F extends FunctionRegistry>(
+  functions: F,
+): F {
+  return functions;
+}
+
+/**
+ * Creates typed builders for the functions of a registry.
+ * The builders check the number of arguments as soon as a call is created.
+ * @example
+ * const { strToLowerCase } = functionBuilders(functions);
+ * eq(strToLowerCase(prop("name")), "zurich") // strToLowerCase(name) = 'zurich'
+ */
+export function functionBuilders<F extends FunctionRegistry>(
+  functions: F,
+): TypedFunctions<F> {
+  const builders: Record<string, (...args: unknown[]) => FunctionCall> = {};
+  for (const [name, signature] of Object.entries(functions)) {
+    builders[name] = (...args) => {
+      expectArity(name, signature.args.length, args.length);
+      return fn(name, ...args);
+    };
+  }
+  return builders as TypedFunctions<F>;
+}
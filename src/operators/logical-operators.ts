@@ -1,3 +1,4 @@
+import { negateJSON } from "../cql-json";
 import { InvalidConditionError } from "../errors";
 import type { Condition } from "./base-types";
 
@@ -22,6 +23,10 @@ export const and = (...conditions: Condition[]): Condition => {
     type: "and",
     conditions,
     toCQL: (ctx) => `(${conditions.map((c) => c.toCQL(ctx)).join(" AND ")})`,
+    toCQLJSON: () => ({
+      op: "and",
+      args: conditions.map((c) => c.toCQLJSON()),
+    }),
   };
 };
 
@@ -46,6 +51,10 @@ export const or = (...conditions: Condition[]): Condition => {
     type: "or",
     conditions,
     toCQL: (ctx) => `(${conditions.map((c) => c.toCQL(ctx)).join(" OR ")})`,
+    toCQLJSON: () => ({
+      op: "or",
+      args: conditions.map((c) => c.toCQLJSON()),
+    }),
   };
 };
 
@@ -63,5 +72,6 @@ export const not = (condition: Condition): Condition => {
     type: "not",
     condition,
     toCQL: (ctx) => `NOT (${condition.toCQL(ctx)})`,
+    toCQLJSON: () => negateJSON(condition.toCQLJSON()),
   };
 };
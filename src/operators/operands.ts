@@ -0,0 +1,162 @@
+import { formatJSONProperty, formatJSONValue } from "../cql-json";
+import { UnsupportedConditionTypeError } from "../errors";
+import type {
+  CQLContext,
+  CQLJSONArgument,
+  Expression,
+  TextMatchOptions,
+} from "./base-types";
+import { isExpression } from "./condition-guards";
+
+/**
+ * Formats the left-hand side of a condition, which is a property name or an expression.
+ *
+ * @param ctx The CQL context
+ * @param attr The property name or expression
+ * @returns The formatted CQL text
+ */
+export function formatAttribute(
+  ctx: CQLContext,
+  attr: string | Expression,
+): string {
+  return typeof attr === "string" ? attr : attr.toCQL(ctx);
+}
+
+/**
+ * Formats the left-hand side of a condition as a CQL2-JSON argument.
+ *
+ * @param attr The property name or expression
+ * @returns The property reference or expression
+ */
+export function formatJSONAttribute(
+  attr: string | Expression,
+): CQLJSONArgument {
+  return typeof attr === "string" ? formatJSONProperty(attr) : attr.toCQLJSON();
+}
+
+/**
+ * Formats a value operand, which is a literal or an expression.
+ *
+ * @param ctx The CQL context
+ * @param value The literal value or expression
+ * @returns The formatted CQL text
+ */
+export function formatOperand(ctx: CQLContext, value: unknown): string {
+  return isExpression(value) ? value.toCQL(ctx) : ctx.formatValue(value);
+}
+
+/**
+ * Formats a value operand as a CQL2-JSON argument.
+ *
+ * @param value The literal value or expression
+ * @returns The formatted CQL2-JSON argument
+ */
+export function formatJSONOperand(value: unknown): CQLJSONArgument {
+  return isExpression(value) ? value.toCQLJSON() : formatJSONValue(value);
+}
+
+/**
+ * Wraps one side of a comparison in `CASEI()` and `ACCENTI()` as requested by the options.
+ * Both functions only exist in CQL2.
+ *
+ * @param ctx The CQL context
+ * @param cql The formatted operand
+ * @param options The case- and accent-insensitivity options
+ * @returns The wrapped operand
+ * @throws UnsupportedConditionTypeError if the dialect is not CQL2
+ */
+export function formatInsensitive(
+  ctx: CQLContext,
+  cql: string,
+  options: TextMatchOptions | undefined,
+): string {
+  let result = cql;
+  if (options?.caseInsensitive) {
+    result = `CASEI(${result})`;
+  }
+  if (options?.accentInsensitive) {
+    result = `ACCENTI(${result})`;
+  }
+  if (result !== cql && ctx.dialect !== "cql2") {
+    const name = options?.caseInsensitive ? "CASEI" : "ACCENTI";
+    throw new UnsupportedConditionTypeError(`${name} (${ctx.dialect})`, {});
+  }
+  return result;
+}
+
+/**
+ * Wraps one side of a comparison in `casei` and `accenti` operations as requested by the options.
+ *
+ * @param arg The CQL2-JSON argument
+ * @param options The case- and accent-insensitivity options
+ * @returns The wrapped argument
+ */
+export function formatJSONInsensitive(
+  arg: CQLJSONArgument,
+  options: TextMatchOptions | undefined,
+): CQLJSONArgument {
+  let result = arg;
+  if (options?.caseInsensitive) {
+    result = { op: "casei", args: [result] };
+  }
+  if (options?.accentInsensitive) {
+    result = { op: "accenti", args: [result] };
+  }
+  return result;
+}
+
+/**
+ * Splits `CASEI()` and `ACCENTI()` wrappers off a parsed operand, which the parsers read as function calls.
+ *
+ * @param operand The parsed operand
+ * @returns The unwrapped operand, with the matching options when a wrapper was removed
+ */
+export function unwrapInsensitive(operand: unknown): {
+  operand: unknown;
+  options?: TextMatchOptions;
+} {
+  const options: TextMatchOptions = {};
+  let inner = operand;
+  while (
+    isExpression(inner) &&
+    inner.kind === "function" &&
+    inner.args.length === 1
+  ) {
+    const name = inner.name.toUpperCase();
+    if (name === "CASEI") {
+      options.caseInsensitive = true;
+    } else if (name === "ACCENTI") {
+      options.accentInsensitive = true;
+    } else {
+      break;
+    }
+    inner = inner.args[0];
+  }
+  return inner === operand ? { operand } : { operand: inner, options };
+}
+
+/**
+ * Checks whether both sides of a comparison were wrapped in the same `CASEI()` and `ACCENTI()` functions.
+ */
+export function isSameInsensitivity(
+  left: TextMatchOptions | undefined,
+  right: TextMatchOptions | undefined,
+): boolean {
+  return (
+    left !== undefined &&
+    right !== undefined &&
+    !!left.caseInsensitive === !!right.caseInsensitive &&
+    !!left.accentInsensitive === !!right.accentInsensitive
+  );
+}
+
+/**
+ * Returns the LIKE pattern that matches a substring literally: the `%` and `_` wildcards and the
+ * `\` escape character in the substring are escaped.
+ *
+ * @param value The substring
+ * @returns The pattern, wrapped in `%` wildcards
+ */
+export function containsPattern(value: unknown): string {
+  return `%${String(value).replace(/[\\%_]/g, "\\$&")}%`;
+}
@@ -76,3 +76,15 @@ export type PathType<
   : K extends keyof T
     ? T[K]
     : never;
+
+/**
+ * Paths of `T` whose value is assignable to `V`, ignoring null and undefined.
+ * Paths with an `unknown` value type are always included, so untyped records stay permissive.
+ */
+export type PathOfType<T, V> = {
+  [K in Path<T>]: unknown extends PathType<T, K>
+    ? K
+    : NonNullable<PathType<T, K>> extends V
+      ? K
+      : never;
+}[Path<T>];
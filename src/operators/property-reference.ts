@@ -0,0 +1,24 @@
+import { formatJSONProperty } from "../cql-json";
+import { InvalidConditionError } from "../errors";
+import type { PropertyReference } from "./base-types";
+
+/**
+ * Creates a reference to a property, so that two properties of the same item can be compared.
+ * Property references are accepted wherever a comparison, temporal or spatial operator takes a value.
+ * @example
+ * gt("updated_at", prop("created_at")) // updated_at > created_at
+ * ne("actual_cost", prop("estimated_cost")) // actual_cost <> estimated_cost
+ * after("updated_at", prop("created_at")) // AFTER(updated_at, created_at)
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#property-property OGC CQL2 - Property-Property Comparisons}
+ */
+export function prop<V = unknown>(name: string): PropertyReference<V> {
+  if (!name) {
+    throw new InvalidConditionError("prop", {}, "name");
+  }
+  return {
+    kind: "property",
+    name,
+    toCQL: () => name,
+    toCQLJSON: () => formatJSONProperty(name),
+  };
+}
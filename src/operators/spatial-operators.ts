@@ -1,9 +1,19 @@
 import type { Geometry } from "geojson";
+import { formatJSONProperty } from "../cql-json";
 import { InvalidConditionError } from "../errors";
-import type { Condition, SpatialCondition } from "./base-types";
+import type {
+  BBox,
+  Condition,
+  PropertyReference,
+  SpatialCondition,
+} from "./base-types";
+import { isBBox, isExpression } from "./condition-guards";
 
 function createSpatialOperator(type: SpatialCondition["type"], opName: string) {
-  return (attr: string, geometry: Geometry): Condition => {
+  return (
+    attr: string,
+    geometry: Geometry | BBox | PropertyReference,
+  ): Condition => {
     const errName =
       type === "eq"
         ? "spatialEquals"
@@ -16,17 +26,37 @@ function createSpatialOperator(type: SpatialCondition["type"], opName: string) {
     if (!geometry) {
       throw new InvalidConditionError(errName, { type, geometry }, "geometry");
     }
+    if (Array.isArray(geometry) && !isBBox(geometry)) {
+      throw new InvalidConditionError(
+        errName,
+        { type, attr },
+        "geometry (bbox of 4 or 6 numbers, lower corner first)",
+      );
+    }
     return {
       type,
       attr,
       geometry,
       toCQL: (ctx) => ctx.formatSpatialQuery(opName, attr, geometry),
+      toCQLJSON: () => ({
+        op: `s_${opName.toLowerCase()}`,
+        args: [
+          formatJSONProperty(attr),
+          isExpression(geometry)
+            ? geometry.toCQLJSON()
+            : isBBox(geometry)
+              ? { bbox: geometry }
+              : geometry,
+        ],
+      }),
     };
   };
 }
 
 /**
- * Creates a spatial INTERSECTS condition
+ * Creates a spatial INTERSECTS condition.
+ * Like all spatial operators it also accepts a `[minx, miny, maxx, maxy]` bounding box,
+ * written as `BBOX(...)` in CQL2 and `ENVELOPE(...)` in the legacy and ECQL dialects.
  * @example
  * intersects("geometry", { type: "Point", coordinates: [0, 0] })
  *  generates: INTERSECTS(geometry, POINT(0 0))
@@ -152,3 +182,16 @@ export const crosses = createSpatialOperator("crosses", "CROSSES");
  * @see {@link https:docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Spatial Operators}
  */
 export const spatialEquals = createSpatialOperator("eq", "EQUALS");
+
+/**
+ * Creates a condition matching geometries that intersect a bounding box, such as the current map viewport.
+ * Shorthand for `intersects(attr, extent)`.
+ * @example
+ * bbox("geometry", [-10, 40, 5, 52])
+ *  generates: INTERSECTS(geometry, ENVELOPE(-10, 5, 52, 40))
+ *  With the CQL2 dialect: S_INTERSECTS(geometry, BBOX(-10, 40, 5, 52))
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#basic-spatial-functions OGC CQL2 - Spatial Functions}
+ */
+export function bbox(attr: string, extent: BBox): Condition {
+  return intersects(attr, extent);
+}
@@ -1,5 +1,8 @@
+import { formatJSONProperty, formatJSONTemporalValue } from "../cql-json";
 import { InvalidConditionError } from "../errors";
-import type { Condition } from "./base-types";
+import type { Condition, PropertyReference } from "./base-types";
+import { isExpression } from "./condition-guards";
+import { validateTemporalValue } from "./temporal-values";
 
 /**
  * Temporal operator types as specified in OGC CQL2 spec
@@ -25,14 +28,24 @@ export type TemporalOperator =
   | "overlappedby"
   | "tintersects";
 
+/**
+ * A single point in time: an ISO 8601 date (`2023-01-01`) or timestamp (`2023-01-01T12:00:00Z`), or a Date object.
+ * Date strings are written as `DATE(...)` literals and everything else as `TIMESTAMP(...)`.
+ */
+export type TemporalInstant = string | Date;
+
+/**
+ * A bound of a temporal interval. `null` or `".."` leaves that end of the interval open.
+ */
+export type IntervalBound = TemporalInstant | null | "..";
+
 /**
  * Temporal value types that can be used in temporal operators
  * Supports ISO 8601 strings, Date objects, or temporal intervals
  */
 export type TemporalValue =
-  | string // ISO 8601 date/time string
-  | Date
-  | { start: string | Date; end: string | Date }; // Interval
+  | TemporalInstant
+  | { start: IntervalBound; end: IntervalBound }; // Interval
 
 /**
  * Creates a condition where the temporal property has any interaction with the given temporal value.
@@ -44,23 +57,37 @@ export type TemporalValue =
  *
  * @example
  * anyinteracts('eventDate', '2023-01-01')
- * // Returns: ANYINTERACTS(eventDate, TIMESTAMP('2023-01-01'))
+ * // Returns: ANYINTERACTS(eventDate, DATE('2023-01-01'))
  *
  * @example
  * anyinteracts('eventDate', { start: '2023-01-01', end: '2023-12-31' })
  * // Returns: ANYINTERACTS(eventDate, INTERVAL('2023-01-01', '2023-12-31'))
  */
 
-function createTemporalOperator(type: TemporalOperator, opName: string) {
-  return <_T>(attr: string, value: TemporalValue): Condition => {
+function createTemporalOperator(
+  type: TemporalOperator,
+  opName: string,
+  cql2Name: string,
+) {
+  return <_T>(
+    attr: string,
+    value: TemporalValue | PropertyReference,
+  ): Condition => {
     if (!attr) {
       throw new InvalidConditionError(type, { type, attr }, "attr");
     }
+    if (!isExpression(value)) {
+      validateTemporalValue(type, value);
+    }
     return {
       type,
       attr,
       value,
-      toCQL: (ctx) => `${opName}(${attr}, ${ctx.formatTemporalValue(value)})`,
+      toCQL: (ctx) => ctx.formatTemporalQuery(opName, cql2Name, attr, value),
+      toCQLJSON: () => ({
+        op: cql2Name.toLowerCase(),
+        args: [formatJSONProperty(attr), formatJSONTemporalValue(value)],
+      }),
     };
   };
 }
@@ -75,7 +102,7 @@ function createTemporalOperator(type: TemporalOperator, opName: string) {
  *
  * @example
  * anyinteracts('eventDate', '2023-01-01')
- * // Returns: ANYINTERACTS(eventDate, TIMESTAMP('2023-01-01'))
+ * // Returns: ANYINTERACTS(eventDate, DATE('2023-01-01'))
  *
  * @example
  * anyinteracts('eventDate', { start: '2023-01-01', end: '2023-12-31' })
@@ -84,6 +111,7 @@ function createTemporalOperator(type: TemporalOperator, opName: string) {
 export const anyinteracts = createTemporalOperator(
   "anyinteracts",
   "ANYINTERACTS",
+  "T_INTERSECTS",
 );
 
 /**
@@ -95,9 +123,9 @@ export const anyinteracts = createTemporalOperator(
  *
  * @example
  * after('eventDate', '2023-01-01')
- * // Returns: AFTER(eventDate, TIMESTAMP('2023-01-01'))
+ * // Returns: AFTER(eventDate, DATE('2023-01-01'))
  */
-export const after = createTemporalOperator("after", "AFTER");
+export const after = createTemporalOperator("after", "AFTER", "T_AFTER");
 
 /**
  * Creates a condition where the temporal property occurs before the given temporal value.
@@ -108,9 +136,9 @@ export const after = createTemporalOperator("after", "AFTER");
  *
  * @example
  * before('eventDate', '2023-12-31')
- * // Returns: BEFORE(eventDate, TIMESTAMP('2023-12-31'))
+ * // Returns: BEFORE(eventDate, DATE('2023-12-31'))
  */
-export const before = createTemporalOperator("before", "BEFORE");
+export const before = createTemporalOperator("before", "BEFORE", "T_BEFORE");
 
 /**
  * Creates a condition where the temporal interval property begins at the same instant
@@ -122,9 +150,9 @@ export const before = createTemporalOperator("before", "BEFORE");
  *
  * @example
  * begins('eventPeriod', '2023-01-01')
- * // Returns: BEGINS(eventPeriod, TIMESTAMP('2023-01-01'))
+ * // Returns: BEGINS(eventPeriod, DATE('2023-01-01'))
  */
-export const begins = createTemporalOperator("begins", "BEGINS");
+export const begins = createTemporalOperator("begins", "BEGINS", "T_STARTS");
 
 /**
  * Creates a condition where the temporal interval property is begun by the given temporal value.
@@ -135,9 +163,13 @@ export const begins = createTemporalOperator("begins", "BEGINS");
  *
  * @example
  * begunby('eventPeriod', '2023-01-01')
- * // Returns: BEGUNBY(eventPeriod, TIMESTAMP('2023-01-01'))
+ * // Returns: BEGUNBY(eventPeriod, DATE('2023-01-01'))
  */
-export const begunby = createTemporalOperator("begunby", "BEGUNBY");
+export const begunby = createTemporalOperator(
+  "begunby",
+  "BEGUNBY",
+  "T_STARTEDBY",
+);
 
 /**
  * Creates a condition where the temporal interval property contains the given temporal value.
@@ -148,9 +180,13 @@ export const begunby = createTemporalOperator("begunby", "BEGUNBY");
  *
  * @example
  * tcontains('eventPeriod', '2023-06-15')
- * // Returns: TCONTAINS(eventPeriod, TIMESTAMP('2023-06-15'))
+ * // Returns: TCONTAINS(eventPeriod, DATE('2023-06-15'))
  */
-export const tcontains = createTemporalOperator("tcontains", "TCONTAINS");
+export const tcontains = createTemporalOperator(
+  "tcontains",
+  "TCONTAINS",
+  "T_CONTAINS",
+);
 
 /**
  * Creates a condition where the temporal property occurs during the given temporal interval.
@@ -163,7 +199,7 @@ export const tcontains = createTemporalOperator("tcontains", "TCONTAINS");
  * during('eventDate', { start: '2023-01-01', end: '2023-12-31' })
  * // Returns: DURING(eventDate, INTERVAL('2023-01-01', '2023-12-31'))
  */
-export const during = createTemporalOperator("during", "DURING");
+export const during = createTemporalOperator("during", "DURING", "T_DURING");
 
 /**
  * Creates a condition where the temporal interval property is ended by the given temporal value.
@@ -174,9 +210,13 @@ export const during = createTemporalOperator("during", "DURING");
  *
  * @example
  * endedby('eventPeriod', '2023-12-31')
- * // Returns: ENDEDBY(eventPeriod, TIMESTAMP('2023-12-31'))
+ * // Returns: ENDEDBY(eventPeriod, DATE('2023-12-31'))
  */
-export const endedby = createTemporalOperator("endedby", "ENDEDBY");
+export const endedby = createTemporalOperator(
+  "endedby",
+  "ENDEDBY",
+  "T_FINISHEDBY",
+);
 
 /**
  * Creates a condition where the temporal interval property ends at the same instant
@@ -188,9 +228,9 @@ export const endedby = createTemporalOperator("endedby", "ENDEDBY");
  *
  * @example
  * ends('eventPeriod', '2023-12-31')
- * // Returns: ENDS(eventPeriod, TIMESTAMP('2023-12-31'))
+ * // Returns: ENDS(eventPeriod, DATE('2023-12-31'))
  */
-export const ends = createTemporalOperator("ends", "ENDS");
+export const ends = createTemporalOperator("ends", "ENDS", "T_FINISHES");
 
 /**
  * Creates a condition where the temporal property is equal to the given temporal value.
@@ -201,9 +241,9 @@ export const ends = createTemporalOperator("ends", "ENDS");
  *
  * @example
  * tequals('eventDate', '2023-01-01')
- * // Returns: TEQUALS(eventDate, TIMESTAMP('2023-01-01'))
+ * // Returns: TEQUALS(eventDate, DATE('2023-01-01'))
  */
-export const tequals = createTemporalOperator("tequals", "TEQUALS");
+export const tequals = createTemporalOperator("tequals", "TEQUALS", "T_EQUALS");
 
 /**
  * Creates a condition where the temporal interval property meets the given temporal value.
@@ -217,7 +257,7 @@ export const tequals = createTemporalOperator("tequals", "TEQUALS");
  * meets('eventPeriod', { start: '2023-07-01', end: '2023-12-31' })
  * // Returns: MEETS(eventPeriod, INTERVAL('2023-07-01', '2023-12-31'))
  */
-export const meets = createTemporalOperator("meets", "MEETS");
+export const meets = createTemporalOperator("meets", "MEETS", "T_MEETS");
 
 /**
  * Creates a condition where the temporal interval property is met by the given temporal value.
@@ -231,7 +271,7 @@ export const meets = createTemporalOperator("meets", "MEETS");
  * metby('eventPeriod', { start: '2022-07-01', end: '2023-01-01' })
  * // Returns: METBY(eventPeriod, INTERVAL('2022-07-01', '2023-01-01'))
  */
-export const metby = createTemporalOperator("metby", "METBY");
+export const metby = createTemporalOperator("metby", "METBY", "T_METBY");
 
 /**
  * Creates a condition where the temporal interval property overlaps the given temporal interval.
@@ -244,7 +284,11 @@ export const metby = createTemporalOperator("metby", "METBY");
  * toverlaps('eventPeriod', { start: '2023-06-01', end: '2023-12-31' })
  * // Returns: TOVERLAPS(eventPeriod, INTERVAL('2023-06-01', '2023-12-31'))
  */
-export const toverlaps = createTemporalOperator("toverlaps", "TOVERLAPS");
+export const toverlaps = createTemporalOperator(
+  "toverlaps",
+  "TOVERLAPS",
+  "T_OVERLAPS",
+);
 
 /**
  * Creates a condition where the temporal interval property is overlapped by the given temporal interval.
@@ -260,6 +304,7 @@ export const toverlaps = createTemporalOperator("toverlaps", "TOVERLAPS");
 export const overlappedby = createTemporalOperator(
   "overlappedby",
   "OVERLAPPEDBY",
+  "T_OVERLAPPEDBY",
 );
 
 /**
@@ -274,4 +319,8 @@ export const overlappedby = createTemporalOperator(
  * tintersects('eventDate', { start: '2023-01-01', end: '2023-12-31' })
  * // Returns: TINTERSECTS(eventDate, INTERVAL('2023-01-01', '2023-12-31'))
  */
-export const tintersects = createTemporalOperator("tintersects", "TINTERSECTS");
+export const tintersects = createTemporalOperator(
+  "tintersects",
+  "TINTERSECTS",
+  "T_INTERSECTS",
+);
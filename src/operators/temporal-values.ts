@@ -0,0 +1,169 @@
+import { InvalidTemporalValueError } from "../errors";
+import type { IntervalBound, TemporalValue } from "./temporal-operators";
+
+/**
+ * ISO 8601 calendar dates, e.g. `2023-01-01`.
+ */
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * UTC timestamps as CQL2 writes them, `hh:mm:ss` with optional fractional seconds and a `Z`,
+ * e.g. `2023-01-01T12:00:00Z`.
+ */
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?Z$/;
+
+/**
+ * Checks whether the year, month and day name an existing day, e.g. rejecting `2023-02-30`.
+ */
+function isCalendarDate(year: string, month: string, day: string): boolean {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return (
+    date.getUTCFullYear() === Number(year) &&
+    date.getUTCMonth() === Number(month) - 1 &&
+    date.getUTCDate() === Number(day)
+  );
+}
+
+/**
+ * Checks whether a value is an ISO 8601 calendar date without a time, such as `2023-01-01`.
+ */
+export function isDateString(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+/**
+ * A `DATE` literal used as a comparison value. It is the `Date` of midnight UTC, so it is
+ * evaluated and translated like any other date, but it is written back as a date.
+ */
+export class CalendarDate extends Date {
+  /**
+   * @param isoDate The ISO 8601 calendar date, e.g. `2023-01-01`
+   */
+  constructor(public readonly isoDate: string) {
+    super(`${isoDate}T00:00:00Z`);
+  }
+}
+
+/**
+ * Checks whether an interval bound is open, i.e. `null` or `".."`.
+ */
+export function isOpenBound(value: IntervalBound): value is null | ".." {
+  return value === null || value === "..";
+}
+
+/**
+ * Checks whether a string is an ISO 8601 calendar date naming an existing day, e.g. `2023-01-01`.
+ */
+export function isISODate(value: string): boolean {
+  const date = DATE_PATTERN.exec(value);
+  return (
+    date !== null && isCalendarDate(date[1] ?? "", date[2] ?? "", date[3] ?? "")
+  );
+}
+
+/**
+ * Checks whether a string is a CQL2 UTC timestamp naming an existing point in time,
+ * e.g. `2023-01-01T12:00:00Z`.
+ */
+export function isISOTimestamp(value: string): boolean {
+  const timestamp = TIMESTAMP_PATTERN.exec(value);
+  return (
+    timestamp !== null &&
+    isCalendarDate(
+      timestamp[1] ?? "",
+      timestamp[2] ?? "",
+      timestamp[3] ?? "",
+    ) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Checks whether a string is a well-formed ISO 8601 date or UTC timestamp naming an existing point in time.
+ */
+function isISOInstant(value: string): boolean {
+  return isISODate(value) || isISOTimestamp(value);
+}
+
+function validateInstant(type: string, value: unknown, label: string): void {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new InvalidTemporalValueError(
+        type,
+        value,
+        `${label} is an invalid Date`,
+      );
+    }
+    return;
+  }
+  if (typeof value !== "string" || !isISOInstant(value)) {
+    throw new InvalidTemporalValueError(
+      type,
+      value,
+      `${label} '${String(value)}' is not an ISO 8601 date or UTC timestamp`,
+    );
+  }
+}
+
+/**
+ * Validates a temporal value before it is used in a condition, so malformed
+ * values are reported when the condition is built rather than sent to a server.
+ *
+ * @param type The condition type, reported in errors
+ * @param value The instant or interval to validate
+ * @throws InvalidTemporalValueError if an instant or interval bound is not valid ISO 8601
+ */
+export function validateTemporalValue(
+  type: string,
+  value: TemporalValue,
+): void {
+  if (typeof value === "object" && value !== null && !(value instanceof Date)) {
+    if (!("start" in value) || !("end" in value)) {
+      throw new InvalidTemporalValueError(
+        type,
+        value,
+        "intervals need a start and an end",
+      );
+    }
+    if (!isOpenBound(value.start)) {
+      validateInstant(type, value.start, "interval start");
+    }
+    if (!isOpenBound(value.end)) {
+      validateInstant(type, value.end, "interval end");
+    }
+    if (
+      !isOpenBound(value.start) &&
+      !isOpenBound(value.end) &&
+      new Date(value.start).getTime() > new Date(value.end).getTime()
+    ) {
+      throw new InvalidTemporalValueError(
+        type,
+        value,
+        "interval start is after its end",
+      );
+    }
+    return;
+  }
+  validateInstant(type, value, "instant");
+}
+
+/**
+ * Formats a temporal value as an OGC API `datetime` parameter: an RFC 3339 instant, or an
+ * interval `start/end` in which open bounds are written as `..`.
+ *
+ * @param value The instant or interval
+ * @returns The parameter value, e.g. `2023-01-01T00:00:00Z/..`
+ */
+export function formatDatetimeParameter(value: TemporalValue): string {
+  const format = (bound: IntervalBound) =>
+    isOpenBound(bound)
+      ? ".."
+      : bound instanceof Date
+        ? bound.toISOString()
+        : bound;
+  if (value instanceof Date || typeof value === "string") {
+    return format(value);
+  }
+  return `${format(value.start)}/${format(value.end)}`;
+}
@@ -1,11 +1,21 @@
+import { formatJSONProperty, formatJSONValue } from "../cql-json";
 import { InvalidConditionError } from "../errors";
-import type { Condition, CQLContext, TextCondition } from "./base-types";
+import type { Condition, TextCondition, TextMatchOptions } from "./base-types";
+import {
+  containsPattern,
+  formatInsensitive,
+  formatJSONInsensitive,
+} from "./operands";
 
 function createTextOperator(
   type: TextCondition["type"],
-  formatter: (ctx: CQLContext, val: unknown) => string,
+  toPattern: (val: unknown) => unknown,
 ) {
-  return (attr: string, value: unknown): Condition => {
+  return (
+    attr: string,
+    value: unknown,
+    options?: TextMatchOptions,
+  ): Condition => {
     const errName = type === "contains" ? "contains (text)" : type;
     if (!attr) throw new InvalidConditionError(errName, { type, attr }, "attr");
     if (value === undefined)
@@ -14,27 +24,49 @@ function createTextOperator(
       type,
       attr,
       value,
-      toCQL: (ctx) => `${attr} LIKE ${formatter(ctx, value)}`,
+      ...(options && { options }),
+      toCQL: (ctx) => {
+        const pattern = ctx.formatValue(toPattern(value));
+        // GeoServer has no CASEI(), but its ILIKE operator matches regardless of case
+        if (
+          ctx.dialect === "ecql" &&
+          options?.caseInsensitive &&
+          !options.accentInsensitive
+        ) {
+          return `${attr} ILIKE ${pattern}`;
+        }
+        return `${formatInsensitive(ctx, attr, options)} LIKE ${formatInsensitive(ctx, pattern, options)}`;
+      },
+      toCQLJSON: () => ({
+        op: "like",
+        args: [
+          formatJSONInsensitive(formatJSONProperty(attr), options),
+          formatJSONInsensitive(formatJSONValue(toPattern(value)), options),
+        ],
+      }),
     };
   };
 }
 
 /**
- * Creates a LIKE condition with a wildcard pattern
+ * Creates a LIKE condition with a wildcard pattern.
+ * Pass `{ caseInsensitive, accentInsensitive }` to match regardless of case or accents.
+ * These use the CQL2 `CASEI()` and `ACCENTI()` functions; ECQL writes case-insensitive matches with `ILIKE`.
  * @example
  * like("name", "A%") // name LIKE 'A%'
+ * like("name", "z%", { caseInsensitive: true }) // CASEI(name) LIKE CASEI('z%')
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Text Operators}
  */
-export const like = createTextOperator("like", (ctx, val) =>
-  ctx.formatValue(val),
-);
+export const like = createTextOperator("like", (val) => val);
 
 /**
- * Creates a condition that checks if a string contains a substring
+ * Creates a condition that checks if a string contains a substring.
+ * The substring is matched literally: `%`, `_` and `\` in it are escaped with `\`.
+ * Accepts the same case- and accent-insensitivity options as {@link like}.
  * @example
  * contains("description", "important") // description LIKE '%important%'
+ * contains("description", "100%") // description LIKE '%100\%%'
+ * contains("city", "zurich", { caseInsensitive: true }) // CASEI(city) LIKE CASEI('%zurich%')
  * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL - Text Operators}
  */
-export const contains = createTextOperator("contains", (ctx, val) =>
-  ctx.formatValue(`%${val}%`),
-);
+export const contains = createTextOperator("contains", containsPattern);
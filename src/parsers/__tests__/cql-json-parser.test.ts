@@ -0,0 +1,415 @@
+import type { Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import { add, mul, sub } from "../../operators/arithmetic-operators";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  ne,
+} from "../../operators/comparison-operators";
+import { and, not, or } from "../../operators/logical-operators";
+import {
+  disjoint,
+  intersects,
+  spatialEquals,
+  within,
+} from "../../operators/spatial-operators";
+import {
+  after,
+  begins,
+  during,
+  endedby,
+  tintersects,
+} from "../../operators/temporal-operators";
+import { contains, like } from "../../operators/text-operators";
+import { fromCQLJSON } from "../cql-json-parser";
+
+describe("fromCQLJSON", () => {
+  const ctx = createCQLContext();
+
+  const polygon: Geometry = {
+    type: "Polygon",
+    coordinates: [
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+        [0, 0],
+      ],
+    ],
+  };
+
+  describe("conditions", () => {
+    it("should read comparisons into comparison conditions", () => {
+      const condition = fromCQLJSON({
+        op: "=",
+        args: [{ property: "status" }, "ACTIVE"],
+      });
+      expect(condition).toMatchObject({
+        type: "eq",
+        attr: "status",
+        value: "ACTIVE",
+      });
+      expect(condition.toCQL(ctx)).toBe("status = 'ACTIVE'");
+    });
+
+    it("should read timestamp literals in comparisons as dates", () => {
+      expect(
+        fromCQLJSON({
+          op: ">",
+          args: [
+            { property: "createdAt" },
+            { timestamp: "2023-01-01T00:00:00Z" },
+          ],
+        }),
+      ).toMatchObject({
+        type: "gt",
+        value: new Date("2023-01-01T00:00:00Z"),
+      });
+    });
+
+    it("should keep date literals in comparisons as dates", () => {
+      const json = {
+        op: ">=",
+        args: [{ property: "updated" }, { date: "2023-01-01" }],
+      };
+      expect(fromCQLJSON(json).toCQLJSON()).toEqual(json);
+      expect(fromCQLJSON(json).toCQL(ctx)).toBe(
+        "updated >= DATE('2023-01-01')",
+      );
+    });
+
+    it("should reject invalid timestamp and date literals", () => {
+      expect(() =>
+        fromCQLJSON({
+          op: ">",
+          args: [
+            { property: "createdAt" },
+            { timestamp: "2023-13-45T00:00:00Z" },
+          ],
+        }),
+      ).toThrowError(
+        "Condition of type '>' is missing required attribute: timestamp (UTC, e.g. 2023-01-01T00:00:00Z) at '/args/1/timestamp'.",
+      );
+      expect(() =>
+        fromCQLJSON({
+          op: "=",
+          args: [{ property: "day" }, { date: "2023-02-30" }],
+        }),
+      ).toThrowError(InvalidConditionError);
+    });
+
+    it("should collapse negated null checks and lists", () => {
+      expect(
+        fromCQLJSON({
+          op: "not",
+          args: [{ op: "isNull", args: [{ property: "email" }] }],
+        }).toCQL(ctx),
+      ).toBe("email IS NOT NULL");
+      expect(
+        fromCQLJSON({
+          op: "not",
+          args: [{ op: "in", args: [{ property: "level" }, [4, 5]] }],
+        }).toCQL(ctx),
+      ).toBe("level NOT IN (4, 5)");
+    });
+
+    it("should read arithmetic expressions as comparison operands", () => {
+      const condition = fromCQLJSON({
+        op: ">",
+        args: [
+          { op: "*", args: [{ property: "price" }, { property: "quantity" }] },
+          { op: "+", args: [1000, { property: "fee" }] },
+        ],
+      });
+      expect(condition.toCQL(ctx)).toBe("price * quantity > 1000 + fee");
+      expect(() =>
+        fromCQLJSON({
+          op: "=",
+          args: [{ op: "+", args: [{ property: "a" }, "1"] }, 2],
+        }),
+      ).toThrowError("arithmetic operand at '/args/0/args/1'");
+    });
+
+    it("should read property references as operands", () => {
+      expect(
+        fromCQLJSON({
+          op: ">",
+          args: [{ property: "updated_at" }, { property: "created_at" }],
+        }).toCQL(ctx),
+      ).toBe("updated_at > created_at");
+      expect(
+        fromCQLJSON({
+          op: "in",
+          args: [{ property: "owner" }, [{ property: "creator" }, "admin"]],
+        }).toCQL(ctx),
+      ).toBe("owner IN (creator, 'admin')");
+      expect(
+        fromCQLJSON({
+          op: "s_intersects",
+          args: [{ property: "geometry" }, { property: "footprint" }],
+        }).toCQL(ctx),
+      ).toBe("INTERSECTS(geometry, footprint)");
+      expect(
+        fromCQLJSON({
+          op: "t_after",
+          args: [{ property: "updated_at" }, { property: "created_at" }],
+        }).toCQL(ctx),
+      ).toBe("AFTER(updated_at, created_at)");
+    });
+
+    it("should read other operations in operand position as function calls", () => {
+      const condition = fromCQLJSON({
+        op: "<",
+        args: [
+          {
+            op: "distance",
+            args: [
+              { property: "geom" },
+              { type: "Point", coordinates: [0, 0] },
+            ],
+          },
+          { op: "+", args: [{ op: "abs", args: [-5] }, 1] },
+        ],
+      });
+      expect(condition.toCQL(ctx)).toBe(
+        "distance(geom, POINT (0 0)) < abs(-5) + 1",
+      );
+    });
+
+    it("should read casei and accenti on both sides as options", () => {
+      expect(
+        fromCQLJSON({
+          op: "like",
+          args: [
+            { op: "casei", args: [{ property: "name" }] },
+            { op: "casei", args: ["%zurich%"] },
+          ],
+        }),
+      ).toMatchObject({
+        type: "like",
+        attr: "name",
+        options: { caseInsensitive: true },
+      });
+      expect(
+        fromCQLJSON({
+          op: "=",
+          args: [{ op: "accenti", args: [{ property: "city" }] }, "Zürich"],
+        }),
+      ).toMatchObject({ attr: { kind: "function", name: "accenti" } });
+    });
+
+    it("should read bbox literals", () => {
+      expect(
+        fromCQLJSON({
+          op: "s_intersects",
+          args: [{ property: "geometry" }, { bbox: [-10, 40, 5, 52] }],
+        }),
+      ).toMatchObject({ type: "intersects", geometry: [-10, 40, 5, 52] });
+      expect(() =>
+        fromCQLJSON({
+          op: "s_intersects",
+          args: [{ property: "geometry" }, { bbox: [0, 0, 1] }],
+        }),
+      ).toThrowError(
+        "bbox of 4 or 6 numbers, lower corner first at '/args/1/bbox'",
+      );
+    });
+
+    it("should read array operations", () => {
+      expect(
+        fromCQLJSON({
+          op: "a_containedby",
+          args: [{ property: "tags" }, ["road", "bridge"]],
+        }),
+      ).toMatchObject({
+        type: "acontainedby",
+        attr: "tags",
+        value: ["road", "bridge"],
+      });
+      expect(() =>
+        fromCQLJSON({ op: "a_equals", args: [{ property: "tags" }, "road"] }),
+      ).toThrowError("values (array) at '/args/1'");
+    });
+
+    it("should read spatial operations with GeoJSON geometries", () => {
+      expect(
+        fromCQLJSON({
+          op: "s_within",
+          args: [{ property: "geometry" }, polygon],
+        }),
+      ).toMatchObject({ type: "within", attr: "geometry", geometry: polygon });
+    });
+
+    it("should read temporal operations into temporal values", () => {
+      expect(
+        fromCQLJSON({
+          op: "t_during",
+          args: [
+            { property: "eventDate" },
+            { interval: ["2023-01-01", { timestamp: "2023-12-31T00:00:00Z" }] },
+          ],
+        }),
+      ).toMatchObject({
+        type: "during",
+        value: { start: "2023-01-01", end: "2023-12-31T00:00:00Z" },
+      });
+      expect(
+        fromCQLJSON({
+          op: "t_finishedby",
+          args: [{ property: "period" }, { date: "2023-12-31" }],
+        }),
+      ).toMatchObject({ type: "endedby", value: "2023-12-31" });
+    });
+
+    it("should express t_disjoint as a negated intersection", () => {
+      expect(
+        fromCQLJSON({
+          op: "t_disjoint",
+          args: [{ property: "period" }, { timestamp: "2023-01-01T00:00:00Z" }],
+        }).toCQL(ctx),
+      ).toBe("NOT (TINTERSECTS(period, TIMESTAMP('2023-01-01T00:00:00Z')))");
+    });
+  });
+
+  describe("round-tripping", () => {
+    const conditions = [
+      eq("status", "ACTIVE"),
+      ne("name", "It's"),
+      gt("createdAt", new Date("2023-01-01")),
+      between("age", 18, 65),
+      isIn("code", [1, 2, 3]),
+      isNotIn("status", ["DELETED", "ARCHIVED"]),
+      isNull("deletedAt"),
+      isNotNull("email"),
+      like("name", "A%"),
+      contains("description", "important"),
+      intersects("geometry", { type: "Point", coordinates: [0, 0] }),
+      disjoint("geometry", polygon),
+      spatialEquals("geometry", polygon),
+      within("geometry", {
+        type: "GeometryCollection",
+        geometries: [polygon],
+      }),
+      after("eventDate", new Date("2023-06-15T12:00:00Z")),
+      begins("eventPeriod", "2023-01-01T00:00:00Z"),
+      endedby("eventPeriod", "2023-12-31T23:59:59Z"),
+      during("eventDate", { start: "2023-01-01", end: "2023-12-31" }),
+      tintersects("eventDate", { start: "2023-01-01", end: "2023-12-31" }),
+      gt(mul(add("price", "tax"), "quantity"), 1000),
+      between(sub("elevation", "base"), 0, mul("limit", 2)),
+      and(
+        or(eq("status", "PENDING"), eq("status", "PROCESSING")),
+        not(eq("deleted", true)),
+      ),
+    ];
+
+    it.each(conditions.map((condition) => [condition.toCQL(ctx), condition]))(
+      "should round-trip %s",
+      (cql, condition) => {
+        const json = condition.toCQLJSON();
+        const parsed = fromCQLJSON(json);
+
+        expect(parsed.toCQLJSON()).toEqual(json);
+        expect(parsed.toCQL(ctx)).toBe(cql);
+      },
+    );
+  });
+
+  describe("errors", () => {
+    it("should throw UnsupportedConditionTypeError for unknown ops", () => {
+      const json = {
+        op: "and",
+        args: [
+          { op: "=", args: [{ property: "a" }, 1] },
+          { op: "s_dwithin", args: [{ property: "geom" }, polygon, 10] },
+        ],
+      };
+
+      expect(() => fromCQLJSON(json)).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+      expect(() => fromCQLJSON(json)).toThrowError(
+        "Unsupported condition type: s_dwithin at '/args/1'.",
+      );
+    });
+
+    it("should report a JSON pointer to malformed arguments", () => {
+      const json = {
+        op: "or",
+        args: [
+          { op: "=", args: [{ property: "a" }, 1] },
+          {
+            op: "not",
+            args: [{ op: "like", args: [{ property: "name" }, 42] }],
+          },
+        ],
+      };
+
+      try {
+        fromCQLJSON(json);
+        expect.fail("Expected fromCQLJSON to throw");
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidConditionError);
+        expect((error as InvalidConditionError).pointer).toBe(
+          "/args/1/args/0/args/1",
+        );
+        expect((error as InvalidConditionError).conditionType).toBe("like");
+      }
+    });
+
+    it("should reject nodes without an op or args", () => {
+      expect(() => fromCQLJSON({ args: [] })).toThrowError(
+        "Condition of type 'unknown' is missing required attribute: op at ''.",
+      );
+      expect(() => fromCQLJSON({ op: "and" })).toThrowError(
+        "Condition of type 'and' is missing required attribute: args at '/args'.",
+      );
+      expect(() => fromCQLJSON({ op: "and", args: [] })).toThrowError(
+        InvalidConditionError,
+      );
+    });
+
+    it("should reject missing property references and wrong arity", () => {
+      expect(() => fromCQLJSON({ op: "=", args: ["status", 1] })).toThrowError(
+        "Condition of type '=' is missing required attribute: property reference at '/args/0'.",
+      );
+      expect(() =>
+        fromCQLJSON({ op: "between", args: [{ property: "age" }, 1] }),
+      ).toThrowError(
+        "Condition of type 'between' is missing required attribute: args (3 arguments) at '/args'.",
+      );
+    });
+
+    it("should reject malformed geometries and temporal literals", () => {
+      expect(() =>
+        fromCQLJSON({
+          op: "s_intersects",
+          args: [{ property: "geom" }, { type: "Point" }],
+        }),
+      ).toThrowError("GeoJSON geometry at '/args/1'");
+      expect(() =>
+        fromCQLJSON({
+          op: "t_during",
+          args: [{ property: "d" }, { interval: ["2023-01-01", 5] }],
+        }),
+      ).toThrowError("interval end at '/args/1/interval/1'");
+      expect(() =>
+        fromCQLJSON({
+          op: "t_after",
+          args: [{ property: "d" }, "2023-01-01"],
+        }),
+      ).toThrowError("temporal literal at '/args/1'");
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import type { Geometry } from "geojson";
+import { describe, expect, it } from "vitest";
+import { createCQLContext } from "../../cql-context";
+import { CQLParseError, InvalidTemporalValueError } from "../../errors";
+import { add, mul, sub } from "../../operators/arithmetic-operators";
+import {
+  between,
+  eq,
+  gt,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  ne,
+} from "../../operators/comparison-operators";
+import { and, not, or } from "../../operators/logical-operators";
+import { intersects, within } from "../../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  during,
+  tintersects,
+} from "../../operators/temporal-operators";
+import { contains, like } from "../../operators/text-operators";
+import { queryBuilder } from "../../query-builder";
+import { parseCQL } from "../cql-text-parser";
+
+describe("parseCQL", () => {
+  const ctx = createCQLContext();
+
+  const polygon: Geometry = {
+    type: "Polygon",
+    coordinates: [
+      [
+        [0, 0],
+        [1, 0],
+        [1, 1],
+        [0, 1],
+        [0, 0],
+      ],
+    ],
+  };
+
+  describe("comparison predicates", () => {
+    it("should parse binary comparisons into comparison conditions", () => {
+      expect(parseCQL("status = 'ACTIVE'")).toMatchObject({
+        type: "eq",
+        attr: "status",
+        value: "ACTIVE",
+      });
+      expect(parseCQL("status <> 'DELETED'")).toMatchObject({
+        type: "ne",
+        value: "DELETED",
+      });
+      expect(parseCQL("age < 18")).toMatchObject({ type: "lt", value: 18 });
+      expect(parseCQL("age <= 18")).toMatchObject({ type: "lte", value: 18 });
+      expect(parseCQL("price > 99.5")).toMatchObject({
+        type: "gt",
+        value: 99.5,
+      });
+      expect(parseCQL("price >= -10")).toMatchObject({
+        type: "gte",
+        value: -10,
+      });
+    });
+
+    it("should parse boolean, null and timestamp literals", () => {
+      expect(parseCQL("active = TRUE")).toMatchObject({ value: true });
+      expect(parseCQL("active = false")).toMatchObject({ value: false });
+      expect(
+        parseCQL("createdAt > TIMESTAMP('2023-01-01T00:00:00.000Z')"),
+      ).toMatchObject({
+        type: "gt",
+        value: new Date("2023-01-01T00:00:00.000Z"),
+      });
+    });
+
+    it("should keep DATE literals as dates", () => {
+      expect(parseCQL("updated >= DATE('2023-01-01')").toCQL(ctx)).toBe(
+        "updated >= DATE('2023-01-01')",
+      );
+      expect(parseCQL("updated >= DATE('2023-01-01')").toCQLJSON()).toEqual({
+        op: ">=",
+        args: [{ property: "updated" }, { date: "2023-01-01" }],
+      });
+    });
+
+    it("should reject invalid timestamp and date literals", () => {
+      expect(() =>
+        parseCQL("createdAt > TIMESTAMP('2023-13-45T00:00:00Z')"),
+      ).toThrowError(
+        "Parse error at line 1, column 23: expected UTC timestamp but found ''2023-13-45T00:00:00Z''.",
+      );
+      expect(() =>
+        parseCQL("createdAt > TIMESTAMP('2023-01-01T00:00')"),
+      ).toThrowError(CQLParseError);
+      expect(() => parseCQL("createdAt > DATE('2023-02-30')")).toThrowError(
+        "expected ISO 8601 date",
+      );
+    });
+
+    it("should parse BETWEEN, IN, NOT IN and NULL checks", () => {
+      expect(parseCQL("age BETWEEN 18 AND 65")).toMatchObject({
+        type: "between",
+        value: [18, 65],
+      });
+      expect(parseCQL("code IN ('CPT', 'OTHER')")).toMatchObject({
+        type: "in",
+        value: ["CPT", "OTHER"],
+      });
+      expect(parseCQL("level NOT IN (4, 5)")).toMatchObject({
+        type: "notIn",
+        value: [4, 5],
+      });
+      expect(parseCQL("deletedAt IS NULL").toCQL(ctx)).toBe(
+        "deletedAt IS NULL",
+      );
+      expect(parseCQL("email IS NOT NULL").toCQL(ctx)).toBe(
+        "email IS NOT NULL",
+      );
+    });
+
+    it("should negate NOT BETWEEN and NOT LIKE predicates", () => {
+      expect(parseCQL("age NOT BETWEEN 18 AND 65").toCQL(ctx)).toBe(
+        "NOT (age BETWEEN 18 AND 65)",
+      );
+      expect(parseCQL("name NOT LIKE 'A%'").toCQL(ctx)).toBe(
+        "NOT (name LIKE 'A%')",
+      );
+    });
+
+    it("should unescape quotes in string literals", () => {
+      expect(parseCQL("name = 'O''Brien'")).toMatchObject({
+        value: "O'Brien",
+      });
+    });
+
+    it("should read backslashes as ordinary characters", () => {
+      expect(parseCQL("path = 'C:\\'")).toMatchObject({ value: "C:\\" });
+      const condition = eq("path", "C:\\dir\\");
+      expect(parseCQL(condition.toCQL(ctx))).toMatchObject({
+        value: "C:\\dir\\",
+      });
+    });
+
+    it("should accept dotted and quoted property names", () => {
+      expect(parseCQL("address.city = 'Paris'")).toMatchObject({
+        attr: "address.city",
+      });
+      expect(parseCQL('"eo:cloud_cover" < 10')).toMatchObject({
+        attr: "eo:cloud_cover",
+      });
+    });
+  });
+
+  describe("arithmetic expressions", () => {
+    it("should parse expressions on either side of a comparison", () => {
+      expect(parseCQL("price * quantity > 1000")).toMatchObject({
+        type: "gt",
+        attr: { kind: "arithmetic", operator: "*", left: "price" },
+        value: 1000,
+      });
+      expect(parseCQL("total <= budget - -5").toCQL(ctx)).toBe(
+        "total <= budget - -5",
+      );
+    });
+
+    it("should respect operator precedence and parentheses", () => {
+      expect(parseCQL("a + b * c = 1")).toMatchObject({
+        attr: { operator: "+", right: { operator: "*" } },
+      });
+      expect(parseCQL("(a + b) * c = 1 AND d = 2").toCQL(ctx)).toBe(
+        "((a + b) * c = 1 AND d = 2)",
+      );
+      expect(parseCQL("a - b - c BETWEEN 0 AND 10").toCQL(ctx)).toBe(
+        "a - b - c BETWEEN 0 AND 10",
+      );
+    });
+
+    it("should parse modulo and integer division", () => {
+      const cql2 = createCQLContext({ dialect: "cql2" });
+      expect(parseCQL("id % 2 = 0 AND minutes DIV 60 > 1").toCQL(cql2)).toBe(
+        "(id % 2 = 0 AND minutes div 60 > 1)",
+      );
+    });
+
+    it("should only allow comparisons on expressions", () => {
+      expect(() => parseCQL("a + 1 IS NULL")).toThrowError(
+        "expected comparison operator but found 'IS'",
+      );
+    });
+  });
+
+  describe("property references", () => {
+    it("should parse properties on the right-hand side", () => {
+      expect(parseCQL("updated_at > created_at")).toMatchObject({
+        type: "gt",
+        attr: "updated_at",
+        value: { kind: "property", name: "created_at" },
+      });
+      expect(
+        parseCQL(
+          "value BETWEEN min AND max AND owner IN (creator, 'admin')",
+        ).toCQL(ctx),
+      ).toBe("(value BETWEEN min AND max AND owner IN (creator, 'admin'))");
+    });
+
+    it("should parse properties in spatial and temporal predicates", () => {
+      expect(parseCQL("INTERSECTS(geometry, footprint)")).toMatchObject({
+        type: "intersects",
+        geometry: { kind: "property", name: "footprint" },
+      });
+      expect(parseCQL('T_AFTER(updated_at, "created at")')).toMatchObject({
+        type: "after",
+        value: { kind: "property", name: "created at" },
+      });
+    });
+  });
+
+  describe("function calls", () => {
+    it("should parse function calls as operands", () => {
+      expect(parseCQL("strToLowerCase(name) = 'zurich'")).toMatchObject({
+        type: "eq",
+        attr: { kind: "function", name: "strToLowerCase" },
+        value: "zurich",
+      });
+      expect(
+        parseCQL("distance(geom, POINT(0 0)) + 1 < abs(-5)").toCQL(ctx),
+      ).toBe("distance(geom, POINT (0 0)) + 1 < abs(-5)");
+      expect(parseCQL("pi() > 3").toCQL(ctx)).toBe("pi() > 3");
+    });
+
+    it("should still read temporal literals written in function form", () => {
+      expect(parseCQL("d > TIMESTAMP('2023-01-01T00:00:00Z')")).toMatchObject({
+        value: new Date("2023-01-01T00:00:00Z"),
+      });
+    });
+  });
+
+  describe("case- and accent-insensitive comparisons", () => {
+    const cql2 = createCQLContext({ dialect: "cql2" });
+
+    it("should read CASEI and ACCENTI on both sides as options", () => {
+      expect(parseCQL("CASEI(name) LIKE CASEI('%zurich%')")).toMatchObject({
+        type: "like",
+        attr: "name",
+        value: "%zurich%",
+        options: { caseInsensitive: true },
+      });
+      expect(
+        parseCQL("ACCENTI(CASEI(city)) = ACCENTI(CASEI('zurich'))").toCQL(cql2),
+      ).toBe("ACCENTI(CASEI(city)) = ACCENTI(CASEI('zurich'))");
+      expect(parseCQL("name ILIKE 'z%'")).toMatchObject({
+        type: "like",
+        options: { caseInsensitive: true },
+      });
+    });
+
+    it("should keep one-sided wrappers as function calls", () => {
+      expect(parseCQL("CASEI(city) = 'zurich'")).toMatchObject({
+        attr: { kind: "function", name: "CASEI" },
+      });
+      expect(() => parseCQL("CASEI(name) LIKE 'z%'")).toThrowError(
+        "expected pattern with the same CASEI or ACCENTI functions",
+      );
+    });
+  });
+
+  describe("temporal values", () => {
+    it("should keep dates and open interval bounds", () => {
+      const condition = parseCQL(
+        "T_DURING(eventDate, INTERVAL(DATE('2023-01-01'), '..'))",
+      );
+      expect(condition).toMatchObject({
+        value: { start: "2023-01-01", end: ".." },
+      });
+      expect(condition.toCQL(createCQLContext({ dialect: "cql2" }))).toBe(
+        "T_DURING(eventDate, INTERVAL('2023-01-01', '..'))",
+      );
+    });
+
+    it("should reject malformed temporal literals", () => {
+      expect(() =>
+        parseCQL("T_AFTER(eventDate, TIMESTAMP('yesterday'))"),
+      ).toThrowError(InvalidTemporalValueError);
+    });
+  });
+
+  describe("bounding boxes", () => {
+    it("should parse BBOX and ENVELOPE literals", () => {
+      expect(
+        parseCQL("S_INTERSECTS(geometry, BBOX(-10, 40, 5, 52))"),
+      ).toMatchObject({ type: "intersects", geometry: [-10, 40, 5, 52] });
+      expect(
+        parseCQL("WITHIN(geometry, ENVELOPE(-10, 5, 52, 40))"),
+      ).toMatchObject({ type: "within", geometry: [-10, 40, 5, 52] });
+      expect(() =>
+        parseCQL("INTERSECTS(geometry, ENVELOPE(0, 1, 2))"),
+      ).toThrowError("ENVELOPE with 4 numbers");
+    });
+  });
+
+  describe("array predicates", () => {
+    it("should parse array literals and property references", () => {
+      expect(parseCQL("A_CONTAINS(tags, ('road', 'bridge'))")).toMatchObject({
+        type: "acontains",
+        attr: "tags",
+        value: ["road", "bridge"],
+      });
+      expect(parseCQL("a_overlaps(tags, categories)")).toMatchObject({
+        type: "aoverlaps",
+        value: { kind: "property", name: "categories" },
+      });
+      expect(parseCQL("A_EQUALS(tags, ())")).toMatchObject({ value: [] });
+    });
+  });
+
+  describe("logical operators", () => {
+    it("should respect AND/OR precedence", () => {
+      const condition = parseCQL("a = 1 OR b = 2 AND c = 3");
+      expect(condition.toCQL(ctx)).toBe("(a = 1 OR (b = 2 AND c = 3))");
+    });
+
+    it("should parse parenthesised groups and NOT", () => {
+      const condition = parseCQL("NOT (a = 1 OR b = 2) and c = 3");
+      expect(condition.toCQL(ctx)).toBe("(NOT ((a = 1 OR b = 2)) AND c = 3)");
+    });
+  });
+
+  describe("spatial predicates", () => {
+    it("should convert WKT geometries to GeoJSON", () => {
+      expect(parseCQL("INTERSECTS(geometry, POINT (0 0))")).toMatchObject({
+        type: "intersects",
+        attr: "geometry",
+        geometry: { type: "Point", coordinates: [0, 0] },
+      });
+      expect(
+        parseCQL("S_WITHIN(geometry, POLYGON((0 0, 1 0, 1 1, 0 1, 0 0)))"),
+      ).toMatchObject({ type: "within", geometry: polygon });
+    });
+
+    it("should parse spatial equality and containment", () => {
+      expect(parseCQL("EQUALS(geom, POINT(1 2))")).toMatchObject({
+        type: "eq",
+        geometry: { type: "Point", coordinates: [1, 2] },
+      });
+      expect(parseCQL("S_CONTAINS(geom, POINT(1 2))")).toMatchObject({
+        type: "contains",
+      });
+    });
+  });
+
+  describe("temporal predicates", () => {
+    it("should convert TIMESTAMP and INTERVAL literals to temporal values", () => {
+      expect(
+        parseCQL("AFTER(eventDate, TIMESTAMP('2023-01-01T00:00:00Z'))"),
+      ).toMatchObject({
+        type: "after",
+        attr: "eventDate",
+        value: "2023-01-01T00:00:00Z",
+      });
+      expect(
+        parseCQL("T_DURING(eventDate, INTERVAL('2023-01-01', '2023-12-31'))"),
+      ).toMatchObject({
+        type: "during",
+        value: { start: "2023-01-01", end: "2023-12-31" },
+      });
+    });
+
+    it("should map CQL2 names onto the matching operators", () => {
+      expect(
+        parseCQL("T_STARTS(period, TIMESTAMP('2023-01-01T00:00:00Z'))"),
+      ).toMatchObject({ type: "begins" });
+      expect(
+        parseCQL("T_FINISHEDBY(period, TIMESTAMP('2023-01-01T00:00:00Z'))"),
+      ).toMatchObject({ type: "endedby" });
+      expect(
+        parseCQL("T_DISJOINT(period, DATE('2023-01-01'))").toCQL(ctx),
+      ).toBe("NOT (TINTERSECTS(period, DATE('2023-01-01')))");
+    });
+  });
+
+  describe("round-tripping", () => {
+    const conditions = [
+      eq("status", "ACTIVE"),
+      ne("name", "It's"),
+      between("age", 18, 65),
+      isIn("code", [1, 2, 3]),
+      isNotIn("status", ["DELETED", "ARCHIVED"]),
+      isNull("deletedAt"),
+      isNotNull("email"),
+      like("name", "A%"),
+      contains("description", "100% satisfaction"),
+      gt("createdAt", new Date("2023-01-01")),
+      intersects("geometry", { type: "Point", coordinates: [0.5, -1.25] }),
+      within("geometry", polygon),
+      anyinteracts("eventDate", "2023-01-01T00:00:00Z"),
+      during("eventDate", {
+        start: new Date("2023-01-01T00:00:00.000Z"),
+        end: "2023-12-31T23:59:59Z",
+      }),
+      after("eventDate", new Date("2023-06-15T12:00:00Z")),
+      tintersects("eventDate", { start: "2023-01-01", end: "2023-12-31" }),
+      gt(mul(add("price", "tax"), "quantity"), 1000),
+      between(sub("elevation", "base"), 0, mul("limit", 2)),
+      and(
+        or(eq("status", "PENDING"), eq("status", "PROCESSING")),
+        not(eq("deleted", true)),
+        not(and(eq("a", 1), eq("b", 2))),
+      ),
+    ];
+
+    it.each(conditions.map((condition) => [condition.toCQL(ctx), condition]))(
+      "should round-trip %s",
+      (cql) => {
+        const parsed = parseCQL(cql);
+        expect(parsed.toCQL(ctx)).toBe(cql);
+        expect(queryBuilder().filter(parsed).toCQL()).toBe(cql);
+      },
+    );
+  });
+
+  describe("errors", () => {
+    it("should report the line, column and expected token", () => {
+      try {
+        parseCQL("status = 'ACTIVE' AND\n  age >");
+        expect.fail("Expected parseCQL to throw");
+      } catch (error) {
+        expect(error).toBeInstanceOf(CQLParseError);
+        const parseError = error as CQLParseError;
+        expect(parseError.line).toBe(2);
+        expect(parseError.column).toBe(8);
+        expect(parseError.expected).toBe("literal value");
+        expect(parseError.found).toBe("end of input");
+      }
+    });
+
+    it("should describe the unexpected token", () => {
+      expect(() => parseCQL("(a = 1")).toThrowError(
+        "Parse error at line 1, column 7: expected ')' but found end of input.",
+      );
+      expect(() => parseCQL("a = 1 b = 2")).toThrowError(
+        "Parse error at line 1, column 7: expected end of input but found 'b'.",
+      );
+      expect(() => parseCQL("a ~ 1")).toThrowError(
+        "Parse error at line 1, column 3: expected a valid token but found '~'.",
+      );
+    });
+
+    it("should reject unterminated strings and invalid geometries", () => {
+      expect(() => parseCQL("name = 'abc")).toThrowError(CQLParseError);
+      expect(() => parseCQL("INTERSECTS(geom, POINT(0))")).toThrowError(
+        "expected valid WKT geometry but found 'POINT(0)'",
+      );
+    });
+
+    it("should reject empty input", () => {
+      expect(() => parseCQL("   ")).toThrowError(
+        "Parse error at line 1, column 4: expected condition but found end of input.",
+      );
+    });
+  });
+});
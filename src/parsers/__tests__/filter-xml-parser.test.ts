@@ -0,0 +1,377 @@
+import { describe, expect, it } from "vitest";
+import { conditionEquals } from "../../canonical";
+import { createCQLContext } from "../../cql-context";
+import {
+  CQLParseError,
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../../errors";
+import { toFilterXML } from "../../filter-xml";
+import { add } from "../../operators/arithmetic-operators";
+import type { Condition } from "../../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  isNotNull,
+  isNull,
+  lt,
+  ne,
+} from "../../operators/comparison-operators";
+import { fn } from "../../operators/function-calls";
+import { and, not, or } from "../../operators/logical-operators";
+import { prop } from "../../operators/property-reference";
+import { bbox, intersects, within } from "../../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  during,
+} from "../../operators/temporal-operators";
+import { like } from "../../operators/text-operators";
+import { fromFilterXML } from "../filter-xml-parser";
+
+const OGC = 'xmlns:ogc="http://www.opengis.net/ogc"';
+const GML = 'xmlns:gml="http://www.opengis.net/gml"';
+
+function ogcFilter(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<ogc:Filter ${OGC} ${GML}>\n${content}\n</ogc:Filter>`;
+}
+
+describe("fromFilterXML", () => {
+  const cql2 = createCQLContext({ dialect: "cql2" });
+
+  describe("comparisons", () => {
+    it("should read Filter 1.1 comparisons", () => {
+      const condition = fromFilterXML(
+        ogcFilter(`
+          <ogc:PropertyIsGreaterThanOrEqualTo>
+            <ogc:PropertyName>PERSONS</ogc:PropertyName>
+            <ogc:Literal>15000000</ogc:Literal>
+          </ogc:PropertyIsGreaterThanOrEqualTo>`),
+      );
+      expect(condition.toCQL(cql2)).toBe("PERSONS >= 15000000");
+    });
+
+    it("should keep literals that are not plain numbers as strings", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsEqualTo><ogc:PropertyName>zip</ogc:PropertyName><ogc:Literal>01234</ogc:Literal></ogc:PropertyIsEqualTo>",
+          ),
+        ),
+      ).toMatchObject({ type: "eq", attr: "zip", value: "01234" });
+    });
+
+    it("should read matchCase, null checks and between", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:PropertyIsEqualTo matchCase="false">
+              <ogc:PropertyName>city</ogc:PropertyName>
+              <ogc:Literal>zurich</ogc:Literal>
+            </ogc:PropertyIsEqualTo>`),
+        ).toCQL(cql2),
+      ).toBe("CASEI(city) = CASEI('zurich')");
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:Not><ogc:PropertyIsNull><ogc:PropertyName>owner</ogc:PropertyName></ogc:PropertyIsNull></ogc:Not>",
+          ),
+        ).toCQL(cql2),
+      ).toBe("owner IS NOT NULL");
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:PropertyIsBetween>
+              <ogc:PropertyName>DEPTH</ogc:PropertyName>
+              <ogc:LowerBoundary><ogc:Literal>100</ogc:Literal></ogc:LowerBoundary>
+              <ogc:UpperBoundary><ogc:Literal>200</ogc:Literal></ogc:UpperBoundary>
+            </ogc:PropertyIsBetween>`),
+        ).toCQL(cql2),
+      ).toBe("DEPTH BETWEEN 100 AND 200");
+    });
+
+    it("should mirror comparisons that put the literal first", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsLessThan><ogc:Literal>10</ogc:Literal><ogc:PropertyName>height</ogc:PropertyName></ogc:PropertyIsLessThan>",
+          ),
+        ).toCQL(cql2),
+      ).toBe("height > 10");
+    });
+
+    it("should read property paths, functions and arithmetic", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsEqualTo><ogc:PropertyName>address/city</ogc:PropertyName><ogc:PropertyName>billing/city</ogc:PropertyName></ogc:PropertyIsEqualTo>",
+          ),
+        ).toCQL(cql2),
+      ).toBe("address.city = billing.city");
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:PropertyIsEqualTo>
+              <ogc:Function name="strToLowerCase"><ogc:PropertyName>name</ogc:PropertyName></ogc:Function>
+              <ogc:Literal>zurich</ogc:Literal>
+            </ogc:PropertyIsEqualTo>`),
+        ).toCQL(cql2),
+      ).toBe("strToLowerCase(name) = 'zurich'");
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:PropertyIsGreaterThan>
+              <ogc:Mul><ogc:PropertyName>price</ogc:PropertyName><ogc:Literal>2</ogc:Literal></ogc:Mul>
+              <ogc:Literal>100</ogc:Literal>
+            </ogc:PropertyIsGreaterThan>`),
+        ).toCQL(cql2),
+      ).toBe("price * 2 > 100");
+    });
+
+    it("should decode entities and CDATA", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsEqualTo><ogc:PropertyName>name</ogc:PropertyName><ogc:Literal>Tom &amp; Jerry&#x21; <![CDATA[<3]]></ogc:Literal></ogc:PropertyIsEqualTo>",
+          ),
+        ),
+      ).toMatchObject({ value: "Tom & Jerry! <3" });
+    });
+  });
+
+  describe("PropertyIsLike", () => {
+    it("should translate custom wildcard characters", () => {
+      const condition = fromFilterXML(
+        ogcFilter(`
+          <ogc:PropertyIsLike wildCard="*" singleChar="." escapeChar="!">
+            <ogc:PropertyName>name</ogc:PropertyName>
+            <ogc:Literal>Zür.ch*!*100%_</ogc:Literal>
+          </ogc:PropertyIsLike>`),
+      );
+      expect(condition).toMatchObject({
+        type: "like",
+        value: "Zür_ch%*100\\%\\_",
+      });
+    });
+
+    it("should accept the Filter 1.0 escape attribute", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(
+            '<ogc:PropertyIsLike wildCard="*" singleChar="#" escape="\\"><ogc:PropertyName>code</ogc:PropertyName><ogc:Literal>A#\\*</ogc:Literal></ogc:PropertyIsLike>',
+          ),
+        ),
+      ).toMatchObject({ value: "A_*" });
+    });
+  });
+
+  describe("spatial operators", () => {
+    it("should read GML 3 geometries", () => {
+      const condition = fromFilterXML(
+        ogcFilter(`
+          <ogc:Intersects>
+            <ogc:PropertyName>the_geom</ogc:PropertyName>
+            <gml:Polygon srsName="EPSG:4326">
+              <gml:exterior><gml:LinearRing>
+                <gml:posList>0 0 10 0 10 10 0 0</gml:posList>
+              </gml:LinearRing></gml:exterior>
+            </gml:Polygon>
+          </ogc:Intersects>`),
+      );
+      expect(condition.toCQL(cql2)).toBe(
+        "S_INTERSECTS(the_geom, POLYGON ((0 0, 10 0, 10 10, 0 0)))",
+      );
+    });
+
+    it("should read GML 2 coordinates and boxes", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:Within>
+              <ogc:PropertyName>the_geom</ogc:PropertyName>
+              <gml:Point><gml:coordinates>7.4,46.9</gml:coordinates></gml:Point>
+            </ogc:Within>`),
+        ).toCQL(cql2),
+      ).toBe("S_WITHIN(the_geom, POINT (7.4 46.9))");
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:BBOX>
+              <ogc:PropertyName>the_geom</ogc:PropertyName>
+              <gml:Box><gml:coordinates>-75,40 -73,41</gml:coordinates></gml:Box>
+            </ogc:BBOX>`),
+        ).toCQL(cql2),
+      ).toBe("S_INTERSECTS(the_geom, BBOX(-75, 40, -73, 41))");
+    });
+
+    it("should read multi geometries", () => {
+      expect(
+        fromFilterXML(
+          ogcFilter(`
+            <ogc:Crosses>
+              <ogc:PropertyName>the_geom</ogc:PropertyName>
+              <gml:MultiCurve>
+                <gml:curveMember><gml:LineString><gml:pos>0 0</gml:pos><gml:pos>1 1</gml:pos></gml:LineString></gml:curveMember>
+                <gml:curveMember><gml:LineString><gml:posList>2 2 3 3</gml:posList></gml:LineString></gml:curveMember>
+              </gml:MultiCurve>
+            </ogc:Crosses>`),
+        ).toCQL(cql2),
+      ).toBe("S_CROSSES(the_geom, MULTILINESTRING ((0 0, 1 1), (2 2, 3 3)))");
+    });
+
+    it("should reject distance operators", () => {
+      const xml = ogcFilter(`
+        <ogc:And>
+          <ogc:PropertyIsEqualTo><ogc:PropertyName>a</ogc:PropertyName><ogc:Literal>1</ogc:Literal></ogc:PropertyIsEqualTo>
+          <ogc:DWithin>
+            <ogc:PropertyName>the_geom</ogc:PropertyName>
+            <gml:Point><gml:pos>0 0</gml:pos></gml:Point>
+            <ogc:Distance units="m">10</ogc:Distance>
+          </ogc:DWithin>
+        </ogc:And>`);
+      expect(() => fromFilterXML(xml)).toThrowError(
+        "Unsupported condition type: ogc:DWithin at '/ogc:Filter/ogc:And/ogc:DWithin'",
+      );
+      expect(() => fromFilterXML(xml)).toThrowError(
+        UnsupportedConditionTypeError,
+      );
+    });
+  });
+
+  describe("FES 2.0", () => {
+    const fesFilter = (content: string) =>
+      `<fes:Filter xmlns:fes="http://www.opengis.net/fes/2.0" xmlns:gml="http://www.opengis.net/gml/3.2">${content}</fes:Filter>`;
+
+    it("should read temporal operators", () => {
+      expect(
+        fromFilterXML(
+          fesFilter(`
+            <fes:During>
+              <fes:ValueReference>updated</fes:ValueReference>
+              <gml:TimePeriod gml:id="TP1">
+                <gml:begin><gml:TimeInstant gml:id="TI1"><gml:timePosition>2023-01-01T00:00:00Z</gml:timePosition></gml:TimeInstant></gml:begin>
+                <gml:endPosition indeterminatePosition="unknown"/>
+              </gml:TimePeriod>
+            </fes:During>`),
+        ).toCQL(cql2),
+      ).toBe("T_DURING(updated, INTERVAL('2023-01-01T00:00:00Z', '..'))");
+      expect(
+        fromFilterXML(
+          fesFilter(
+            '<fes:After><fes:ValueReference>updated</fes:ValueReference><gml:TimeInstant gml:id="TI1"><gml:timePosition>2023-01-01</gml:timePosition></gml:TimeInstant></fes:After>',
+          ),
+        ).toCQL(cql2),
+      ).toBe("T_AFTER(updated, DATE('2023-01-01'))");
+    });
+
+    it("should read bare operators without a Filter element", () => {
+      expect(
+        fromFilterXML(
+          '<PropertyIsEqualTo xmlns="http://www.opengis.net/fes/2.0"><ValueReference>a</ValueReference><Literal>x</Literal></PropertyIsEqualTo>',
+        ).toCQL(cql2),
+      ).toBe("a = 'x'");
+    });
+
+    it("should reject resource ids", () => {
+      expect(() =>
+        fromFilterXML(fesFilter('<fes:ResourceId rid="states.1"/>')),
+      ).toThrowError(UnsupportedConditionTypeError);
+    });
+  });
+
+  it.each<[string, Condition]>([
+    [
+      "logical operators",
+      and(eq("a", 1), or(ne("b", "x"), not(lt("c", 2.5))), isNull("d")),
+    ],
+    ["not null", isNotNull("owner")],
+    ["between", between("depth", 100, 200)],
+    ["like", like("name", "Zür_ch%")],
+    ["case-insensitive", eq("city", "zurich", { caseInsensitive: true })],
+    ["property operands", gt("updated", prop("created"))],
+    ["functions", eq(fn("strToLowerCase", prop("name")), "zurich")],
+    [
+      "polygons with holes",
+      within("geom", {
+        type: "Polygon",
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 0],
+          ],
+          [
+            [1, 1],
+            [2, 1],
+            [2, 2],
+            [1, 1],
+          ],
+        ],
+      }),
+    ],
+    [
+      "multi points",
+      intersects("geom", {
+        type: "MultiPoint",
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      }),
+    ],
+    ["3D bounding boxes", bbox("geom", [0, 0, 0, 1, 1, 1])],
+    [
+      "intervals",
+      during("updated", { start: "2023-01-01", end: "2023-12-31" }),
+    ],
+    ["instants", after("updated", "2023-01-01T00:00:00Z")],
+    [
+      "any interacts",
+      anyinteracts("updated", { start: null, end: "2024-01-01" }),
+    ],
+  ])("should read back %s written by toFilterXML", (_, condition) => {
+    expect(
+      conditionEquals(fromFilterXML(toFilterXML(condition)), condition),
+    ).toBe(true);
+  });
+
+  it("should read back Filter 1.1 arithmetic", () => {
+    const condition = gt(add("a", 1), 10);
+    expect(
+      conditionEquals(
+        fromFilterXML(toFilterXML(condition, { version: "1.1" })),
+        condition,
+      ),
+    ).toBe(true);
+  });
+
+  describe("errors", () => {
+    it("should report malformed XML with its position", () => {
+      expect(() =>
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsEqualTo><ogc:PropertyName>a</ogc:Literal></ogc:PropertyIsEqualTo>",
+          ),
+        ),
+      ).toThrowError(CQLParseError);
+      expect(() => fromFilterXML("<ogc:Filter>")).toThrowError(
+        "Parse error at line 1, column 13: expected </ogc:Filter> but found end of input.",
+      );
+    });
+
+    it("should report missing content", () => {
+      expect(() =>
+        fromFilterXML(
+          ogcFilter(
+            "<ogc:PropertyIsEqualTo><ogc:PropertyName>a</ogc:PropertyName></ogc:PropertyIsEqualTo>",
+          ),
+        ),
+      ).toThrowError(InvalidConditionError);
+      expect(() => fromFilterXML(ogcFilter(""))).toThrowError(
+        "Condition of type 'ogc:Filter' is missing required attribute: 1 child element at '/ogc:Filter'.",
+      );
+    });
+  });
+});
@@ -0,0 +1,685 @@
+import type { Geometry } from "geojson";
+import {
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import {
+  add,
+  div,
+  intDiv,
+  mod,
+  mul,
+  sub,
+} from "../operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "../operators/array-operators";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  BBox,
+  Condition,
+  Expression,
+  FunctionCall,
+  PropertyReference,
+  TextMatchOptions,
+} from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { isBBox } from "../operators/condition-guards";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { isSameInsensitivity } from "../operators/operands";
+import { prop } from "../operators/property-reference";
+import {
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  meets,
+  metby,
+  overlappedby,
+  type TemporalValue,
+  tcontains,
+  tequals,
+  tintersects,
+  toverlaps,
+} from "../operators/temporal-operators";
+import {
+  CalendarDate,
+  isISODate,
+  isISOTimestamp,
+} from "../operators/temporal-values";
+import { like } from "../operators/text-operators";
+
+type JSONObject = Record<string, unknown>;
+
+interface JSONOperation {
+  op: string;
+  args: unknown[];
+}
+
+const ARITHMETIC_FACTORIES: Record<
+  string,
+  (left: ArithmeticOperand, right: ArithmeticOperand) => ArithmeticExpression
+> = {
+  "+": add,
+  "-": sub,
+  "*": mul,
+  "/": div,
+  "%": mod,
+  div: intDiv,
+};
+
+const COMPARISON_FACTORIES: Record<
+  string,
+  (
+    attr: string | Expression,
+    value: unknown,
+    options?: TextMatchOptions,
+  ) => Condition
+> = {
+  "=": eq,
+  "<>": ne,
+  "<": lt,
+  "<=": lte,
+  ">": gt,
+  ">=": gte,
+};
+
+const SPATIAL_FACTORIES: Record<
+  string,
+  (attr: string, geometry: Geometry | BBox | PropertyReference) => Condition
+> = {
+  s_intersects: intersects,
+  s_disjoint: disjoint,
+  s_contains: spatialContains,
+  s_within: within,
+  s_touches: touches,
+  s_overlaps: overlaps,
+  s_crosses: crosses,
+  s_equals: spatialEquals,
+};
+
+const TEMPORAL_FACTORIES: Record<
+  string,
+  (attr: string, value: TemporalValue | PropertyReference) => Condition
+> = {
+  t_after: after,
+  t_before: before,
+  t_starts: begins,
+  t_startedby: begunby,
+  t_contains: tcontains,
+  t_during: during,
+  t_finishedby: endedby,
+  t_finishes: ends,
+  t_equals: tequals,
+  t_meets: meets,
+  t_metby: metby,
+  t_overlaps: toverlaps,
+  t_overlappedby: overlappedby,
+  t_intersects: tintersects,
+  // There is no dedicated disjoint condition, so it is expressed as a negated intersection
+  t_disjoint: (attr, value) => not(tintersects(attr, value)),
+};
+
+const ARRAY_FACTORIES: Record<
+  string,
+  (attr: string, values: unknown[] | PropertyReference) => Condition
+> = {
+  a_equals: aequals,
+  a_contains: acontains,
+  a_containedby: acontainedby,
+  a_overlaps: aoverlaps,
+};
+
+function isObject(value: unknown): value is JSONObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readOperation(node: unknown, pointer: string): JSONOperation {
+  if (!isObject(node) || typeof node.op !== "string") {
+    throw new InvalidConditionError("unknown", {}, "op", pointer);
+  }
+  if (!Array.isArray(node.args)) {
+    throw new InvalidConditionError(node.op, {}, "args", `${pointer}/args`);
+  }
+  return { op: node.op, args: node.args };
+}
+
+function expectArity(
+  { op, args }: JSONOperation,
+  count: number,
+  pointer: string,
+): void {
+  if (args.length !== count) {
+    throw new InvalidConditionError(
+      op,
+      {},
+      `args (${count} ${count === 1 ? "argument" : "arguments"})`,
+      `${pointer}/args`,
+    );
+  }
+}
+
+function readProperty(op: string, node: unknown, pointer: string): string {
+  if (!isObject(node) || typeof node.property !== "string" || !node.property) {
+    throw new InvalidConditionError(op, {}, "property reference", pointer);
+  }
+  return node.property;
+}
+
+function isPropertyNode(node: unknown): boolean {
+  return isObject(node) && "property" in node;
+}
+
+function isArithmeticNode(node: unknown): boolean {
+  return (
+    isObject(node) &&
+    typeof node.op === "string" &&
+    node.op.toLowerCase() in ARITHMETIC_FACTORIES
+  );
+}
+
+/**
+ * Checks whether a node is an operation that is neither arithmetic nor a condition,
+ * which CQL2-JSON uses for function calls, e.g. `{ "op": "strToLowerCase", "args": [...] }`.
+ */
+function isFunctionNode(node: unknown): boolean {
+  return (
+    isObject(node) &&
+    typeof node.op === "string" &&
+    Array.isArray(node.args) &&
+    !isArithmeticNode(node)
+  );
+}
+
+function readFunction(node: unknown, pointer: string): FunctionCall {
+  const { op, args } = readOperation(node, pointer);
+  return fn(
+    op,
+    ...args.map((arg, index) =>
+      readFunctionArgument(op, arg, `${pointer}/args/${index}`),
+    ),
+  );
+}
+
+/**
+ * Reads a function argument: a GeoJSON geometry or any comparison operand.
+ */
+function readFunctionArgument(
+  op: string,
+  node: unknown,
+  pointer: string,
+): unknown {
+  if (isObject(node) && typeof node.type === "string") {
+    return readGeometry(op, node, pointer);
+  }
+  return readOperand(op, node, pointer);
+}
+
+function readArithmeticOperand(
+  op: string,
+  node: unknown,
+  pointer: string,
+): ArithmeticOperand {
+  if (typeof node === "number") {
+    return node;
+  }
+  if (isArithmeticNode(node)) {
+    return readArithmetic(node, pointer);
+  }
+  if (isFunctionNode(node)) {
+    return readFunction(node, pointer);
+  }
+  if (isPropertyNode(node)) {
+    return readProperty(op, node, pointer);
+  }
+  throw new InvalidConditionError(op, {}, "arithmetic operand", pointer);
+}
+
+function readArithmetic(node: unknown, pointer: string): ArithmeticExpression {
+  const operation = readOperation(node, pointer);
+  const { op, args } = operation;
+  const factory = ARITHMETIC_FACTORIES[op.toLowerCase()];
+  if (!factory) {
+    throw new UnsupportedConditionTypeError(op, {}, pointer);
+  }
+  expectArity(operation, 2, pointer);
+  return factory(
+    readArithmeticOperand(op, args[0], `${pointer}/args/0`),
+    readArithmeticOperand(op, args[1], `${pointer}/args/1`),
+  );
+}
+
+/**
+ * Reads the left-hand side of a comparison: a property reference or an expression.
+ */
+function readAttribute(
+  op: string,
+  node: unknown,
+  pointer: string,
+): string | Expression {
+  if (isArithmeticNode(node)) {
+    return readArithmetic(node, pointer);
+  }
+  if (isFunctionNode(node)) {
+    return readFunction(node, pointer);
+  }
+  return readProperty(op, node, pointer);
+}
+
+/**
+ * Reads the right-hand side of a comparison: a literal, a property reference or an expression.
+ */
+function readOperand(op: string, node: unknown, pointer: string): unknown {
+  if (isArithmeticNode(node)) {
+    return readArithmetic(node, pointer);
+  }
+  if (isFunctionNode(node)) {
+    return readFunction(node, pointer);
+  }
+  if (isPropertyNode(node)) {
+    return prop(readProperty(op, node, pointer));
+  }
+  return readLiteral(op, node, pointer);
+}
+
+function readLiteral(op: string, node: unknown, pointer: string): unknown {
+  if (
+    node === null ||
+    typeof node === "string" ||
+    typeof node === "number" ||
+    typeof node === "boolean"
+  ) {
+    return node;
+  }
+  if (isObject(node)) {
+    if (typeof node.timestamp === "string") {
+      if (!isISOTimestamp(node.timestamp)) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "timestamp (UTC, e.g. 2023-01-01T00:00:00Z)",
+          `${pointer}/timestamp`,
+        );
+      }
+      return new Date(node.timestamp);
+    }
+    if (typeof node.date === "string") {
+      if (!isISODate(node.date)) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "date (e.g. 2023-01-01)",
+          `${pointer}/date`,
+        );
+      }
+      return new CalendarDate(node.date);
+    }
+  }
+  throw new InvalidConditionError(op, {}, "literal value", pointer);
+}
+
+function readInstant(node: unknown): string | undefined {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (isObject(node)) {
+    const instant = node.timestamp ?? node.date;
+    if (typeof instant === "string") {
+      return instant;
+    }
+  }
+  return undefined;
+}
+
+function readTemporal(
+  op: string,
+  node: unknown,
+  pointer: string,
+): TemporalValue | PropertyReference {
+  if (isPropertyNode(node)) {
+    return prop(readProperty(op, node, pointer));
+  }
+  if (isObject(node)) {
+    if (typeof node.timestamp === "string") {
+      return node.timestamp;
+    }
+    if (typeof node.date === "string") {
+      return node.date;
+    }
+    if (Array.isArray(node.interval)) {
+      if (node.interval.length !== 2) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "interval (2 bounds)",
+          `${pointer}/interval`,
+        );
+      }
+      const [startNode, endNode] = node.interval;
+      const start = readInstant(startNode);
+      const end = readInstant(endNode);
+      if (start === undefined) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "interval start",
+          `${pointer}/interval/0`,
+        );
+      }
+      if (end === undefined) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "interval end",
+          `${pointer}/interval/1`,
+        );
+      }
+      return { start, end };
+    }
+  }
+  throw new InvalidConditionError(op, {}, "temporal literal", pointer);
+}
+
+function readGeometry(
+  op: string,
+  node: unknown,
+  pointer: string,
+): Geometry | BBox | PropertyReference {
+  if (isPropertyNode(node)) {
+    return prop(readProperty(op, node, pointer));
+  }
+  if (isObject(node) && "bbox" in node) {
+    if (isBBox(node.bbox)) {
+      return node.bbox;
+    }
+    throw new InvalidConditionError(
+      op,
+      {},
+      "bbox of 4 or 6 numbers, lower corner first",
+      `${pointer}/bbox`,
+    );
+  }
+  if (isObject(node) && typeof node.type === "string") {
+    const valid =
+      node.type === "GeometryCollection"
+        ? Array.isArray(node.geometries)
+        : Array.isArray(node.coordinates);
+    if (valid) {
+      return node as unknown as Geometry;
+    }
+  }
+  throw new InvalidConditionError(op, {}, "GeoJSON geometry", pointer);
+}
+
+interface InsensitiveNode {
+  node: unknown;
+  pointer: string;
+  options?: TextMatchOptions;
+}
+
+/**
+ * Splits `casei` and `accenti` operations off a comparison argument.
+ */
+function unwrapInsensitive(node: unknown, pointer: string): InsensitiveNode {
+  const options: TextMatchOptions = {};
+  let inner: InsensitiveNode = { node, pointer };
+  while (
+    isObject(inner.node) &&
+    typeof inner.node.op === "string" &&
+    Array.isArray(inner.node.args) &&
+    inner.node.args.length === 1
+  ) {
+    const key = inner.node.op.toLowerCase();
+    if (key === "casei") {
+      options.caseInsensitive = true;
+    } else if (key === "accenti") {
+      options.accentInsensitive = true;
+    } else {
+      break;
+    }
+    inner = { node: inner.node.args[0], pointer: `${inner.pointer}/args/0` };
+  }
+  return inner.node === node ? inner : { ...inner, options };
+}
+
+/**
+ * Unwraps both arguments of a comparison when they are wrapped in the same `casei` and
+ * `accenti` operations, which are read as case- or accent-insensitive options.
+ */
+function unwrapComparison(
+  args: unknown[],
+  pointer: string,
+): [InsensitiveNode, InsensitiveNode] {
+  const left = unwrapInsensitive(args[0], `${pointer}/args/0`);
+  const right = unwrapInsensitive(args[1], `${pointer}/args/1`);
+  return isSameInsensitivity(left.options, right.options)
+    ? [left, right]
+    : [
+        { node: args[0], pointer: `${pointer}/args/0` },
+        { node: args[1], pointer: `${pointer}/args/1` },
+      ];
+}
+
+function readArray(
+  op: string,
+  node: unknown,
+  pointer: string,
+): unknown[] | PropertyReference {
+  if (isPropertyNode(node)) {
+    return prop(readProperty(op, node, pointer));
+  }
+  if (!Array.isArray(node)) {
+    throw new InvalidConditionError(op, {}, "values (array)", pointer);
+  }
+  return node.map((value, index) =>
+    readOperand(op, value, `${pointer}/${index}`),
+  );
+}
+
+function readNullCheck(
+  node: unknown,
+  pointer: string,
+  negated: boolean,
+): Condition {
+  const operation = readOperation(node, pointer);
+  expectArity(operation, 1, pointer);
+  const attr = readProperty(
+    operation.op,
+    operation.args[0],
+    `${pointer}/args/0`,
+  );
+  return negated ? isNotNull(attr) : isNull(attr);
+}
+
+function readInList(
+  node: unknown,
+  pointer: string,
+  negated: boolean,
+): Condition {
+  const operation = readOperation(node, pointer);
+  const { op, args } = operation;
+  expectArity(operation, 2, pointer);
+  const attr = readProperty(op, args[0], `${pointer}/args/0`);
+  const list = args[1];
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new InvalidConditionError(
+      op,
+      {},
+      "values (non-empty array)",
+      `${pointer}/args/1`,
+    );
+  }
+  const values = list.map((value, index) =>
+    readOperand(op, value, `${pointer}/args/1/${index}`),
+  );
+  return negated ? isNotIn(attr, values) : isIn(attr, values);
+}
+
+function readCondition(node: unknown, pointer: string): Condition {
+  const operation = readOperation(node, pointer);
+  const { op, args } = operation;
+  const key = op.toLowerCase();
+
+  switch (key) {
+    case "and":
+    case "or": {
+      if (args.length === 0) {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "args (non-empty array)",
+          `${pointer}/args`,
+        );
+      }
+      const conditions = args.map((arg, index) =>
+        readCondition(arg, `${pointer}/args/${index}`),
+      );
+      return key === "and" ? and(...conditions) : or(...conditions);
+    }
+    case "not": {
+      expectArity(operation, 1, pointer);
+      const inner = args[0];
+      const innerPointer = `${pointer}/args/0`;
+      // Collapse negated null checks and lists onto their dedicated operators
+      if (isObject(inner) && typeof inner.op === "string") {
+        const innerKey = inner.op.toLowerCase();
+        if (innerKey === "isnull") {
+          return readNullCheck(inner, innerPointer, true);
+        }
+        if (innerKey === "in") {
+          return readInList(inner, innerPointer, true);
+        }
+      }
+      return not(readCondition(inner, innerPointer));
+    }
+    case "isnull":
+      return readNullCheck(node, pointer, false);
+    case "in":
+      return readInList(node, pointer, false);
+    case "between": {
+      expectArity(operation, 3, pointer);
+      return between(
+        readAttribute(op, args[0], `${pointer}/args/0`),
+        readOperand(op, args[1], `${pointer}/args/1`),
+        readOperand(op, args[2], `${pointer}/args/2`),
+      );
+    }
+    case "like": {
+      expectArity(operation, 2, pointer);
+      const [attr, pattern] = unwrapComparison(args, pointer);
+      if (typeof pattern.node !== "string") {
+        throw new InvalidConditionError(
+          op,
+          {},
+          "pattern (string)",
+          pattern.pointer,
+        );
+      }
+      return like(
+        readProperty(op, attr.node, attr.pointer),
+        pattern.node,
+        attr.options,
+      );
+    }
+  }
+
+  const comparison = COMPARISON_FACTORIES[key];
+  if (comparison) {
+    expectArity(operation, 2, pointer);
+    const [attr, value] = unwrapComparison(args, pointer);
+    return comparison(
+      readAttribute(op, attr.node, attr.pointer),
+      readOperand(op, value.node, value.pointer),
+      attr.options,
+    );
+  }
+
+  const spatial = SPATIAL_FACTORIES[key];
+  if (spatial) {
+    expectArity(operation, 2, pointer);
+    return spatial(
+      readProperty(op, args[0], `${pointer}/args/0`),
+      readGeometry(op, args[1], `${pointer}/args/1`),
+    );
+  }
+
+  const temporal = TEMPORAL_FACTORIES[key];
+  if (temporal) {
+    expectArity(operation, 2, pointer);
+    return temporal(
+      readProperty(op, args[0], `${pointer}/args/0`),
+      readTemporal(op, args[1], `${pointer}/args/1`),
+    );
+  }
+
+  const array = ARRAY_FACTORIES[key];
+  if (array) {
+    expectArity(operation, 2, pointer);
+    return array(
+      readProperty(op, args[0], `${pointer}/args/0`),
+      readArray(op, args[1], `${pointer}/args/1`),
+    );
+  }
+
+  throw new UnsupportedConditionTypeError(op, {}, pointer);
+}
+
+/**
+ * Reads a CQL2-JSON filter and converts it into a condition tree.
+ * The structure is validated while reading, and the resulting conditions are built with
+ * the same operator factories used by the builder API, so they serialize exactly like
+ * hand-built conditions. Operations used as operands that are not arithmetic are read
+ * as function calls.
+ *
+ * @example
+ * ```typescript
+ * const condition = fromCQLJSON({
+ *   op: "and",
+ *   args: [
+ *     { op: "=", args: [{ property: "status" }, "ACTIVE"] },
+ *     { op: "t_after", args: [{ property: "datetime" }, { timestamp: "2023-01-01T00:00:00Z" }] },
+ *   ],
+ * });
+ * condition.toCQL(createCQLContext());
+ * // (status = 'ACTIVE' AND AFTER(datetime, TIMESTAMP('2023-01-01T00:00:00Z')))
+ * ```
+ *
+ * @param json The parsed CQL2-JSON document
+ * @returns The matching condition
+ * @throws UnsupportedConditionTypeError if an operation is not supported
+ * @throws InvalidConditionError if an operation has malformed arguments; its `pointer` locates the bad node
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html#cql2-json OGC CQL2 - JSON Encoding}
+ */
+export function fromCQLJSON(json: unknown): Condition {
+  return readCondition(json, "");
+}
@@ -0,0 +1,1084 @@
+import type { Geometry } from "geojson";
+import GeometryFactory from "jsts/org/locationtech/jts/geom/GeometryFactory";
+import GeoJSONWriter from "jsts/org/locationtech/jts/io/GeoJSONWriter.js";
+import WKTReader from "jsts/org/locationtech/jts/io/WKTReader.js";
+import { CQLParseError } from "../errors";
+import {
+  add,
+  div,
+  intDiv,
+  mod,
+  mul,
+  sub,
+} from "../operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "../operators/array-operators";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  BBox,
+  Condition,
+  Expression,
+  PropertyReference,
+  TextMatchOptions,
+} from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { isExpression } from "../operators/condition-guards";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { isSameInsensitivity, unwrapInsensitive } from "../operators/operands";
+import { prop } from "../operators/property-reference";
+import {
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  meets,
+  metby,
+  overlappedby,
+  type TemporalValue,
+  tcontains,
+  tequals,
+  tintersects,
+  toverlaps,
+} from "../operators/temporal-operators";
+import {
+  CalendarDate,
+  isISODate,
+  isISOTimestamp,
+} from "../operators/temporal-values";
+import { like } from "../operators/text-operators";
+
+/**
+ * Converts a function argument into the left-hand side of a predicate: property references
+ * become property names, other expressions are kept and literals are rejected.
+ */
+function toAttribute(operand: unknown): string | Expression | undefined {
+  if (!isExpression(operand)) {
+    return undefined;
+  }
+  return operand.kind === "property" ? operand.name : operand;
+}
+
+// Create instances of JSTS readers and writers
+const geometryFactory = new GeometryFactory();
+const wktReader = new WKTReader(geometryFactory);
+const geoJsonWriter = new GeoJSONWriter();
+
+type TokenKind =
+  | "identifier"
+  | "quotedIdentifier"
+  | "string"
+  | "number"
+  | "punctuation"
+  | "operator"
+  | "eof";
+
+interface Token {
+  kind: TokenKind;
+  /** The decoded token value (unquoted for strings and quoted identifiers) */
+  value: string;
+  /** Offset of the first character of the token in the source */
+  start: number;
+  /** Offset just past the last character of the token in the source */
+  end: number;
+  line: number;
+  column: number;
+}
+
+type ArithmeticFactory = (
+  left: ArithmeticOperand,
+  right: ArithmeticOperand,
+) => ArithmeticExpression;
+
+const ADDITIVE_FACTORIES: Record<string, ArithmeticFactory> = {
+  "+": add,
+  "-": sub,
+};
+
+const MULTIPLICATIVE_FACTORIES: Record<string, ArithmeticFactory> = {
+  "*": mul,
+  "/": div,
+  "%": mod,
+  DIV: intDiv,
+};
+
+const COMPARISON_FACTORIES: Record<
+  string,
+  (
+    attr: string | Expression,
+    value: unknown,
+    options?: TextMatchOptions,
+  ) => Condition
+> = {
+  "=": eq,
+  "<>": ne,
+  "<": lt,
+  "<=": lte,
+  ">": gt,
+  ">=": gte,
+};
+
+/**
+ * Spatial function names accepted by the parser.
+ * Both the legacy names emitted by `toCQL()` and the CQL2 `S_` names are recognised.
+ */
+const SPATIAL_FACTORIES: Record<
+  string,
+  (attr: string, geometry: Geometry | BBox | PropertyReference) => Condition
+> = {
+  INTERSECTS: intersects,
+  S_INTERSECTS: intersects,
+  DISJOINT: disjoint,
+  S_DISJOINT: disjoint,
+  CONTAINS: spatialContains,
+  S_CONTAINS: spatialContains,
+  WITHIN: within,
+  S_WITHIN: within,
+  TOUCHES: touches,
+  S_TOUCHES: touches,
+  OVERLAPS: overlaps,
+  S_OVERLAPS: overlaps,
+  CROSSES: crosses,
+  S_CROSSES: crosses,
+  EQUALS: spatialEquals,
+  S_EQUALS: spatialEquals,
+};
+
+/**
+ * Temporal function names accepted by the parser.
+ * Both the legacy names emitted by `toCQL()` and the CQL2 `T_` names are recognised.
+ */
+const TEMPORAL_FACTORIES: Record<
+  string,
+  (attr: string, value: TemporalValue | PropertyReference) => Condition
+> = {
+  ANYINTERACTS: anyinteracts,
+  AFTER: after,
+  T_AFTER: after,
+  BEFORE: before,
+  T_BEFORE: before,
+  BEGINS: begins,
+  T_STARTS: begins,
+  BEGUNBY: begunby,
+  T_STARTEDBY: begunby,
+  TCONTAINS: tcontains,
+  T_CONTAINS: tcontains,
+  DURING: during,
+  T_DURING: during,
+  ENDEDBY: endedby,
+  T_FINISHEDBY: endedby,
+  ENDS: ends,
+  T_FINISHES: ends,
+  TEQUALS: tequals,
+  T_EQUALS: tequals,
+  MEETS: meets,
+  T_MEETS: meets,
+  METBY: metby,
+  T_METBY: metby,
+  TOVERLAPS: toverlaps,
+  T_OVERLAPS: toverlaps,
+  OVERLAPPEDBY: overlappedby,
+  T_OVERLAPPEDBY: overlappedby,
+  TINTERSECTS: tintersects,
+  T_INTERSECTS: tintersects,
+  // CQL2 has no dedicated disjoint condition, so it is expressed as a negated intersection
+  T_DISJOINT: (attr, value) => not(tintersects(attr, value)),
+};
+
+/**
+ * Array function names accepted by the parser.
+ */
+const ARRAY_FACTORIES: Record<
+  string,
+  (attr: string, values: unknown[] | PropertyReference) => Condition
+> = {
+  A_EQUALS: aequals,
+  A_CONTAINS: acontains,
+  A_CONTAINEDBY: acontainedby,
+  A_OVERLAPS: aoverlaps,
+};
+
+const WKT_GEOMETRY_TYPES = new Set([
+  "POINT",
+  "LINESTRING",
+  "POLYGON",
+  "MULTIPOINT",
+  "MULTILINESTRING",
+  "MULTIPOLYGON",
+  "GEOMETRYCOLLECTION",
+]);
+
+/**
+ * Literal constructors that look like function calls, e.g. `TIMESTAMP('...')`.
+ */
+const LITERAL_FUNCTIONS = new Set([
+  "TIMESTAMP",
+  "DATE",
+  "INTERVAL",
+  "BBOX",
+  "ENVELOPE",
+]);
+
+const RESERVED_WORDS = new Set([
+  "AND",
+  "OR",
+  "NOT",
+  "IS",
+  "NULL",
+  "IN",
+  "LIKE",
+  "BETWEEN",
+  "TRUE",
+  "FALSE",
+  "DIV",
+]);
+
+const OPERATORS = ["<>", "<=", ">=", "=", "<", ">", "+", "-", "*", "/", "%"];
+
+/**
+ * Splits CQL text into tokens, tracking the line and column of each one.
+ *
+ * @param source The CQL text to tokenize
+ * @returns The tokens, terminated by an `eof` token
+ * @throws CQLParseError if an unexpected character or unterminated literal is encountered
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (kind: TokenKind, value: string, start: number) => {
+    tokens.push({
+      kind,
+      value,
+      start,
+      end: offset,
+      line,
+      column: start - lineStart + 1,
+    });
+  };
+
+  while (offset < source.length) {
+    const char = source.charAt(offset);
+
+    if (char === "\n") {
+      offset++;
+      line++;
+      lineStart = offset;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      offset++;
+      continue;
+    }
+
+    const start = offset;
+
+    if (char === "'" || char === '"') {
+      let value = "";
+      offset++;
+      for (;;) {
+        if (offset >= source.length) {
+          throw new CQLParseError(
+            line,
+            start - lineStart + 1,
+            `closing ${char}`,
+            "end of input",
+          );
+        }
+        const current = source.charAt(offset);
+        const next = source.charAt(offset + 1);
+        // Quotes are escaped by doubling them; a backslash is an ordinary character
+        if (current === char && next === char) {
+          value += char;
+          offset += 2;
+          continue;
+        }
+        if (current === char) {
+          offset++;
+          break;
+        }
+        value += current;
+        offset++;
+      }
+      push(char === "'" ? "string" : "quotedIdentifier", value, start);
+      continue;
+    }
+
+    const numberMatch = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(
+      source.slice(offset),
+    );
+    if (numberMatch) {
+      offset += numberMatch[0].length;
+      push("number", numberMatch[0], start);
+      continue;
+    }
+
+    const identifierMatch = /^[A-Za-z_][A-Za-z0-9_.:]*/.exec(
+      source.slice(offset),
+    );
+    if (identifierMatch) {
+      offset += identifierMatch[0].length;
+      push("identifier", identifierMatch[0], start);
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      offset++;
+      push("punctuation", char, start);
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, offset));
+    if (operator) {
+      offset += operator.length;
+      push("operator", operator, start);
+      continue;
+    }
+
+    throw new CQLParseError(
+      line,
+      start - lineStart + 1,
+      "a valid token",
+      `'${char}'`,
+    );
+  }
+
+  push("eof", "", offset);
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for CQL2 text filter expressions.
+ */
+class CQLTextParser {
+  private readonly tokens: Token[];
+  private position = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Condition {
+    const condition = this.parseOr();
+    const token = this.peek();
+    if (token.kind !== "eof") {
+      this.fail("end of input", token);
+    }
+    return condition;
+  }
+
+  private parseOr(): Condition {
+    const conditions = [this.parseAnd()];
+    while (this.matchKeyword("OR")) {
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1
+      ? (conditions[0] as Condition)
+      : or(...conditions);
+  }
+
+  private parseAnd(): Condition {
+    const conditions = [this.parseNot()];
+    while (this.matchKeyword("AND")) {
+      conditions.push(this.parseNot());
+    }
+    return conditions.length === 1
+      ? (conditions[0] as Condition)
+      : and(...conditions);
+  }
+
+  private parseNot(): Condition {
+    if (this.matchKeyword("NOT")) {
+      return not(this.parseNot());
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Condition {
+    const token = this.peek();
+
+    if (this.isPunctuation(token, "(")) {
+      const start = this.position;
+      try {
+        this.advance();
+        const condition = this.parseOr();
+        this.expectPunctuation(")");
+        return condition;
+      } catch (error) {
+        if (!(error instanceof CQLParseError)) {
+          throw error;
+        }
+        // The parenthesis may open an arithmetic expression instead, e.g. `(a + b) * 2 > 10`
+        this.position = start;
+        try {
+          return this.parsePropertyPredicate();
+        } catch {
+          throw error;
+        }
+      }
+    }
+
+    if (token.kind === "identifier" && this.isPunctuation(this.peek(1), "(")) {
+      const name = token.value.toUpperCase();
+      const spatial = SPATIAL_FACTORIES[name];
+      if (spatial) {
+        return this.parseSpatialPredicate(spatial);
+      }
+      const temporal = TEMPORAL_FACTORIES[name];
+      if (temporal) {
+        return this.parseTemporalPredicate(temporal);
+      }
+      const array = ARRAY_FACTORIES[name];
+      if (array) {
+        return this.parseArrayPredicate(array);
+      }
+    }
+
+    if (token.kind === "eof") {
+      this.fail("condition", token);
+    }
+
+    return this.parsePropertyPredicate();
+  }
+
+  private parseSpatialPredicate(
+    factory: (
+      attr: string,
+      geometry: Geometry | BBox | PropertyReference,
+    ) => Condition,
+  ): Condition {
+    this.advance();
+    this.expectPunctuation("(");
+    const attr = this.expectProperty();
+    this.expectPunctuation(",");
+    const geometry = this.parseGeometry();
+    this.expectPunctuation(")");
+    return factory(attr, geometry);
+  }
+
+  private parseTemporalPredicate(
+    factory: (
+      attr: string,
+      value: TemporalValue | PropertyReference,
+    ) => Condition,
+  ): Condition {
+    this.advance();
+    this.expectPunctuation("(");
+    const attr = this.expectProperty();
+    this.expectPunctuation(",");
+    const value = this.parseTemporalLiteral();
+    this.expectPunctuation(")");
+    return factory(attr, value);
+  }
+
+  private parseArrayPredicate(
+    factory: (attr: string, values: unknown[] | PropertyReference) => Condition,
+  ): Condition {
+    this.advance();
+    this.expectPunctuation("(");
+    const attr = this.expectProperty();
+    this.expectPunctuation(",");
+    const values = this.isPropertyReference(this.peek())
+      ? prop(this.expectProperty())
+      : this.parseArrayLiteral();
+    this.expectPunctuation(")");
+    return factory(attr, values);
+  }
+
+  /**
+   * Parses an array literal such as `('a', 'b')`. Unlike IN lists, arrays may be empty.
+   */
+  private parseArrayLiteral(): unknown[] {
+    if (
+      this.isPunctuation(this.peek(), "(") &&
+      this.isPunctuation(this.peek(1), ")")
+    ) {
+      this.advance();
+      this.advance();
+      return [];
+    }
+    return this.parseOperandList();
+  }
+
+  private parsePropertyPredicate(): Condition {
+    const attr = this.parseAttribute();
+    // Expressions can only be compared, so IS NULL, IN and LIKE require a property name
+    const isProperty = typeof attr === "string";
+    // `CASEI(name)` and `ACCENTI(name)` are read as comparisons with case- or accent-insensitive options
+    const insensitive = unwrapInsensitive(attr);
+    const insensitiveAttr = toAttribute(insensitive.operand);
+
+    if (isProperty && this.matchKeyword("IS")) {
+      const negated = this.matchKeyword("NOT");
+      this.expectKeyword("NULL");
+      return negated ? isNotNull(attr) : isNull(attr);
+    }
+
+    const negated = this.matchKeyword("NOT");
+    let condition: Condition;
+
+    if (this.matchKeyword("BETWEEN")) {
+      const lower = this.parseOperand();
+      this.expectKeyword("AND");
+      const upper = this.parseOperand();
+      condition = between(attr, lower, upper);
+    } else if (isProperty && this.matchKeyword("IN")) {
+      const values = this.parseOperandList();
+      return negated ? isNotIn(attr, values) : isIn(attr, values);
+    } else if (isProperty && this.matchKeyword("ILIKE")) {
+      condition = like(attr, this.expectString(), { caseInsensitive: true });
+    } else if (isProperty && this.matchKeyword("LIKE")) {
+      condition = like(attr, this.expectString());
+    } else if (
+      insensitive.options &&
+      typeof insensitiveAttr === "string" &&
+      this.matchKeyword("LIKE")
+    ) {
+      const token = this.peek();
+      const pattern = unwrapInsensitive(this.parseOperand());
+      if (
+        typeof pattern.operand !== "string" ||
+        !isSameInsensitivity(insensitive.options, pattern.options)
+      ) {
+        this.fail("pattern with the same CASEI or ACCENTI functions", token);
+      }
+      condition = like(insensitiveAttr, pattern.operand, insensitive.options);
+    } else if (negated) {
+      this.fail("BETWEEN, IN or LIKE", this.peek());
+    } else {
+      const token = this.peek();
+      const factory =
+        token.kind === "operator"
+          ? COMPARISON_FACTORIES[token.value]
+          : undefined;
+      if (!factory) {
+        this.fail("comparison operator", token);
+      }
+      this.advance();
+      const value = this.parseOperand();
+      const insensitiveValue = unwrapInsensitive(value);
+      if (
+        insensitiveAttr !== undefined &&
+        isSameInsensitivity(insensitive.options, insensitiveValue.options)
+      ) {
+        return factory(
+          insensitiveAttr,
+          insensitiveValue.operand,
+          insensitive.options,
+        );
+      }
+      return factory(attr, value);
+    }
+
+    return negated ? not(condition) : condition;
+  }
+
+  /**
+   * Parses the left-hand side of a predicate: a property name or an arithmetic expression.
+   */
+  private parseAttribute(): string | Expression {
+    const start = this.peek();
+    const operand = this.parseArithmetic();
+    if (typeof operand === "number") {
+      this.fail("property name", start);
+    }
+    return operand;
+  }
+
+  /**
+   * Parses the right-hand side of a comparison: a literal, a property or an arithmetic expression.
+   */
+  private parseOperand(): unknown {
+    const start = this.peek();
+    const startsArithmetic =
+      start.kind === "number" ||
+      start.kind === "quotedIdentifier" ||
+      this.isPunctuation(start, "(") ||
+      (start.kind === "operator" && start.value in ADDITIVE_FACTORIES) ||
+      (start.kind === "identifier" &&
+        !RESERVED_WORDS.has(start.value.toUpperCase()) &&
+        !this.isPunctuation(this.peek(1), "(")) ||
+      this.isFunctionCall(start);
+    if (!startsArithmetic) {
+      return this.parseLiteral();
+    }
+    const operand = this.parseArithmetic();
+    return typeof operand === "string" ? prop(operand) : operand;
+  }
+
+  private parseArithmetic(): ArithmeticOperand {
+    let left = this.parseArithmeticTerm();
+    for (;;) {
+      const token = this.peek();
+      const factory =
+        token.kind === "operator" ? ADDITIVE_FACTORIES[token.value] : undefined;
+      if (!factory) {
+        return left;
+      }
+      this.advance();
+      left = factory(left, this.parseArithmeticTerm());
+    }
+  }
+
+  private parseArithmeticTerm(): ArithmeticOperand {
+    let left = this.parseArithmeticFactor();
+    for (;;) {
+      const token = this.peek();
+      const factory =
+        token.kind === "operator" || token.kind === "identifier"
+          ? MULTIPLICATIVE_FACTORIES[token.value.toUpperCase()]
+          : undefined;
+      if (!factory) {
+        return left;
+      }
+      this.advance();
+      left = factory(left, this.parseArithmeticFactor());
+    }
+  }
+
+  private parseArithmeticFactor(): ArithmeticOperand {
+    const token = this.peek();
+
+    if (this.matchPunctuation("(")) {
+      const expression = this.parseArithmetic();
+      this.expectPunctuation(")");
+      return expression;
+    }
+
+    if (token.kind === "number") {
+      this.advance();
+      return Number(token.value);
+    }
+
+    if (
+      token.kind === "operator" &&
+      token.value in ADDITIVE_FACTORIES &&
+      this.peek(1).kind === "number"
+    ) {
+      this.advance();
+      const number = Number(this.advance().value);
+      return token.value === "-" ? -number : number;
+    }
+
+    if (this.isFunctionCall(token)) {
+      return this.parseFunctionCall();
+    }
+
+    return this.expectProperty();
+  }
+
+  /**
+   * Checks whether a token starts a function call such as `strToLowerCase(name)`,
+   * rather than a literal written in function form like `TIMESTAMP('...')` or `POINT(0 0)`.
+   */
+  private isFunctionCall(token: Token): boolean {
+    if (token.kind !== "identifier" || !this.isPunctuation(this.peek(1), "(")) {
+      return false;
+    }
+    const name = token.value.toUpperCase();
+    return (
+      !RESERVED_WORDS.has(name) &&
+      !LITERAL_FUNCTIONS.has(name) &&
+      !WKT_GEOMETRY_TYPES.has(name)
+    );
+  }
+
+  private parseFunctionCall(): ArithmeticOperand {
+    const name = this.advance().value;
+    this.expectPunctuation("(");
+    const args: unknown[] = [];
+    if (!this.matchPunctuation(")")) {
+      do {
+        args.push(this.parseFunctionArgument());
+      } while (this.matchPunctuation(","));
+      this.expectPunctuation(")");
+    }
+    return fn(name, ...args);
+  }
+
+  /**
+   * Parses a function argument: a geometry literal or any comparison operand.
+   */
+  private parseFunctionArgument(): unknown {
+    const token = this.peek();
+    if (
+      token.kind === "identifier" &&
+      WKT_GEOMETRY_TYPES.has(token.value.toUpperCase())
+    ) {
+      return this.parseGeometry();
+    }
+    return this.parseOperand();
+  }
+
+  private parseOperandList(): unknown[] {
+    this.expectPunctuation("(");
+    const values = [this.parseOperand()];
+    while (this.matchPunctuation(",")) {
+      values.push(this.parseOperand());
+    }
+    this.expectPunctuation(")");
+    return values;
+  }
+
+  private parseLiteral(): unknown {
+    const token = this.peek();
+
+    if (token.kind === "string") {
+      this.advance();
+      return token.value;
+    }
+
+    if (token.kind === "number") {
+      this.advance();
+      return Number(token.value);
+    }
+
+    if (
+      token.kind === "operator" &&
+      (token.value === "-" || token.value === "+") &&
+      this.peek(1).kind === "number"
+    ) {
+      this.advance();
+      const number = Number(this.advance().value);
+      return token.value === "-" ? -number : number;
+    }
+
+    if (token.kind === "identifier") {
+      const keyword = token.value.toUpperCase();
+      if (keyword === "TRUE" || keyword === "FALSE") {
+        this.advance();
+        return keyword === "TRUE";
+      }
+      if (keyword === "NULL") {
+        this.advance();
+        return null;
+      }
+      if (
+        (keyword === "TIMESTAMP" || keyword === "DATE") &&
+        this.isPunctuation(this.peek(1), "(")
+      ) {
+        const literal = this.peek(2);
+        const instant = this.parseInstant();
+        if (keyword === "DATE") {
+          if (!isISODate(instant)) this.fail("ISO 8601 date", literal);
+          return new CalendarDate(instant);
+        }
+        if (!isISOTimestamp(instant)) this.fail("UTC timestamp", literal);
+        return new Date(instant);
+      }
+    }
+
+    this.fail("literal value", token);
+  }
+
+  private parseTemporalLiteral(): TemporalValue | PropertyReference {
+    const token = this.peek();
+    if (this.isPropertyReference(token)) {
+      return prop(this.expectProperty());
+    }
+    if (
+      token.kind === "identifier" &&
+      token.value.toUpperCase() === "INTERVAL"
+    ) {
+      this.advance();
+      this.expectPunctuation("(");
+      const start = this.parseIntervalBound();
+      this.expectPunctuation(",");
+      const end = this.parseIntervalBound();
+      this.expectPunctuation(")");
+      return { start, end };
+    }
+    return this.parseInstant();
+  }
+
+  private parseIntervalBound(): string {
+    const token = this.peek();
+    if (token.kind === "string") {
+      this.advance();
+      return token.value;
+    }
+    return this.parseInstant();
+  }
+
+  /**
+   * Parses a `TIMESTAMP('...')` or `DATE('...')` literal and returns its ISO 8601 string.
+   */
+  private parseInstant(): string {
+    const token = this.peek();
+    const keyword =
+      token.kind === "identifier" ? token.value.toUpperCase() : "";
+    if (keyword !== "TIMESTAMP" && keyword !== "DATE") {
+      this.fail("temporal literal", token);
+    }
+    this.advance();
+    this.expectPunctuation("(");
+    const value = this.expectString();
+    this.expectPunctuation(")");
+    return value;
+  }
+
+  /**
+   * Parses a WKT geometry literal and converts it to GeoJSON.
+   * The literal is located by balancing parentheses, then handed to the JSTS WKT reader.
+   * `BBOX(...)` and `ENVELOPE(...)` literals are read as bounding boxes.
+   */
+  private parseGeometry(): Geometry | BBox | PropertyReference {
+    const token = this.peek();
+    if (this.isPropertyReference(token)) {
+      return prop(this.expectProperty());
+    }
+    if (token.kind === "identifier") {
+      const keyword = token.value.toUpperCase();
+      if (keyword === "BBOX" || keyword === "ENVELOPE") {
+        return this.parseBBox(keyword);
+      }
+    }
+    if (
+      token.kind !== "identifier" ||
+      !WKT_GEOMETRY_TYPES.has(token.value.toUpperCase())
+    ) {
+      this.fail("WKT geometry", token);
+    }
+    this.advance();
+
+    let end = token.end;
+    // Optional dimension markers (Z, M, ZM) and the EMPTY keyword
+    while (this.peek().kind === "identifier") {
+      const modifier = this.advance();
+      end = modifier.end;
+      if (modifier.value.toUpperCase() === "EMPTY") {
+        return this.readWKT(token, end);
+      }
+    }
+
+    this.expectPunctuation("(");
+    let depth = 1;
+    while (depth > 0) {
+      const next = this.advance();
+      if (next.kind === "eof") {
+        this.fail("')'", next);
+      }
+      if (this.isPunctuation(next, "(")) depth++;
+      if (this.isPunctuation(next, ")")) depth--;
+      end = next.end;
+    }
+
+    return this.readWKT(token, end);
+  }
+
+  /**
+   * Parses a CQL2 `BBOX(minx, miny, maxx, maxy)` literal (optionally with z bounds),
+   * or a CQL 1.0 / ECQL `ENVELOPE(west, east, north, south)` literal.
+   */
+  private parseBBox(keyword: string): BBox {
+    this.advance();
+    this.expectPunctuation("(");
+    const numbers = [this.parseNumber()];
+    while (this.matchPunctuation(",")) {
+      numbers.push(this.parseNumber());
+    }
+    const close = this.peek();
+    this.expectPunctuation(")");
+
+    if (keyword === "ENVELOPE") {
+      if (numbers.length !== 4) {
+        this.fail("ENVELOPE with 4 numbers", close);
+      }
+      const [west, east, north, south] = numbers as [
+        number,
+        number,
+        number,
+        number,
+      ];
+      return [west, south, east, north];
+    }
+    if (numbers.length !== 4 && numbers.length !== 6) {
+      this.fail("BBOX with 4 or 6 numbers", close);
+    }
+    return numbers as BBox;
+  }
+
+  private parseNumber(): number {
+    const token = this.peek();
+    const value = this.parseLiteral();
+    if (typeof value !== "number") {
+      this.fail("number", token);
+    }
+    return value;
+  }
+
+  /**
+   * Checks whether a token starts a property name rather than a geometry or temporal literal,
+   * e.g. `footprint` in `INTERSECTS(geometry, footprint)`.
+   */
+  private isPropertyReference(token: Token): boolean {
+    if (token.kind === "quotedIdentifier") {
+      return true;
+    }
+    return (
+      token.kind === "identifier" &&
+      !RESERVED_WORDS.has(token.value.toUpperCase()) &&
+      !WKT_GEOMETRY_TYPES.has(token.value.toUpperCase()) &&
+      !this.isPunctuation(this.peek(1), "(")
+    );
+  }
+
+  private readWKT(start: Token, end: number): Geometry {
+    const wkt = this.source.slice(start.start, end);
+    try {
+      return geoJsonWriter.write(wktReader.read(wkt)) as Geometry;
+    } catch {
+      throw new CQLParseError(
+        start.line,
+        start.column,
+        "valid WKT geometry",
+        `'${wkt}'`,
+      );
+    }
+  }
+
+  private expectProperty(): string {
+    const token = this.peek();
+    if (token.kind === "quotedIdentifier") {
+      this.advance();
+      return token.value;
+    }
+    if (
+      token.kind === "identifier" &&
+      !RESERVED_WORDS.has(token.value.toUpperCase())
+    ) {
+      this.advance();
+      return token.value;
+    }
+    this.fail("property name", token);
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (token.kind !== "string") {
+      this.fail("string literal", token);
+    }
+    this.advance();
+    return token.value;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      this.fail(keyword, this.peek());
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      this.fail(`'${value}'`, this.peek());
+    }
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind === "identifier" && token.value.toUpperCase() === keyword) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (this.isPunctuation(this.peek(), value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private isPunctuation(token: Token, value: string): boolean {
+    return token.kind === "punctuation" && token.value === value;
+  }
+
+  private peek(lookahead = 0): Token {
+    const index = Math.min(this.position + lookahead, this.tokens.length - 1);
+    return this.tokens[index] as Token;
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.kind !== "eof") {
+      this.position++;
+    }
+    return token;
+  }
+
+  private fail(expected: string, token: Token): never {
+    const found =
+      token.kind === "eof"
+        ? "end of input"
+        : `'${this.source.slice(token.start, token.end)}'`;
+    throw new CQLParseError(token.line, token.column, expected, found);
+  }
+}
+
+/**
+ * Parses a CQL2 text filter expression into a condition tree.
+ * The resulting conditions are built with the same operator factories used by the
+ * builder API, so they serialize back to CQL exactly like hand-built conditions.
+ *
+ * Both the CQL2 function names (`S_INTERSECTS`, `T_DURING`, ...) and the names
+ * emitted by {@link QueryBuilder.toCQL} (`INTERSECTS`, `DURING`, ...) are accepted.
+ * WKT geometries are converted to GeoJSON, `TIMESTAMP`/`DATE` literals in temporal
+ * predicates become ISO 8601 strings and `INTERVAL` literals become `{ start, end }` objects.
+ * In comparisons they become `Date` values, and `DATE` literals are written back as dates.
+ * Arithmetic expressions (`price * quantity > 1000`) are parsed into expression operands
+ * and property names on the right-hand side (`updated_at > created_at`) into property references.
+ * Calls to other functions (`strToLowerCase(name) = 'zurich'`) become function calls
+ * and array literals in `A_CONTAINS(tags, ('a', 'b'))` and the other array functions become arrays.
+ *
+ * @example
+ * ```typescript
+ * const condition = parseCQL("(status = 'ACTIVE' AND age > 18)");
+ * condition.toCQL(createCQLContext()); // (status = 'ACTIVE' AND age > 18)
+ *
+ * parseCQL("INTERSECTS(geometry, POINT (0 0))");
+ * // equivalent to intersects("geometry", { type: "Point", coordinates: [0, 0] })
+ * ```
+ *
+ * @param text The CQL2 text to parse
+ * @returns The parsed condition
+ * @throws CQLParseError if the text is not a valid filter expression
+ * @see {@link https://docs.ogc.org/is/21-065r2/21-065r2.html OGC CQL2 - Text Encoding}
+ */
+export function parseCQL(text: string): Condition {
+  return new CQLTextParser(text).parse();
+}
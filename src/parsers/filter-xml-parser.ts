@@ -0,0 +1,903 @@
+import type { Geometry, Position } from "geojson";
+import {
+  CQLParseError,
+  InvalidConditionError,
+  UnsupportedConditionTypeError,
+} from "../errors";
+import { add, div, mul, sub } from "../operators/arithmetic-operators";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  BBox,
+  Condition,
+  Expression,
+  FunctionCall,
+  PropertyReference,
+  TextMatchOptions,
+} from "../operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "../operators/comparison-operators";
+import { fn } from "../operators/function-calls";
+import { and, not, or } from "../operators/logical-operators";
+import { prop } from "../operators/property-reference";
+import {
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "../operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  type IntervalBound,
+  meets,
+  metby,
+  overlappedby,
+  type TemporalValue,
+  tcontains,
+  tequals,
+  toverlaps,
+} from "../operators/temporal-operators";
+import { like } from "../operators/text-operators";
+
+/**
+ * An XML element. Names are kept both as written (`qname`) and without their namespace
+ * prefix (`name`), which is what the reader matches on.
+ */
+interface XMLElement {
+  qname: string;
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+  text: string;
+  /** XPath-like location of the element, used in error messages */
+  path: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function localName(qname: string): string {
+  return qname.slice(qname.indexOf(":") + 1);
+}
+
+/**
+ * A minimal, non-validating XML reader. It handles elements, attributes, text, CDATA,
+ * character and predefined entity references, and skips the XML declaration, processing
+ * instructions, comments and doctype. Namespace declarations are read as plain attributes.
+ */
+class XMLReader {
+  private offset = 0;
+
+  constructor(private readonly source: string) {}
+
+  read(): XMLElement {
+    this.skipMisc();
+    const root = this.readElement("");
+    this.skipMisc();
+    if (this.offset < this.source.length) {
+      this.fail("end of document");
+    }
+    return root;
+  }
+
+  private readElement(parentPath: string): XMLElement {
+    this.expect("<");
+    const qname = this.readName();
+    const attributes: Record<string, string> = {};
+    const element: XMLElement = {
+      qname,
+      name: localName(qname),
+      attributes,
+      children: [],
+      text: "",
+      path: `${parentPath}/${qname}`,
+    };
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source.startsWith("/>", this.offset)) {
+        this.offset += 2;
+        return element;
+      }
+      if (this.source.startsWith(">", this.offset)) {
+        this.offset++;
+        break;
+      }
+      const name = this.readName();
+      this.skipWhitespace();
+      this.expect("=");
+      this.skipWhitespace();
+      const quote = this.source.charAt(this.offset);
+      if (quote !== '"' && quote !== "'") {
+        this.fail("quoted attribute value");
+      }
+      const end = this.source.indexOf(quote, this.offset + 1);
+      if (end < 0) {
+        this.fail(`closing ${quote}`);
+      }
+      attributes[localName(name)] = this.decode(
+        this.source.slice(this.offset + 1, end),
+      );
+      this.offset = end + 1;
+    }
+
+    const counts = new Map<string, number>();
+    for (;;) {
+      if (this.offset >= this.source.length) {
+        this.fail(`</${qname}>`);
+      }
+      if (this.source.startsWith("</", this.offset)) {
+        this.offset += 2;
+        const closing = this.readName();
+        if (closing !== qname) {
+          this.fail(`</${qname}>`, closing.length + 2);
+        }
+        this.skipWhitespace();
+        this.expect(">");
+        return element;
+      }
+      if (this.source.startsWith("<![CDATA[", this.offset)) {
+        const end = this.source.indexOf("]]>", this.offset);
+        if (end < 0) {
+          this.fail("]]>");
+        }
+        element.text += this.source.slice(this.offset + 9, end);
+        this.offset = end + 3;
+        continue;
+      }
+      if (
+        this.source.startsWith("<!--", this.offset) ||
+        this.source.startsWith("<?", this.offset)
+      ) {
+        this.skipMisc();
+        continue;
+      }
+      if (this.source.startsWith("<", this.offset)) {
+        const child = this.readElement(element.path);
+        // Number repeated siblings so that error locations are unambiguous
+        const count = (counts.get(child.qname) ?? 0) + 1;
+        counts.set(child.qname, count);
+        if (count > 1) {
+          child.path = `${element.path}/${child.qname}[${count}]`;
+        }
+        element.children.push(child);
+        continue;
+      }
+      const end = this.source.indexOf("<", this.offset);
+      const text = this.source.slice(
+        this.offset,
+        end < 0 ? this.source.length : end,
+      );
+      element.text += this.decode(text);
+      this.offset += text.length;
+    }
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(this.source.slice(this.offset));
+    if (!match) {
+      this.fail("a name");
+    }
+    this.offset += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Skips whitespace, the XML declaration, processing instructions, comments and doctype.
+   */
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace();
+      const terminator = this.source.startsWith("<?", this.offset)
+        ? "?>"
+        : this.source.startsWith("<!--", this.offset)
+          ? "-->"
+          : this.source.startsWith("<!DOCTYPE", this.offset)
+            ? ">"
+            : undefined;
+      if (!terminator) {
+        return;
+      }
+      const end = this.source.indexOf(terminator, this.offset);
+      if (end < 0) {
+        this.fail(terminator);
+      }
+      this.offset = end + terminator.length;
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source.charAt(this.offset))) {
+      this.offset++;
+    }
+  }
+
+  private expect(value: string): void {
+    if (!this.source.startsWith(value, this.offset)) {
+      this.fail(`'${value}'`);
+    }
+    this.offset += value.length;
+  }
+
+  private decode(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (reference, name) => {
+      if (name.startsWith("#x")) {
+        return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+      }
+      if (name.startsWith("#")) {
+        return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+      }
+      return ENTITIES[name] ?? reference;
+    });
+  }
+
+  private fail(expected: string, back = 0): never {
+    const offset = this.offset - back;
+    const before = this.source.slice(0, offset);
+    const line = before.split("\n").length;
+    const column = offset - before.lastIndexOf("\n");
+    const found =
+      offset >= this.source.length
+        ? "end of input"
+        : `'${this.source.slice(offset, offset + 10)}'`;
+    throw new CQLParseError(line, column, expected, found);
+  }
+}
+
+const ARITHMETIC_FACTORIES: Record<
+  string,
+  (left: ArithmeticOperand, right: ArithmeticOperand) => ArithmeticExpression
+> = {
+  Add: add,
+  Sub: sub,
+  Mul: mul,
+  Div: div,
+};
+
+type ComparisonFactory = (
+  attr: string | Expression,
+  value: unknown,
+  options?: TextMatchOptions,
+) => Condition;
+
+const COMPARISON_FACTORIES: Record<string, ComparisonFactory> = {
+  PropertyIsEqualTo: eq,
+  PropertyIsNotEqualTo: ne,
+  PropertyIsLessThan: lt,
+  PropertyIsLessThanOrEqualTo: lte,
+  PropertyIsGreaterThan: gt,
+  PropertyIsGreaterThanOrEqualTo: gte,
+};
+
+/**
+ * Comparisons with their operands swapped, for filters that put the literal first.
+ */
+const MIRRORED_COMPARISONS: Record<string, ComparisonFactory> = {
+  PropertyIsEqualTo: eq,
+  PropertyIsNotEqualTo: ne,
+  PropertyIsLessThan: gt,
+  PropertyIsLessThanOrEqualTo: gte,
+  PropertyIsGreaterThan: lt,
+  PropertyIsGreaterThanOrEqualTo: lte,
+};
+
+const SPATIAL_FACTORIES: Record<
+  string,
+  (attr: string, geometry: Geometry | BBox | PropertyReference) => Condition
+> = {
+  Intersects: intersects,
+  Disjoint: disjoint,
+  Contains: spatialContains,
+  Within: within,
+  Touches: touches,
+  Overlaps: overlaps,
+  Crosses: crosses,
+  Equals: spatialEquals,
+  BBOX: intersects,
+};
+
+const TEMPORAL_FACTORIES: Record<
+  string,
+  (attr: string, value: TemporalValue | PropertyReference) => Condition
+> = {
+  After: after,
+  Before: before,
+  Begins: begins,
+  BegunBy: begunby,
+  TContains: tcontains,
+  During: during,
+  EndedBy: endedby,
+  Ends: ends,
+  TEquals: tequals,
+  Meets: meets,
+  MetBy: metby,
+  TOverlaps: toverlaps,
+  OverlappedBy: overlappedby,
+  AnyInteracts: anyinteracts,
+};
+
+const PROPERTY_ELEMENTS = new Set(["ValueReference", "PropertyName"]);
+
+const GML_GEOMETRIES = new Set([
+  "Point",
+  "LineString",
+  "LinearRing",
+  "Polygon",
+  "MultiPoint",
+  "MultiLineString",
+  "MultiCurve",
+  "MultiPolygon",
+  "MultiSurface",
+  "MultiGeometry",
+  "Envelope",
+  "Box",
+]);
+
+/**
+ * Plain decimal numbers; literals with leading zeros such as postal codes stay strings.
+ */
+const NUMBER_LITERAL = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+function unsupported(element: XMLElement): never {
+  throw new UnsupportedConditionTypeError(element.qname, {}, element.path);
+}
+
+function invalid(element: XMLElement, missing: string): never {
+  throw new InvalidConditionError(element.qname, {}, missing, element.path);
+}
+
+function expectChildren(element: XMLElement, count: number): XMLElement[] {
+  if (element.children.length !== count) {
+    invalid(element, `${count} child ${count === 1 ? "element" : "elements"}`);
+  }
+  return element.children;
+}
+
+function child(element: XMLElement, name: string): XMLElement | undefined {
+  return element.children.find((c) => c.name === name);
+}
+
+function requireChild(element: XMLElement, name: string): XMLElement {
+  return child(element, name) ?? invalid(element, name);
+}
+
+function isProperty(element: XMLElement): boolean {
+  return PROPERTY_ELEMENTS.has(element.name);
+}
+
+/**
+ * Reads a property path, converting XPath steps (`address/city`) into dotted paths.
+ */
+function readProperty(element: XMLElement): string {
+  const path = element.text.trim();
+  if (!isProperty(element) || !path) {
+    invalid(element, "property name");
+  }
+  return path.replace(/\//g, ".");
+}
+
+function readLiteral(element: XMLElement): unknown {
+  const geometry = element.children[0];
+  if (geometry) {
+    return readGeometry(geometry);
+  }
+  const text = element.text.trim();
+  return NUMBER_LITERAL.test(text) ? Number(text) : element.text;
+}
+
+function readFunction(element: XMLElement): FunctionCall {
+  const name = element.attributes.name;
+  if (!name) {
+    invalid(element, "name attribute");
+  }
+  return fn(name, ...element.children.map(readFunctionArgument));
+}
+
+function readFunctionArgument(element: XMLElement): unknown {
+  return GML_GEOMETRIES.has(element.name)
+    ? readGeometry(element)
+    : readOperand(element);
+}
+
+function readArithmeticOperand(element: XMLElement): ArithmeticOperand {
+  if (isProperty(element)) {
+    return readProperty(element);
+  }
+  if (element.name === "Literal") {
+    const value = readLiteral(element);
+    if (typeof value !== "number") {
+      invalid(element, "numeric literal");
+    }
+    return value;
+  }
+  const operand = readExpression(element);
+  if (!operand || operand.kind === "property") {
+    unsupported(element);
+  }
+  return operand;
+}
+
+/**
+ * Reads an arithmetic element or a function call, or returns undefined for other elements.
+ */
+function readExpression(element: XMLElement): Expression | undefined {
+  if (element.name === "Function") {
+    return readFunction(element);
+  }
+  const arithmetic = ARITHMETIC_FACTORIES[element.name];
+  if (arithmetic) {
+    const [left, right] = expectChildren(element, 2) as [
+      XMLElement,
+      XMLElement,
+    ];
+    return arithmetic(
+      readArithmeticOperand(left),
+      readArithmeticOperand(right),
+    );
+  }
+  return undefined;
+}
+
+function readAttribute(element: XMLElement): string | Expression {
+  if (isProperty(element)) {
+    return readProperty(element);
+  }
+  return readExpression(element) ?? unsupported(element);
+}
+
+function readOperand(element: XMLElement): unknown {
+  if (element.name === "Literal") {
+    return readLiteral(element);
+  }
+  if (isProperty(element)) {
+    return prop(readProperty(element));
+  }
+  return readExpression(element) ?? unsupported(element);
+}
+
+function matchOptions(element: XMLElement): TextMatchOptions | undefined {
+  return element.attributes.matchCase === "false"
+    ? { caseInsensitive: true }
+    : undefined;
+}
+
+function readComparison(
+  element: XMLElement,
+  factory: ComparisonFactory,
+): Condition {
+  const [left, right] = expectChildren(element, 2) as [XMLElement, XMLElement];
+  const options = matchOptions(element);
+  if (left.name === "Literal" && right.name !== "Literal") {
+    const mirrored = MIRRORED_COMPARISONS[element.name] as ComparisonFactory;
+    return mirrored(readAttribute(right), readLiteral(left), options);
+  }
+  return factory(readAttribute(left), readOperand(right), options);
+}
+
+function readBetween(element: XMLElement): Condition {
+  const [attr] = element.children;
+  if (!attr) {
+    invalid(element, "expression");
+  }
+  const bound = (name: string) => {
+    const boundary = requireChild(element, name);
+    return readOperand(expectChildren(boundary, 1)[0] as XMLElement);
+  };
+  return between(
+    readAttribute(attr),
+    bound("LowerBoundary"),
+    bound("UpperBoundary"),
+  );
+}
+
+/**
+ * Rewrites a `PropertyIsLike` pattern with its own wildcard characters into a LIKE pattern
+ * with `%`, `_` and `\`, escaping characters that would otherwise become wildcards.
+ */
+function readLikePattern(element: XMLElement, pattern: string): string {
+  const { wildCard = "*", singleChar = "?" } = element.attributes;
+  const escapeChar =
+    element.attributes.escapeChar ?? element.attributes.escape ?? "\\";
+  const escapeLiteral = (char: string) =>
+    char === "%" || char === "_" || char === "\\" ? `\\${char}` : char;
+  let result = "";
+  let offset = 0;
+  while (offset < pattern.length) {
+    if (escapeChar && pattern.startsWith(escapeChar, offset)) {
+      offset += escapeChar.length;
+      const next = pattern.charAt(offset);
+      result += escapeLiteral(next);
+      offset += next.length;
+    } else if (wildCard && pattern.startsWith(wildCard, offset)) {
+      result += "%";
+      offset += wildCard.length;
+    } else if (singleChar && pattern.startsWith(singleChar, offset)) {
+      result += "_";
+      offset += singleChar.length;
+    } else {
+      result += escapeLiteral(pattern.charAt(offset));
+      offset++;
+    }
+  }
+  return result;
+}
+
+function readLike(element: XMLElement): Condition {
+  const [attr, pattern] = expectChildren(element, 2) as [
+    XMLElement,
+    XMLElement,
+  ];
+  if (pattern.name !== "Literal") {
+    invalid(element, "Literal pattern");
+  }
+  return like(
+    readProperty(attr),
+    readLikePattern(element, pattern.text),
+    matchOptions(element),
+  );
+}
+
+function readNumbers(element: XMLElement): number[] {
+  const text = element.text.trim();
+  const numbers = text ? text.split(/\s+/).map(Number) : [];
+  if (numbers.some((n) => !Number.isFinite(n))) {
+    invalid(element, "coordinates");
+  }
+  return numbers;
+}
+
+function chunk(numbers: number[], dimension: number): Position[] {
+  const positions: Position[] = [];
+  for (let index = 0; index < numbers.length; index += dimension) {
+    positions.push(numbers.slice(index, index + dimension));
+  }
+  return positions;
+}
+
+/**
+ * Reads the positions of a GML geometry, written as `posList`, a sequence of `pos`,
+ * GML 2 `coordinates` or GML 2 `coord` elements.
+ */
+function readPositions(element: XMLElement, dimension = 2): Position[] {
+  const posList = child(element, "posList");
+  if (posList) {
+    const size = Number(posList.attributes.srsDimension ?? dimension);
+    return chunk(readNumbers(posList), size);
+  }
+  const coordinates = child(element, "coordinates");
+  if (coordinates) {
+    const { cs = ",", ts = " " } = coordinates.attributes;
+    return coordinates.text
+      .trim()
+      .split(ts === " " ? /\s+/ : ts)
+      .map((tuple) => tuple.split(cs).map(Number))
+      .map((position) => {
+        if (position.some((n) => !Number.isFinite(n))) {
+          invalid(coordinates, "coordinates");
+        }
+        return position;
+      });
+  }
+  const positions = element.children
+    .filter((c) => c.name === "pos")
+    .map(readNumbers);
+  if (positions.length > 0) {
+    return positions;
+  }
+  const coords = element.children.filter((c) => c.name === "coord");
+  if (coords.length > 0) {
+    return coords.map((coord) =>
+      ["X", "Y", "Z"]
+        .map((axis) => child(coord, axis))
+        .filter((axis) => axis !== undefined)
+        .map((axis) => Number(axis.text)),
+    );
+  }
+  invalid(element, "posList, pos or coordinates");
+}
+
+function readRing(element: XMLElement, dimension: number): Position[] {
+  const ring = expectChildren(element, 1)[0] as XMLElement;
+  if (ring.name !== "LinearRing") {
+    unsupported(ring);
+  }
+  return readPositions(ring, dimension);
+}
+
+function readPolygon(element: XMLElement, dimension: number): Position[][] {
+  const exterior =
+    child(element, "exterior") ?? child(element, "outerBoundaryIs");
+  if (!exterior) {
+    invalid(element, "exterior");
+  }
+  return [
+    readRing(exterior, dimension),
+    ...element.children
+      .filter((c) => c.name === "interior" || c.name === "innerBoundaryIs")
+      .map((c) => readRing(c, dimension)),
+  ];
+}
+
+/**
+ * Reads the members of a GML multi-geometry, given one per `member` element or all
+ * together in a `members` element.
+ */
+function readMembers(
+  element: XMLElement,
+  member: string,
+  members: string,
+): XMLElement[] {
+  return element.children.flatMap((c) =>
+    c.name === member
+      ? [expectChildren(c, 1)[0] as XMLElement]
+      : c.name === members
+        ? c.children
+        : [],
+  );
+}
+
+function readGeometry(element: XMLElement): Geometry | BBox {
+  const dimension = Number(element.attributes.srsDimension ?? 2);
+  const read = (e: XMLElement) => readGeometry(e) as Geometry;
+  switch (element.name) {
+    case "Point":
+      return {
+        type: "Point",
+        coordinates:
+          readPositions(element, dimension)[0] ?? invalid(element, "pos"),
+      };
+    case "LineString":
+      return {
+        type: "LineString",
+        coordinates: readPositions(element, dimension),
+      };
+    case "Polygon":
+      return { type: "Polygon", coordinates: readPolygon(element, dimension) };
+    case "MultiPoint":
+      return {
+        type: "MultiPoint",
+        coordinates: readMembers(element, "pointMember", "pointMembers").map(
+          (point) => (read(point) as GeoJSON.Point).coordinates,
+        ),
+      };
+    case "MultiLineString":
+    case "MultiCurve":
+      return {
+        type: "MultiLineString",
+        coordinates: [
+          ...readMembers(element, "lineStringMember", "lineStringMembers"),
+          ...readMembers(element, "curveMember", "curveMembers"),
+        ].map((line) => {
+          if (line.name !== "LineString") {
+            unsupported(line);
+          }
+          return (read(line) as GeoJSON.LineString).coordinates;
+        }),
+      };
+    case "MultiPolygon":
+    case "MultiSurface":
+      return {
+        type: "MultiPolygon",
+        coordinates: [
+          ...readMembers(element, "polygonMember", "polygonMembers"),
+          ...readMembers(element, "surfaceMember", "surfaceMembers"),
+        ].map((polygon) => {
+          if (polygon.name !== "Polygon") {
+            unsupported(polygon);
+          }
+          return (read(polygon) as GeoJSON.Polygon).coordinates;
+        }),
+      };
+    case "MultiGeometry":
+      return {
+        type: "GeometryCollection",
+        geometries: readMembers(
+          element,
+          "geometryMember",
+          "geometryMembers",
+        ).map(read),
+      };
+    case "Envelope":
+    case "Box": {
+      const lower = child(element, "lowerCorner");
+      const upper = child(element, "upperCorner");
+      const corners =
+        lower && upper
+          ? [readNumbers(lower), readNumbers(upper)]
+          : readPositions(element, dimension);
+      const [min, max] = corners;
+      if (
+        corners.length !== 2 ||
+        !min ||
+        !max ||
+        min.length !== max.length ||
+        (min.length !== 2 && min.length !== 3)
+      ) {
+        invalid(element, "lowerCorner and upperCorner");
+      }
+      return [...min, ...max] as BBox;
+    }
+  }
+  unsupported(element);
+}
+
+function readSpatial(element: XMLElement): Condition {
+  const factory = SPATIAL_FACTORIES[element.name];
+  const [attr, operand] = expectChildren(element, 2) as [
+    XMLElement,
+    XMLElement,
+  ];
+  if (!factory) {
+    unsupported(element);
+  }
+  return factory(
+    readProperty(attr),
+    isProperty(operand)
+      ? prop(readProperty(operand))
+      : operand.name === "Literal"
+        ? readGeometry(expectChildren(operand, 1)[0] as XMLElement)
+        : readGeometry(operand),
+  );
+}
+
+function readTimePosition(element: XMLElement | undefined): IntervalBound {
+  if (!element) {
+    return null;
+  }
+  // <gml:begin><gml:TimeInstant><gml:timePosition>...</gml:timePosition></gml:TimeInstant></gml:begin>
+  const instant = child(element, "TimeInstant");
+  if (instant) {
+    return readTimePosition(requireChild(instant, "timePosition"));
+  }
+  const text = element.text.trim();
+  return text && !element.attributes.indeterminatePosition ? text : null;
+}
+
+function readTemporalOperand(
+  element: XMLElement,
+): TemporalValue | PropertyReference {
+  if (isProperty(element)) {
+    return prop(readProperty(element));
+  }
+  switch (element.name) {
+    case "Literal": {
+      const [value] = element.children;
+      return value ? readTemporalOperand(value) : element.text.trim();
+    }
+    case "TimeInstant": {
+      const position = readTimePosition(requireChild(element, "timePosition"));
+      return position ?? invalid(element, "timePosition");
+    }
+    case "TimePeriod":
+      return {
+        start: readTimePosition(
+          child(element, "beginPosition") ?? child(element, "begin"),
+        ),
+        end: readTimePosition(
+          child(element, "endPosition") ?? child(element, "end"),
+        ),
+      };
+  }
+  unsupported(element);
+}
+
+function readTemporal(element: XMLElement): Condition {
+  const factory = TEMPORAL_FACTORIES[element.name] as NonNullable<
+    (typeof TEMPORAL_FACTORIES)[string]
+  >;
+  const [attr, operand] = expectChildren(element, 2) as [
+    XMLElement,
+    XMLElement,
+  ];
+  return factory(readProperty(attr), readTemporalOperand(operand));
+}
+
+function readCondition(element: XMLElement): Condition {
+  switch (element.name) {
+    case "And":
+    case "Or": {
+      if (element.children.length === 0) {
+        invalid(element, "child elements");
+      }
+      const conditions = element.children.map(readCondition);
+      return element.name === "And" ? and(...conditions) : or(...conditions);
+    }
+    case "Not": {
+      const inner = expectChildren(element, 1)[0] as XMLElement;
+      // Collapse a negated null check onto isNotNull, as the other parsers do
+      if (inner.name === "PropertyIsNull") {
+        return isNotNull(
+          readProperty(expectChildren(inner, 1)[0] as XMLElement),
+        );
+      }
+      return not(readCondition(inner));
+    }
+    case "PropertyIsNull":
+      return isNull(readProperty(expectChildren(element, 1)[0] as XMLElement));
+    case "PropertyIsBetween":
+      return readBetween(element);
+    case "PropertyIsLike":
+      return readLike(element);
+  }
+
+  const comparison = COMPARISON_FACTORIES[element.name];
+  if (comparison) {
+    return readComparison(element, comparison);
+  }
+  if (element.name in SPATIAL_FACTORIES) {
+    return readSpatial(element);
+  }
+  if (element.name in TEMPORAL_FACTORIES) {
+    return readTemporal(element);
+  }
+  unsupported(element);
+}
+
+/**
+ * Reads an OGC Filter Encoding document and converts it into a condition tree.
+ * Filter 1.0 and 1.1 (`<ogc:Filter>`) and FES 2.0 (`<fes:Filter>`) are accepted; elements
+ * are matched by local name, so any namespace prefix works. The XML is read without a DOM,
+ * so this works in Node as well as in browsers.
+ *
+ * - Comparison, `PropertyIsNull`, `PropertyIsBetween` and `PropertyIsLike` elements become
+ *   the matching operators; `matchCase="false"` makes them case-insensitive.
+ * - `PropertyIsLike` patterns are rewritten to LIKE patterns with `%`, `_` and `\`,
+ *   whatever wildcard characters the document declares.
+ * - Spatial operators and `BBOX` read GML 2, 3.1 and 3.2 geometries into GeoJSON, and envelopes into bounding boxes.
+ * - Temporal operators read `gml:TimeInstant` and `gml:TimePeriod`; indeterminate bounds become open bounds.
+ * - Literals that are plain decimal numbers become numbers; other literals stay strings.
+ * - `PropertyName`/`ValueReference` XPaths such as `address/city` become dotted paths.
+ *
+ * @example
+ * ```typescript
+ * const condition = fromFilterXML(`
+ *   <ogc:Filter xmlns:ogc="http://www.opengis.net/ogc">
+ *     <ogc:PropertyIsLike wildCard="*" singleChar="." escapeChar="!">
+ *       <ogc:PropertyName>name</ogc:PropertyName>
+ *       <ogc:Literal>Zür.ch*</ogc:Literal>
+ *     </ogc:PropertyIsLike>
+ *   </ogc:Filter>
+ * `);
+ * condition.toCQL(createCQLContext({ dialect: "cql2" })); // name LIKE 'Zür_ch%'
+ * ```
+ *
+ * @param xml The Filter Encoding document
+ * @returns The matching condition
+ * @throws CQLParseError if the document is not well-formed XML
+ * @throws UnsupportedConditionTypeError if an element is not supported, such as `FeatureId`
+ * or `DWithin`; its `pointer` locates the element
+ * @throws InvalidConditionError if an element is missing required content
+ * @see {@link https://docs.ogc.org/is/09-026r2/09-026r2.html OGC Filter Encoding 2.0}
+ */
+export function fromFilterXML(xml: string): Condition {
+  const root = new XMLReader(xml).read();
+  if (root.name !== "Filter") {
+    return readCondition(root);
+  }
+  return readCondition(expectChildren(root, 1)[0] as XMLElement);
+}
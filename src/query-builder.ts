@@ -1,20 +1,50 @@
 import { createCQLContext } from "./cql-context";
-import type { Condition, ConditionOperator } from "./operators/base-types";
+import { InvalidQueryOptionError } from "./errors";
+import { type FilterXMLOptions, toFilterXML } from "./filter-xml";
+import {
+  add,
+  div,
+  intDiv,
+  mod,
+  mul,
+  sub,
+} from "./operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "./operators/array-operators";
+import type {
+  BBox,
+  Condition,
+  ConditionOperator,
+  CQLContext,
+  CQLDialect,
+  CQLJSONExpression,
+  FunctionRegistry,
+  FunctionSignature,
+} from "./operators/base-types";
 import {
   between,
   eq,
   gt,
   gte,
   isIn,
+  isNotIn,
   isNotNull,
   isNull,
   lt,
   lte,
   ne,
-  isNotIn,
 } from "./operators/comparison-operators";
+import { isBBox, isLogicalCondition } from "./operators/condition-guards";
+import { functionBuilders } from "./operators/function-calls";
 import { and, not, or } from "./operators/logical-operators";
+import type { Path } from "./operators/path-type";
+import { prop } from "./operators/property-reference";
 import {
+  bbox,
   crosses,
   disjoint,
   intersects,
@@ -24,6 +54,7 @@ import {
   touches,
   within,
 } from "./operators/spatial-operators";
+import type { TemporalValue } from "./operators/temporal-operators";
 import {
   after,
   anyinteracts,
@@ -41,7 +72,17 @@ import {
   tintersects,
   toverlaps,
 } from "./operators/temporal-operators";
+import {
+  formatDatetimeParameter,
+  validateTemporalValue,
+} from "./operators/temporal-values";
 import { contains, like } from "./operators/text-operators";
+import type { StacSearchBody, StacSearchOptions } from "./stac";
+import {
+  toWFSGetFeatureParams,
+  type WFSGetFeatureOptions,
+  type WFSGetFeatureParams,
+} from "./wfs";
 
 const BASE_CONDITION_OPERATOR = {
   eq,
@@ -68,6 +109,7 @@ const BASE_CONDITION_OPERATOR = {
   overlaps,
   crosses,
   spatialEquals,
+  bbox,
   // Temporal operators
   anyinteracts,
   after,
@@ -84,6 +126,20 @@ const BASE_CONDITION_OPERATOR = {
   toverlaps,
   overlappedby,
   tintersects,
+  // Array operators
+  aequals,
+  acontains,
+  acontainedby,
+  aoverlaps,
+  // Arithmetic expressions
+  add,
+  sub,
+  mul,
+  div,
+  mod,
+  intDiv,
+  // Property references
+  prop,
 };
 
 /**
@@ -91,9 +147,27 @@ const BASE_CONDITION_OPERATOR = {
  */
 export interface QueryBuilderInterface<T, R> {
   filter(condition: Condition): QueryBuilderInterface<T, R>;
+  andFilter(condition: Condition): QueryBuilderInterface<T, R>;
+  orFilter(condition: Condition): QueryBuilderInterface<T, R>;
+  select(...paths: string[]): QueryBuilderInterface<T, R>;
+  sortBy(path: string, direction?: SortDirection): QueryBuilderInterface<T, R>;
+  limit(limit: number): QueryBuilderInterface<T, R>;
+  offset(offset: number): QueryBuilderInterface<T, R>;
   clone(): QueryBuilderInterface<T, R>;
+  toParams(): QueryParams;
+  toURLSearchParams(options?: ItemsRequestOptions): ItemsRequestParams;
+  toItemsUrl(
+    baseUrl: string,
+    collectionId: string,
+    options?: ItemsRequestOptions,
+  ): string;
+  toStacSearchBody(options?: StacSearchOptions): StacSearchBody;
+  toWFSGetFeatureParams(options: WFSGetFeatureOptions): WFSGetFeatureParams;
+  toWFSGetFeatureUrl(baseUrl: string, options: WFSGetFeatureOptions): string;
   toCQL(): string;
   toCQLUrlSafe(): string;
+  toCQLJSON(): CQLJSONExpression | undefined;
+  toFilterXML(options?: FilterXMLOptions): string;
 }
 
 /**
@@ -102,8 +176,121 @@ export interface QueryBuilderInterface<T, R> {
 export interface QueryOptions {
   /** Filter condition for the query */
   filter?: Condition;
+  /** Sort keys, in order of precedence */
+  sortBy?: SortSpec[];
+  /** Maximum number of items to return */
+  limit?: number;
+  /** Number of items to skip */
+  offset?: number;
+}
+
+/**
+ * Sort order of a sort key.
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * A sort key: the property to sort by and the direction.
+ */
+export interface SortSpec {
+  property: string;
+  direction: SortDirection;
+}
+
+/**
+ * Query parameters describing a whole request, named after the OGC API Features parameters.
+ * Only the parameters that have been set are present.
+ * @see {@link https://docs.ogc.org/is/17-069r4/17-069r4.html OGC API - Features - Part 1: Core}
+ * @see {@link https://docs.ogc.org/DRAFTS/19-079r2.html OGC API - Features - Part 3: Filtering}
+ */
+export interface QueryParams {
+  /** The filter, written in the builder's dialect */
+  filter?: string;
+  /** Comma-separated list of the selected properties */
+  properties?: string;
+  /** Comma-separated sort keys, with a `-` prefix for descending order, e.g. `name,-updated` */
+  sortby?: string;
+  /** Maximum number of items to return */
+  limit?: number;
+  /** Number of items to skip */
+  offset?: number;
+}
+
+/**
+ * Filter encodings defined by OGC API - Features - Part 3: Filtering.
+ */
+export type FilterLang = "cql2-text" | "cql2-json";
+
+/**
+ * Request parameters of an OGC API Features items request that are not part of the filter.
+ */
+export interface ItemsRequestOptions {
+  /** CRS of the coordinates in the filter, sent as `filter-crs`, e.g. `http://www.opengis.net/def/crs/EPSG/0/4326` */
+  filterCrs?: string;
+  /** The core `bbox` parameter */
+  bbox?: BBox;
+  /** CRS of the `bbox` parameter, sent as `bbox-crs` */
+  bboxCrs?: string;
+  /** The core `datetime` parameter: an instant or an interval with optionally open bounds */
+  datetime?: TemporalValue;
+}
+
+/**
+ * Key-value pairs of an OGC API Features items request, in the order they are sent.
+ */
+export type ItemsRequestParams = Record<string, string>;
+
+/**
+ * Configuration for a QueryBuilder instance.
+ */
+export interface QueryBuilderConfig<
+  F extends FunctionRegistry = FunctionRegistry,
+> {
+  /** The CQL dialect written by `toCQL()`, defaults to `"legacy"` */
+  dialect?: CQLDialect;
+  /** Filter functions exposed by the server, see {@link defineFunctions} */
+  functions?: F;
+  /**
+   * When true, `filter()`, `andFilter()` and `orFilter()` leave the builder unchanged
+   * and return a new builder instead, so a base query can be shared safely. Defaults to false.
+   */
+  immutable?: boolean;
+  /**
+   * The filter encoding used by `toURLSearchParams()` and `toItemsUrl()`. Defaults to `"cql2-text"`.
+   */
+  filterLang?: FilterLang;
 }
 
+/**
+ * Encodes key-value pairs as a URL query string, percent-encoding keys and values
+ * with `encodeURIComponent`.
+ *
+ * @example
+ * ```typescript
+ * toQueryString({ "filter-lang": "cql2-text", filter: "city = 'Toronto'" });
+ * // filter-lang=cql2-text&filter=city%20%3D%20'Toronto'
+ * ```
+ *
+ * @param params The parameters, in the order they are written
+ * @returns The query string, without a leading `?`
+ */
+export function toQueryString(params: Record<string, string>): string {
+  return Object.entries(params)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+}
+
+/**
+ * A condition, or a callback building one from the typed condition operators.
+ */
+export type ConditionInput<
+  T extends Record<string, unknown>,
+  F extends FunctionRegistry = Record<never, FunctionSignature>,
+> = Condition | ((op: ConditionOperator<T, F>) => Condition);
+
 /**
  * Builder for creating OGC CQL query operations.
  * This class helps build CQL-compliant queries with a fluent interface.
@@ -119,16 +306,58 @@ export interface QueryOptions {
  * const result = await new QueryBuilder()
  *   .filter(and(eq('status', 'ACTIVE'), like('name', 'John')))
  *   .toCQL();
+ *
+ * // Strict CQL2 output
+ * const result = await new QueryBuilder({ dialect: 'cql2' })
+ *   .filter(intersects('geometry', point))
+ *   .toCQL();
+ *
+ * // Filters added in several steps
+ * const result = new QueryBuilder()
+ *   .filter(eq('type', 'station'))
+ *   .andFilter(eq('status', 'ACTIVE'))
+ *   .toCQL(); // (type = 'station' AND status = 'ACTIVE')
+ *
+ * // Server functions
+ * const functions = defineFunctions({ strToLowerCase: { args: ['string'], returns: 'string' } });
+ * const result = new QueryBuilder<Place, typeof functions>({ functions })
+ *   .filter((op) => op.eq(op.fn.strToLowerCase(op.prop('name')), 'zurich'))
+ *   .toCQL();
  * ```
  *
  * @typeParam T - The type of items being queried
+ * @typeParam F - The filter functions declared for the server
  */
-export class QueryBuilder<T extends Record<string, unknown>>
-  implements QueryBuilderInterface<T, unknown>
+export class QueryBuilder<
+  T extends Record<string, unknown>,
+  F extends FunctionRegistry = Record<never, FunctionSignature>,
+> implements QueryBuilderInterface<T, unknown>
 {
   protected options: QueryOptions = {};
   protected selectedFields: Set<string> = new Set();
-  private cqlContext = createCQLContext();
+  private cqlContext: CQLContext;
+  private conditionOperator: ConditionOperator<T, F>;
+  private immutable: boolean;
+  private filterLang: FilterLang;
+
+  /**
+   * Creates a new QueryBuilder.
+   *
+   * @param config Builder configuration, such as the CQL dialect to write and the declared functions
+   */
+  constructor(config: QueryBuilderConfig<F> = {}) {
+    const functions = config.functions ?? ({} as F);
+    this.cqlContext = createCQLContext({
+      dialect: config.dialect,
+      functions,
+    });
+    this.conditionOperator = {
+      ...BASE_CONDITION_OPERATOR,
+      fn: functionBuilders(functions),
+    } as unknown as ConditionOperator<T, F>;
+    this.immutable = config.immutable ?? false;
+    this.filterLang = config.filterLang ?? "cql2-text";
+  }
 
   // Helper for testing
   _getOptions(): QueryOptions {
@@ -151,21 +380,136 @@ export class QueryBuilder<T extends Record<string, unknown>>
    * @param condition The condition to filter by
    * @returns The builder instance for method chaining
    */
-  filter(
-    condition: Condition | ((op: ConditionOperator<T>) => Condition),
-  ): QueryBuilder<T> {
-    if (typeof condition === "function") {
-      const conditionOperator =
-        BASE_CONDITION_OPERATOR as unknown as ConditionOperator<T>;
-      this.options.filter = condition(conditionOperator);
-    } else {
-      this.options.filter = condition;
+  filter(condition: ConditionInput<T, F>): QueryBuilder<T, F> {
+    return this.withFilter(this.resolveCondition(condition));
+  }
+
+  /**
+   * Adds a condition that must also match, combining it with the current filter using AND.
+   * Sets the filter when none has been set yet. Repeated calls extend the same AND group
+   * instead of nesting it.
+   *
+   * @example
+   * ```typescript
+   * qb.filter(eq("type", "station"))
+   *   .andFilter(eq("status", "ACTIVE"))
+   *   .andFilter((op) => op.gt("capacity", 100));
+   * // (type = 'station' AND status = 'ACTIVE' AND capacity > 100)
+   * ```
+   *
+   * @param condition The condition to add
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   */
+  andFilter(condition: ConditionInput<T, F>): QueryBuilder<T, F> {
+    return this.withFilter(
+      this.combine("and", this.resolveCondition(condition)),
+    );
+  }
+
+  /**
+   * Adds an alternative condition, combining it with the current filter using OR.
+   * Sets the filter when none has been set yet. Repeated calls extend the same OR group
+   * instead of nesting it.
+   *
+   * @example
+   * ```typescript
+   * qb.filter(eq("status", "PENDING")).orFilter(eq("status", "PROCESSING"));
+   * // (status = 'PENDING' OR status = 'PROCESSING')
+   * ```
+   *
+   * @param condition The condition to add
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   */
+  orFilter(condition: ConditionInput<T, F>): QueryBuilder<T, F> {
+    return this.withFilter(
+      this.combine("or", this.resolveCondition(condition)),
+    );
+  }
+
+  /**
+   * Selects the properties to return. Repeated calls add to the selection.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<Station>().select("name", "address.city");
+   * ```
+   *
+   * @param paths The property paths to return
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   */
+  select<K extends Path<T>>(...paths: K[]): QueryBuilder<T, F> {
+    return this.update((target) => {
+      for (const path of paths) {
+        target.selectedFields.add(path);
+      }
+    });
+  }
+
+  /**
+   * Adds a sort key. Calls chain, so the first call gives the primary sort key.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<Station>().sortBy("name").sortBy("updated", "desc");
+   * // sortby=name,-updated
+   * ```
+   *
+   * @param path The property path to sort by
+   * @param direction The sort direction, defaults to `"asc"`
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   */
+  sortBy<K extends Path<T>>(
+    path: K,
+    direction: SortDirection = "asc",
+  ): QueryBuilder<T, F> {
+    return this.update((target) => {
+      target.options.sortBy = [
+        ...(target.options.sortBy ?? []),
+        { property: path, direction },
+      ];
+    });
+  }
+
+  /**
+   * Sets the maximum number of items to return.
+   *
+   * @param limit A positive integer
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   * @throws InvalidQueryOptionError if the limit is not a positive integer
+   */
+  limit(limit: number): QueryBuilder<T, F> {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryOptionError("limit", limit, "a positive integer");
+    }
+    return this.update((target) => {
+      target.options.limit = limit;
+    });
+  }
+
+  /**
+   * Sets the number of items to skip, for paging through results.
+   *
+   * @param offset A non-negative integer
+   * @returns The builder instance for method chaining, or a new builder in immutable mode
+   * @throws InvalidQueryOptionError if the offset is not a non-negative integer
+   */
+  offset(offset: number): QueryBuilder<T, F> {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidQueryOptionError(
+        "offset",
+        offset,
+        "a non-negative integer",
+      );
     }
-    return this;
+    return this.update((target) => {
+      target.options.offset = offset;
+    });
   }
 
   /**
    * Creates a deep clone of this QueryBuilder instance.
+   * The clone has its own options, so changing either builder does not affect the other.
+   * Conditions themselves are immutable values and are shared.
    *
    * @example
    * ```typescript
@@ -180,9 +524,19 @@ export class QueryBuilder<T extends Record<string, unknown>>
    *
    * @returns A new QueryBuilder instance with the same configuration
    */
-  clone(): QueryBuilder<T> {
-    const clone = new QueryBuilder<T>();
-    clone.options = { ...this.options };
+  clone(): QueryBuilder<T, F> {
+    const clone = new QueryBuilder<T, F>({
+      dialect: this.cqlContext.dialect,
+      functions: this.cqlContext.functions as F,
+      immutable: this.immutable,
+      filterLang: this.filterLang,
+    });
+    clone.options = {
+      ...this.options,
+      ...(this.options.sortBy && {
+        sortBy: this.options.sortBy.map((sort) => ({ ...sort })),
+      }),
+    };
     clone.selectedFields = new Set(this.selectedFields);
     return clone;
   }
@@ -197,6 +551,294 @@ export class QueryBuilder<T extends Record<string, unknown>>
     return this.conditionToCQL(this.options.filter);
   }
 
+  /**
+   * Describes the whole request as query parameters: the filter, selected properties,
+   * sort keys and paging. Only the parameters that have been set are included.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<Station>()
+   *   .filter(eq("status", "OPEN"))
+   *   .select("name", "capacity")
+   *   .sortBy("capacity", "desc")
+   *   .limit(10)
+   *   .toParams();
+   * // { filter: "status = 'OPEN'", properties: "name,capacity", sortby: "-capacity", limit: 10 }
+   * ```
+   *
+   * @returns The query parameters
+   */
+  toParams(): QueryParams {
+    const { filter, sortBy, limit, offset } = this.options;
+    return {
+      ...(filter && { filter: this.conditionToCQL(filter) }),
+      ...(this.selectedFields.size > 0 && {
+        properties: [...this.selectedFields].join(","),
+      }),
+      ...(sortBy?.length && {
+        sortby: sortBy
+          .map(({ property, direction }) =>
+            direction === "desc" ? `-${property}` : property,
+          )
+          .join(","),
+      }),
+      ...(limit !== undefined && { limit }),
+      ...(offset !== undefined && { offset }),
+    };
+  }
+
+  /**
+   * Builds the query parameters of an OGC API Features items request, following
+   * Part 3 (Filtering) for the filter. Part 3 only defines CQL2 encodings, so the filter is
+   * written as CQL2 text or CQL2-JSON according to the `filterLang` configuration, whatever
+   * the builder's dialect.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<Building>()
+   *   .filter((op) => op.lt("height", 10))
+   *   .limit(100)
+   *   .toURLSearchParams({ datetime: { start: "2023-01-01T00:00:00Z", end: null } });
+   * // {
+   * //   "filter-lang": "cql2-text",
+   * //   filter: "height < 10",
+   * //   datetime: "2023-01-01T00:00:00Z/..",
+   * //   limit: "100"
+   * // }
+   * ```
+   *
+   * @param options The `filter-crs`, `bbox` and `datetime` parameters
+   * @returns The request parameters, to be encoded with {@link toQueryString}
+   * @throws InvalidQueryOptionError if `bbox` is not a bounding box
+   * @throws InvalidTemporalValueError if `datetime` is not valid ISO 8601
+   * @see {@link https://docs.ogc.org/DRAFTS/19-079r2.html OGC API - Features - Part 3: Filtering}
+   */
+  toURLSearchParams(options: ItemsRequestOptions = {}): ItemsRequestParams {
+    const params: ItemsRequestParams = {};
+    const { filter } = this.options;
+    if (filter) {
+      params["filter-lang"] = this.filterLang;
+      params.filter =
+        this.filterLang === "cql2-json"
+          ? JSON.stringify(filter.toCQLJSON())
+          : filter.toCQL(
+              createCQLContext({
+                dialect: "cql2",
+                functions: this.cqlContext.functions,
+              }),
+            );
+      if (options.filterCrs) {
+        params["filter-crs"] = options.filterCrs;
+      }
+    }
+    if (options.bbox !== undefined) {
+      if (!isBBox(options.bbox)) {
+        throw new InvalidQueryOptionError(
+          "bbox",
+          options.bbox,
+          "4 or 6 numbers, lower corner first",
+        );
+      }
+      params.bbox = options.bbox.join(",");
+      if (options.bboxCrs) {
+        params["bbox-crs"] = options.bboxCrs;
+      }
+    }
+    if (options.datetime !== undefined) {
+      validateTemporalValue("datetime", options.datetime);
+      params.datetime = formatDatetimeParameter(options.datetime);
+    }
+    const { properties, sortby, limit, offset } = this.toParams();
+    if (properties) params.properties = properties;
+    if (sortby) params.sortby = sortby;
+    if (limit !== undefined) params.limit = String(limit);
+    if (offset !== undefined) params.offset = String(offset);
+    return params;
+  }
+
+  /**
+   * Builds the URL of an OGC API Features items request, `{baseUrl}/collections/{collectionId}/items`,
+   * with the parameters from {@link toURLSearchParams}.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder()
+   *   .filter(eq("name", "Zurich"))
+   *   .toItemsUrl("https://demo.pygeoapi.io/master", "lakes");
+   * // https://demo.pygeoapi.io/master/collections/lakes/items?filter-lang=cql2-text&filter=name%20%3D%20'Zurich'
+   * ```
+   *
+   * @param baseUrl The landing page URL of the API
+   * @param collectionId The collection to query
+   * @param options The `filter-crs`, `bbox` and `datetime` parameters
+   * @returns The request URL
+   */
+  toItemsUrl(
+    baseUrl: string,
+    collectionId: string,
+    options: ItemsRequestOptions = {},
+  ): string {
+    const url = `${baseUrl.replace(/\/+$/, "")}/collections/${encodeURIComponent(collectionId)}/items`;
+    const query = toQueryString(this.toURLSearchParams(options));
+    return query ? `${url}?${query}` : url;
+  }
+
+  /**
+   * Builds the body of a STAC API `POST /search` request. The filter is sent as CQL2-JSON,
+   * selected properties as the Fields extension's `include` list and sort keys as the Sort
+   * extension's `sortby`, with property names as given. STAC API search pages through `next`
+   * links rather than offsets, so an offset cannot be sent.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<StacItemProperties>()
+   *   .filter(maxCloudCover(10))
+   *   .sortBy("eo:cloud_cover")
+   *   .limit(50)
+   *   .toStacSearchBody({ collections: ["sentinel-2-l2a"], bbox: [5.9, 45.8, 10.5, 47.8] });
+   * // {
+   * //   collections: ["sentinel-2-l2a"],
+   * //   bbox: [5.9, 45.8, 10.5, 47.8],
+   * //   limit: 50,
+   * //   sortby: [{ field: "eo:cloud_cover", direction: "asc" }],
+   * //   "filter-lang": "cql2-json",
+   * //   filter: { op: "<=", args: [{ property: "eo:cloud_cover" }, 10] }
+   * // }
+   * ```
+   *
+   * @param options The collections, ids, spatial and temporal parameters of the search
+   * @returns The request body
+   * @throws InvalidQueryOptionError if an offset is set, `bbox` is invalid or both `bbox` and `intersects` are given
+   * @throws InvalidTemporalValueError if `datetime` is not valid ISO 8601
+   * @see {@link https://github.com/radiantearth/stac-api-spec/tree/main/item-search STAC API - Item Search}
+   */
+  toStacSearchBody(options: StacSearchOptions = {}): StacSearchBody {
+    const { filter, sortBy, limit, offset } = this.options;
+    const { collections, ids, bbox, intersects, datetime } = options;
+    if (offset !== undefined) {
+      throw new InvalidQueryOptionError(
+        "offset",
+        offset,
+        "no offset, as STAC API search pages through links,",
+      );
+    }
+    if (bbox !== undefined && !isBBox(bbox)) {
+      throw new InvalidQueryOptionError(
+        "bbox",
+        bbox,
+        "4 or 6 numbers, lower corner first",
+      );
+    }
+    if (bbox !== undefined && intersects !== undefined) {
+      throw new InvalidQueryOptionError(
+        "bbox",
+        bbox,
+        "no bbox together with intersects",
+      );
+    }
+    if (datetime !== undefined) {
+      validateTemporalValue("datetime", datetime);
+    }
+    return {
+      ...(collections && { collections: [...collections] }),
+      ...(ids && { ids: [...ids] }),
+      ...(bbox && { bbox: [...bbox] as BBox }),
+      ...(intersects && { intersects }),
+      ...(datetime !== undefined && {
+        datetime: formatDatetimeParameter(datetime),
+      }),
+      ...(limit !== undefined && { limit }),
+      ...(sortBy?.length && {
+        sortby: sortBy.map(({ property, direction }) => ({
+          field: property,
+          direction,
+        })),
+      }),
+      ...(this.selectedFields.size > 0 && {
+        fields: { include: [...this.selectedFields] },
+      }),
+      ...(filter && {
+        "filter-lang": "cql2-json" as const,
+        filter: filter.toCQLJSON(),
+      }),
+    };
+  }
+
+  /**
+   * Builds the key-value pairs of a WFS GetFeature request, naming the parameters as the
+   * requested WFS version does (`typeName`/`maxFeatures` up to 1.1.0, `typeNames`/`count` in 2.0.0).
+   * The filter goes into GeoServer's `CQL_FILTER` vendor parameter and is always written as
+   * ECQL, whatever the builder's dialect.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder<State>()
+   *   .filter((op) => op.gt("PERSONS", 15000000))
+   *   .sortBy("STATE_NAME")
+   *   .limit(10)
+   *   .toWFSGetFeatureParams({ typeName: "topp:states", version: "1.1.0" });
+   * // {
+   * //   service: "WFS",
+   * //   version: "1.1.0",
+   * //   request: "GetFeature",
+   * //   typeName: "topp:states",
+   * //   maxFeatures: "10",
+   * //   sortBy: "STATE_NAME A",
+   * //   CQL_FILTER: "PERSONS > 15000000"
+   * // }
+   * ```
+   *
+   * @param options The feature type, version and output parameters
+   * @returns The request parameters
+   * @throws InvalidQueryOptionError if the version is unknown or sorting is requested from WFS 1.0.0
+   * @see {@link https://docs.geoserver.org/latest/en/user/services/wfs/reference.html GeoServer WFS reference}
+   */
+  toWFSGetFeatureParams(options: WFSGetFeatureOptions): WFSGetFeatureParams {
+    const { filter, sortBy, limit, offset } = this.options;
+    return toWFSGetFeatureParams(
+      {
+        cqlFilter: filter?.toCQL(
+          createCQLContext({
+            dialect: "ecql",
+            functions: this.cqlContext.functions,
+          }),
+        ),
+        properties: [...this.selectedFields],
+        sortBy,
+        limit,
+        offset,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Builds the URL of a WFS GetFeature request with the parameters from
+   * {@link toWFSGetFeatureParams}.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder()
+   *   .filter(eq("STATE_NAME", "Texas"))
+   *   .toWFSGetFeatureUrl("https://example.org/geoserver/wfs", { typeName: "topp:states" });
+   * // https://example.org/geoserver/wfs?service=WFS&version=2.0.0&request=GetFeature
+   * //   &typeNames=topp%3Astates&CQL_FILTER=STATE_NAME%20%3D%20'Texas'
+   * ```
+   *
+   * @param baseUrl The WFS endpoint, which may already carry query parameters
+   * @param options The feature type, version and output parameters
+   * @returns The request URL
+   */
+  toWFSGetFeatureUrl(baseUrl: string, options: WFSGetFeatureOptions): string {
+    const query = toQueryString(this.toWFSGetFeatureParams(options));
+    const separator = /[?&]$/.test(baseUrl)
+      ? ""
+      : baseUrl.includes("?")
+        ? "&"
+        : "?";
+    return `${baseUrl}${separator}${query}`;
+  }
+
   /**
    * Converts the current query to a URL-safe CQL string representation.
    * This is useful when passing CQL strings in URLs or query parameters.
@@ -215,6 +857,87 @@ export class QueryBuilder<T extends Record<string, unknown>>
     return encodeURIComponent(cqlString);
   }
 
+  /**
+   * Converts the current query to a CQL2-JSON object.
+   * This is the encoding expected by servers that only accept `filter-lang=cql2-json`,
+   * such as STAC APIs and OGC API Features POST searches.
+   *
+   * @example
+   * ```typescript
+   * const query = new QueryBuilder().filter(eq("status", "ACTIVE"));
+   * query.toCQLJSON();
+   * // { op: "=", args: [{ property: "status" }, "ACTIVE"] }
+   * ```
+   *
+   * @returns The CQL2-JSON representation of the current query, or undefined when no filter is set
+   */
+  toCQLJSON(): CQLJSONExpression | undefined {
+    return this.options.filter?.toCQLJSON();
+  }
+
+  /**
+   * Converts the current query to an OGC Filter Encoding document.
+   * See {@link toFilterXML} for how each operator is written.
+   *
+   * @example
+   * ```typescript
+   * queryBuilder()
+   *   .filter(eq("status", "ACTIVE"))
+   *   .toFilterXML({ version: "1.1" });
+   * // <ogc:Filter xmlns:ogc="http://www.opengis.net/ogc" xmlns:gml="http://www.opengis.net/gml">
+   * //   <ogc:PropertyIsEqualTo><ogc:PropertyName>status</ogc:PropertyName><ogc:Literal>ACTIVE</ogc:Literal></ogc:PropertyIsEqualTo>
+   * // </ogc:Filter>
+   * ```
+   *
+   * @param options The Filter Encoding version and the CRS of the geometries
+   * @returns The `Filter` element, or an empty string when no filter is set
+   */
+  toFilterXML(options: FilterXMLOptions = {}): string {
+    const { filter } = this.options;
+    return filter ? toFilterXML(filter, options) : "";
+  }
+
+  private resolveCondition(condition: ConditionInput<T, F>): Condition {
+    return typeof condition === "function"
+      ? condition(this.conditionOperator)
+      : condition;
+  }
+
+  /**
+   * Combines a condition with the current filter, appending to an existing group of the same kind.
+   */
+  private combine(type: "and" | "or", condition: Condition): Condition {
+    const current = this.options.filter;
+    if (!current) {
+      return condition;
+    }
+    const operands =
+      current.type === type && isLogicalCondition(current)
+        ? [...(current.conditions ?? []), condition]
+        : [current, condition];
+    return type === "and" ? and(...operands) : or(...operands);
+  }
+
+  /**
+   * Sets the filter on this builder, or on a clone in immutable mode.
+   */
+  private withFilter(condition: Condition): QueryBuilder<T, F> {
+    return this.update((target) => {
+      target.options.filter = condition;
+    });
+  }
+
+  /**
+   * Applies a change to this builder, or to a clone in immutable mode.
+   */
+  private update(
+    apply: (target: QueryBuilder<T, F>) => void,
+  ): QueryBuilder<T, F> {
+    const target = this.immutable ? this.clone() : this;
+    apply(target);
+    return target;
+  }
+
   /**
    * Helper method to convert a condition to CQL string.
    * Delegates to the condition's self-serialization method.
@@ -248,10 +971,13 @@ export class QueryBuilder<T extends Record<string, unknown>>
  * ```
  *
  * @typeParam T - The type of items being queried (defaults to generic Record)
+ * @typeParam F - The filter functions declared for the server
+ * @param config Builder configuration, such as the CQL dialect to write and the declared functions
  * @returns A new QueryBuilder instance
  */
 export function queryBuilder<
   T extends Record<string, unknown> = Record<string, unknown>,
->(): QueryBuilder<T> {
-  return new QueryBuilder<T>();
+  F extends FunctionRegistry = Record<never, FunctionSignature>,
+>(config: QueryBuilderConfig<F> = {}): QueryBuilder<T, F> {
+  return new QueryBuilder<T, F>(config);
 }
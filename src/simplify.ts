@@ -0,0 +1,214 @@
+import { conditionKey } from "./canonical";
+import { stringifyJSON } from "./cql-json";
+import type {
+  ComparisonCondition,
+  Condition,
+  LogicalCondition,
+} from "./operators/base-types";
+import { isIn } from "./operators/comparison-operators";
+import {
+  isComparisonCondition,
+  isLogicalCondition,
+} from "./operators/condition-guards";
+import { and, not, or } from "./operators/logical-operators";
+import { formatJSONOperand } from "./operators/operands";
+
+function uniqueBy<V>(values: V[], key: (value: V) => string): V[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const k = key(value);
+    if (seen.has(k)) {
+      return false;
+    }
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Checks whether a condition can be folded into an `IN` list: an `eq` or `in` on a plain
+ * property, without case or accent options. `IS NULL` is excluded, as `IN (NULL)` never matches.
+ */
+function isMergeable(
+  condition: Condition,
+): condition is ComparisonCondition & { attr: string } {
+  if (
+    !isComparisonCondition(condition) ||
+    typeof condition.attr !== "string" ||
+    condition.options
+  ) {
+    return false;
+  }
+  return (
+    (condition.type === "eq" &&
+      condition.value !== null &&
+      condition.value !== undefined) ||
+    condition.type === "in"
+  );
+}
+
+/**
+ * Merges `eq` and `in` conditions on the same property within a disjunction into a single `isIn`,
+ * placed where the first of them was. Properties compared only once are left as they are.
+ */
+function mergeEqualities(conditions: Condition[]): Condition[] {
+  const groups = new Map<string, Array<ComparisonCondition>>();
+  for (const condition of conditions) {
+    if (isMergeable(condition)) {
+      groups.set(condition.attr, [
+        ...(groups.get(condition.attr) ?? []),
+        condition,
+      ]);
+    }
+  }
+
+  const merged: Condition[] = [];
+  for (const condition of conditions) {
+    if (!isMergeable(condition)) {
+      merged.push(condition);
+      continue;
+    }
+    const group = groups.get(condition.attr) ?? [];
+    if (group.length < 2) {
+      merged.push(condition);
+    } else if (group[0] === condition) {
+      const values = group.flatMap((c) =>
+        c.type === "in" ? (c.value as unknown[]) : [c.value],
+      );
+      merged.push(
+        isIn(
+          condition.attr,
+          uniqueBy(values, (v) => stringifyJSON(formatJSONOperand(v))),
+        ),
+      );
+    }
+  }
+  return merged;
+}
+
+function simplifyLogical(condition: LogicalCondition): Condition {
+  if (condition.type === "not" && condition.condition) {
+    const inner = simplify(condition.condition);
+    return isLogicalCondition(inner) && inner.type === "not" && inner.condition
+      ? inner.condition
+      : not(inner);
+  }
+
+  const type = condition.type;
+  const children = (condition.conditions ?? [])
+    .map(simplify)
+    .flatMap((child) =>
+      child.type === type && isLogicalCondition(child)
+        ? (child.conditions ?? [])
+        : [child],
+    );
+  let conditions = uniqueBy(children, conditionKey);
+  if (type === "or") {
+    conditions = mergeEqualities(conditions);
+  }
+  if (conditions.length === 1 && conditions[0]) {
+    return conditions[0];
+  }
+  return type === "and" ? and(...conditions) : or(...conditions);
+}
+
+/**
+ * Simplifies a condition without changing which records it matches, so that filters built
+ * from UI selections serialize to shorter, more cache-friendly strings.
+ *
+ * - Nested `and`/`or` conditions of the same kind are flattened: `and(a, and(b, c))` becomes `and(a, b, c)`.
+ * - Duplicate operands of `and`/`or` are removed, keeping the first occurrence.
+ * - Double negation is collapsed: `not(not(a))` becomes `a`.
+ * - `eq` conditions on the same property joined by `or` are merged into `isIn`, together with
+ *   any `isIn` on that property: `or(eq("s", "A"), eq("s", "B"))` becomes `isIn("s", ["A", "B"])`.
+ * - `and`/`or` left with a single operand are replaced by that operand.
+ *
+ * @example
+ * ```typescript
+ * simplify(and(eq("a", 1), and(eq("a", 1), or(eq("s", "A"), eq("s", "B")))));
+ * // (a = 1 AND s IN ('A', 'B'))
+ * ```
+ *
+ * @param condition The condition to simplify
+ * @returns An equivalent, simplified condition
+ */
+export function simplify(condition: Condition): Condition {
+  return isLogicalCondition(condition) ? simplifyLogical(condition) : condition;
+}
+
+function pushNegation(condition: Condition, negated: boolean): Condition {
+  if (!isLogicalCondition(condition)) {
+    return negated ? not(condition) : condition;
+  }
+  if (condition.type === "not" && condition.condition) {
+    return pushNegation(condition.condition, !negated);
+  }
+  const conditions = (condition.conditions ?? []).map((c) =>
+    pushNegation(c, negated),
+  );
+  // De Morgan: NOT (a AND b) is NOT a OR NOT b, and vice versa
+  const conjunction = (condition.type === "and") !== negated;
+  return conjunction ? and(...conditions) : or(...conditions);
+}
+
+/**
+ * Converts a condition to negation normal form, where `not` only applies to comparison,
+ * text, spatial, temporal and array predicates. Negations are pushed inwards with
+ * De Morgan's laws and double negations are removed.
+ *
+ * @example
+ * ```typescript
+ * toNNF(not(and(eq("a", 1), not(eq("b", 2)))));
+ * // (NOT (a = 1) OR b = 2)
+ * ```
+ *
+ * @param condition The condition to normalize
+ * @returns An equivalent condition in negation normal form
+ */
+export function toNNF(condition: Condition): Condition {
+  return pushNegation(condition, false);
+}
+
+/**
+ * Expands a condition in negation normal form into its disjuncts, each a list of predicates.
+ */
+function toDisjuncts(condition: Condition): Condition[][] {
+  if (!isLogicalCondition(condition) || condition.type === "not") {
+    return [[condition]];
+  }
+  const children = (condition.conditions ?? []).map(toDisjuncts);
+  if (condition.type === "or") {
+    return children.flat();
+  }
+  // Distribute AND over OR: (a OR b) AND c is (a AND c) OR (b AND c)
+  return children.reduce<Condition[][]>(
+    (product, disjuncts) =>
+      product.flatMap((left) => disjuncts.map((right) => [...left, ...right])),
+    [[]],
+  );
+}
+
+/**
+ * Converts a condition to disjunctive normal form: an `or` of `and`s of (possibly negated)
+ * predicates. The condition is first converted to negation normal form.
+ * Note that the result can grow exponentially with the number of nested `or` conditions.
+ *
+ * @example
+ * ```typescript
+ * toDNF(and(or(eq("a", 1), eq("a", 2)), eq("b", 3)));
+ * // ((a = 1 AND b = 3) OR (a = 2 AND b = 3))
+ * ```
+ *
+ * @param condition The condition to normalize
+ * @returns An equivalent condition in disjunctive normal form
+ */
+export function toDNF(condition: Condition): Condition {
+  const disjuncts = toDisjuncts(toNNF(condition)).map((conjunction) =>
+    conjunction.length === 1 && conjunction[0]
+      ? conjunction[0]
+      : and(...conjunction),
+  );
+  return disjuncts.length === 1 && disjuncts[0]
+    ? disjuncts[0]
+    : or(...disjuncts);
+}
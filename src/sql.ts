@@ -0,0 +1,460 @@
+import type { Geometry } from "geojson";
+import {
+  InvalidQueryOptionError,
+  UnknownFunctionError,
+  UnknownPropertyError,
+  UnsupportedConditionTypeError,
+} from "./errors";
+import type {
+  ArithmeticOperand,
+  ArrayCondition,
+  ArrayOperator,
+  BBox,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+} from "./operators/base-types";
+import {
+  isArrayCondition,
+  isBBox,
+  isComparisonCondition,
+  isExpression,
+  isGeometry,
+  isLogicalCondition,
+  isSpatialCondition,
+  isTemporalCondition,
+  isTextCondition,
+} from "./operators/condition-guards";
+import {
+  checkOptions,
+  INSTANT_RELATIONS,
+  likePattern,
+  type RangeBounds,
+  splitBBox,
+  type TimeSpan,
+  toTimeSpan,
+} from "./translation";
+
+/**
+ * SQL dialects that conditions can be translated to. `"postgis"` is PostgreSQL with the PostGIS extension.
+ */
+export type SQLDialect = "postgis";
+
+/**
+ * Options for translating a condition to a SQL `WHERE` clause.
+ */
+export interface SQLOptions {
+  dialect: SQLDialect;
+  /**
+   * Column names keyed by property name, e.g. `{ "address.city": "city" }`.
+   * Only these properties may be used. A column may be qualified, e.g. `f.created_at`.
+   */
+  columns: Record<string, string>;
+  /**
+   * SQL functions keyed by CQL function name, e.g. `{ strToLowerCase: "lower" }`.
+   * Only these functions may be called, so conditions without a function map cannot call any.
+   */
+  functions?: Record<string, string>;
+  /** SRID of the geometries and bounding boxes. Defaults to 4326 (WGS 84). */
+  srid?: number;
+}
+
+/**
+ * A parameterized SQL expression, as accepted by `pg`'s `client.query(text, values)`.
+ */
+export interface SQLQuery {
+  /** The expression, with `$1`, `$2`, ... placeholders */
+  text: string;
+  /** The values of the placeholders, in order */
+  values: unknown[];
+}
+
+const COMPARISON_OPERATORS: Record<
+  "eq" | "ne" | "lt" | "lte" | "gt" | "gte",
+  string
+> = {
+  eq: "=",
+  ne: "<>",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+};
+
+const SPATIAL_FUNCTIONS: Record<SpatialCondition["type"], string> = {
+  intersects: "ST_Intersects",
+  disjoint: "ST_Disjoint",
+  contains: "ST_Contains",
+  within: "ST_Within",
+  touches: "ST_Touches",
+  overlaps: "ST_Overlaps",
+  crosses: "ST_Crosses",
+  eq: "ST_Equals",
+};
+
+const ARRAY_OPERATORS: Record<ArrayOperator, string> = {
+  aequals: "=",
+  acontains: "@>",
+  acontainedby: "<@",
+  aoverlaps: "&&",
+};
+
+const RANGE_OPERATORS: Record<keyof RangeBounds<unknown>, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+interface SQLWriter {
+  columns: Record<string, string>;
+  functions: Record<string, string>;
+  srid: number;
+  values: unknown[];
+}
+
+/**
+ * Adds a value to the query and returns its placeholder.
+ */
+function parameter(writer: SQLWriter, value: unknown): string {
+  writer.values.push(value);
+  return `$${writer.values.length}`;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function formatQualifiedName(name: string): string {
+  return name.split(".").map(quoteIdentifier).join(".");
+}
+
+/**
+ * Writes the column of a property as a quoted, possibly qualified, identifier.
+ *
+ * @throws UnknownPropertyError if the property is not in the column map
+ */
+function formatColumn(writer: SQLWriter, property: string): string {
+  if (!Object.hasOwn(writer.columns, property)) {
+    throw new UnknownPropertyError(property);
+  }
+  return formatQualifiedName(writer.columns[property] as string);
+}
+
+/**
+ * Writes the SQL function a CQL function is mapped to as a quoted, possibly qualified, identifier.
+ *
+ * @throws UnknownFunctionError if the function is not in the function map
+ */
+function formatFunctionName(writer: SQLWriter, name: string): string {
+  if (!Object.hasOwn(writer.functions, name)) {
+    throw new UnknownFunctionError(name);
+  }
+  return formatQualifiedName(writer.functions[name] as string);
+}
+
+function formatGeometry(writer: SQLWriter, geometry: Geometry): string {
+  const geoJSON = `ST_GeomFromGeoJSON(${parameter(writer, JSON.stringify(geometry))})`;
+  // ST_GeomFromGeoJSON assumes WGS 84 unless the GeoJSON names another CRS
+  return writer.srid === 4326
+    ? geoJSON
+    : `ST_SetSRID(${geoJSON}, ${writer.srid})`;
+}
+
+/**
+ * Writes a bounding box as an envelope. PostGIS envelopes are 2D, and a box crossing the
+ * antimeridian is written as the collection of the envelopes on each side of it.
+ */
+function formatEnvelope(writer: SQLWriter, bbox: BBox): string {
+  const envelopes = splitBBox(bbox).map(
+    (extent) =>
+      `ST_MakeEnvelope(${extent.map((c) => parameter(writer, c)).join(", ")}, ${writer.srid})`,
+  );
+  return envelopes.length === 1
+    ? String(envelopes[0])
+    : `ST_Collect(${envelopes.join(", ")})`;
+}
+
+function formatArithmeticOperand(
+  writer: SQLWriter,
+  operand: ArithmeticOperand,
+): string {
+  if (typeof operand === "string") {
+    return formatColumn(writer, operand);
+  }
+  if (typeof operand === "number") {
+    return parameter(writer, operand);
+  }
+  return formatExpression(writer, operand);
+}
+
+function formatExpression(writer: SQLWriter, expression: Expression): string {
+  switch (expression.kind) {
+    case "property":
+      return formatColumn(writer, expression.name);
+    case "function":
+      return `${formatFunctionName(writer, expression.name)}(${expression.args.map((arg) => formatOperand(writer, arg)).join(", ")})`;
+    case "arithmetic": {
+      const left = formatArithmeticOperand(writer, expression.left);
+      const right = formatArithmeticOperand(writer, expression.right);
+      return expression.operator === "div"
+        ? `div(${left}, ${right})`
+        : `(${left} ${expression.operator} ${right})`;
+    }
+  }
+}
+
+function formatAttribute(writer: SQLWriter, attr: string | Expression) {
+  return typeof attr === "string"
+    ? formatColumn(writer, attr)
+    : formatExpression(writer, attr);
+}
+
+function formatOperand(writer: SQLWriter, value: unknown): string {
+  if (isExpression(value)) {
+    return formatExpression(writer, value);
+  }
+  return isGeometry(value)
+    ? formatGeometry(writer, value)
+    : parameter(writer, value);
+}
+
+/**
+ * Returns a function that wraps both sides of a case-insensitive comparison in `lower()`.
+ *
+ * @throws UnsupportedConditionTypeError for accent-insensitive comparisons, which need the `unaccent` extension
+ */
+function caseFolding(
+  condition: ComparisonCondition | TextCondition,
+): (sql: string) => string {
+  checkOptions(condition, "SQL");
+  return condition.options?.caseInsensitive
+    ? (sql) => `lower(${sql})`
+    : (sql) => sql;
+}
+
+function formatComparison(
+  writer: SQLWriter,
+  condition: ComparisonCondition,
+): string {
+  const fold = caseFolding(condition);
+  const { type, value } = condition;
+  const attr = formatAttribute(writer, condition.attr);
+
+  switch (type) {
+    case "eq":
+    case "ne":
+      if (value === null || value === undefined) {
+        return `${attr} IS ${type === "eq" ? "NULL" : "NOT NULL"}`;
+      }
+      return `${fold(attr)} ${COMPARISON_OPERATORS[type]} ${fold(formatOperand(writer, value))}`;
+    case "lt":
+    case "lte":
+    case "gt":
+    case "gte":
+      return `${fold(attr)} ${COMPARISON_OPERATORS[type]} ${fold(formatOperand(writer, value))}`;
+    case "between": {
+      const [lower, upper] = value as [unknown, unknown];
+      return `${fold(attr)} BETWEEN ${fold(formatOperand(writer, lower))} AND ${fold(formatOperand(writer, upper))}`;
+    }
+    case "in":
+    case "notIn": {
+      const list = (value as unknown[])
+        .map((v) => fold(formatOperand(writer, v)))
+        .join(", ");
+      return `${fold(attr)} ${type === "in" ? "IN" : "NOT IN"} (${list})`;
+    }
+  }
+  throw new UnsupportedConditionTypeError(type, condition);
+}
+
+/**
+ * Writes `like` and `contains` as `LIKE`. The pattern is passed as a parameter and keeps the
+ * CQL wildcards, `%` and `_`, with `\` as the escape character. The substring of `contains`
+ * is matched literally.
+ */
+function formatText(writer: SQLWriter, condition: TextCondition): string {
+  caseFolding(condition);
+  const pattern = likePattern(condition);
+  const operator = condition.options?.caseInsensitive ? "ILIKE" : "LIKE";
+  return `${formatColumn(writer, condition.attr)} ${operator} ${parameter(writer, pattern)} ESCAPE '\\'`;
+}
+
+function formatSpatial(writer: SQLWriter, condition: SpatialCondition): string {
+  const { geometry } = condition;
+  let operand: string;
+  if (isExpression(geometry)) {
+    operand = formatExpression(writer, geometry);
+  } else if (isBBox(geometry)) {
+    operand = formatEnvelope(writer, geometry);
+  } else {
+    operand = formatGeometry(writer, geometry);
+  }
+  return `${SPATIAL_FUNCTIONS[condition.type]}(${formatColumn(writer, condition.attr)}, ${operand})`;
+}
+
+/**
+ * Writes a range comparison of a column. Only the bounds in the range are added as
+ * parameters, and equal lower and upper bounds are written as one equality.
+ */
+function formatRange(
+  writer: SQLWriter,
+  column: string,
+  bounds: RangeBounds<unknown>,
+): string {
+  if (bounds.gte !== undefined && bounds.gte === bounds.lte) {
+    return `${column} = ${formatOperand(writer, bounds.gte)}`;
+  }
+  const comparisons = (
+    Object.keys(RANGE_OPERATORS) as Array<keyof RangeBounds<unknown>>
+  )
+    .filter((key) => bounds[key] !== undefined)
+    .map(
+      (key) =>
+        `${column} ${RANGE_OPERATORS[key]} ${formatOperand(writer, bounds[key])}`,
+    );
+  if (comparisons.length === 0) {
+    return `${column} IS NOT NULL`;
+  }
+  return comparisons.length === 1
+    ? (comparisons[0] as string)
+    : `(${comparisons.join(" AND ")})`;
+}
+
+function formatTemporal(
+  writer: SQLWriter,
+  condition: TemporalCondition,
+): string {
+  const { value } = condition;
+  const span: TimeSpan<unknown> = isExpression(value)
+    ? { start: value, end: value, instant: true }
+    : toTimeSpan(value, (instant) => instant);
+  const bounds = INSTANT_RELATIONS[condition.type](span);
+  if (!bounds) {
+    throw new UnsupportedConditionTypeError(
+      `${condition.type} (SQL instant column)`,
+      condition,
+    );
+  }
+  return formatRange(writer, formatColumn(writer, condition.attr), bounds);
+}
+
+function formatArray(writer: SQLWriter, condition: ArrayCondition): string {
+  const { value } = condition;
+  let operand: string;
+  if (isExpression(value)) {
+    operand = formatExpression(writer, value);
+  } else if (value.some(isExpression)) {
+    operand = `ARRAY[${value.map((v) => formatOperand(writer, v)).join(", ")}]`;
+  } else {
+    // A single parameter lets PostgreSQL infer the element type from the column
+    operand = parameter(writer, value);
+  }
+  return `${formatColumn(writer, condition.attr)} ${ARRAY_OPERATORS[condition.type]} ${operand}`;
+}
+
+function formatLogical(writer: SQLWriter, condition: LogicalCondition): string {
+  if (condition.type === "not" && condition.condition) {
+    return `NOT (${formatCondition(writer, condition.condition)})`;
+  }
+  if (condition.type === "and" || condition.type === "or") {
+    const conditions = (condition.conditions ?? []).map((c) =>
+      formatCondition(writer, c),
+    );
+    if (conditions.length === 0) {
+      return condition.type === "and" ? "TRUE" : "FALSE";
+    }
+    return `(${conditions.join(condition.type === "and" ? " AND " : " OR ")})`;
+  }
+  throw new UnsupportedConditionTypeError(condition.type, condition);
+}
+
+function formatCondition(writer: SQLWriter, condition: Condition): string {
+  if (isLogicalCondition(condition)) {
+    return formatLogical(writer, condition);
+  }
+  if (isSpatialCondition(condition)) {
+    return formatSpatial(writer, condition);
+  }
+  if (isTemporalCondition(condition)) {
+    return formatTemporal(writer, condition);
+  }
+  if (isTextCondition(condition)) {
+    return formatText(writer, condition);
+  }
+  if (isComparisonCondition(condition)) {
+    return formatComparison(writer, condition);
+  }
+  if (isArrayCondition(condition)) {
+    return formatArray(writer, condition);
+  }
+  throw new UnsupportedConditionTypeError(
+    (condition as Condition).type,
+    condition,
+  );
+}
+
+/**
+ * Translates a condition to a parameterized SQL `WHERE` clause, for databases that serve the
+ * same data as an OGC API. Values are never written into the text: they are passed as
+ * `$n` placeholders. Properties are only written as the quoted columns of the `columns` map,
+ * and function calls only for functions in the `functions` map.
+ *
+ * - Comparisons map to `=`, `<>`, `BETWEEN`, `IN` and `IS NULL`. Case-insensitive comparisons
+ *   wrap both sides in `lower()`, and case-insensitive patterns use `ILIKE`.
+ * - `like` and `contains` map to `LIKE ... ESCAPE '\'`. `like` keeps the `%` and `_` wildcards,
+ *   while the substring of `contains` is escaped and matched literally.
+ * - Spatial operators map to `ST_Intersects`, `ST_Within`, ... with geometries read by
+ *   `ST_GeomFromGeoJSON` and bounding boxes built by `ST_MakeEnvelope`.
+ * - Temporal operators compare the column, a `timestamptz` instant, with the bounds of the
+ *   value, leaving out open bounds. Relations an instant cannot have with the value, such
+ *   as `T_CONTAINS`, throw an `UnsupportedConditionTypeError`.
+ * - Array operators map to `=`, `@>`, `<@` and `&&`.
+ *
+ * @example
+ * ```typescript
+ * const { text, values } = toSQL(
+ *   and(eq("status", "ACTIVE"), intersects("geom", { type: "Point", coordinates: [7.4, 46.9] })),
+ *   { dialect: "postgis", columns: { status: "status", geom: "geom" } },
+ * );
+ * // text: ("status" = $1 AND ST_Intersects("geom", ST_GeomFromGeoJSON($2)))
+ * // values: ["ACTIVE", '{"type":"Point","coordinates":[7.4,46.9]}']
+ * await client.query(`SELECT * FROM features WHERE ${text}`, values);
+ * ```
+ *
+ * @param condition The condition to translate
+ * @param options The SQL dialect, the column of each property, the functions that may be called and the SRID of the geometries
+ * @returns The clause text with `$n` placeholders, and the values of the placeholders
+ * @throws UnknownPropertyError if a property is not in the column map
+ * @throws UnknownFunctionError if a function is not in the function map
+ * @throws UnsupportedConditionTypeError for accent-insensitive comparisons and temporal relations an instant cannot have
+ * @throws InvalidQueryOptionError if the dialect, column map or SRID is invalid
+ */
+export function toSQL(condition: Condition, options: SQLOptions): SQLQuery {
+  if (options.dialect !== "postgis") {
+    throw new InvalidQueryOptionError("dialect", options.dialect, "'postgis'");
+  }
+  if (typeof options.columns !== "object" || options.columns === null) {
+    throw new InvalidQueryOptionError(
+      "columns",
+      options.columns,
+      "a map of property names to columns",
+    );
+  }
+  const srid = options.srid ?? 4326;
+  if (!Number.isInteger(srid) || srid <= 0) {
+    throw new InvalidQueryOptionError("srid", srid, "a positive integer");
+  }
+  const writer: SQLWriter = {
+    columns: options.columns,
+    functions: options.functions ?? {},
+    srid,
+    values: [],
+  };
+  const text = formatCondition(writer, condition);
+  return { text, values: writer.values };
+}
@@ -0,0 +1,151 @@
+import type { Geometry } from "geojson";
+import { InvalidQueryOptionError } from "./errors";
+import type {
+  BBox,
+  Condition,
+  CQLJSONExpression,
+} from "./operators/base-types";
+import { between, lte } from "./operators/comparison-operators";
+import type { TemporalValue } from "./operators/temporal-operators";
+import { tintersects } from "./operators/temporal-operators";
+
+/**
+ * Common properties of a STAC Item, as named in STAC API filters. Use it as the type of a
+ * query builder to get checked property names:
+ * `queryBuilder<StacItemProperties>()`.
+ *
+ * @see {@link https://github.com/radiantearth/stac-spec/blob/master/commons/common-metadata.md STAC Common Metadata}
+ */
+export type StacItemProperties = {
+  /** Acquisition time, or `null` when the item covers `start_datetime` to `end_datetime` */
+  datetime: string | null;
+  start_datetime?: string;
+  end_datetime?: string;
+  created?: string;
+  updated?: string;
+  platform?: string;
+  constellation?: string;
+  instruments?: string[];
+  /** Ground sample distance in meters */
+  gsd?: number;
+  /** Cloud cover of the scene, in percent (EO extension) */
+  "eo:cloud_cover"?: number;
+  /** Snow and ice cover of the scene, in percent (EO extension) */
+  "eo:snow_cover"?: number;
+  /** Off-nadir viewing angle, in degrees (View extension) */
+  "view:off_nadir"?: number;
+};
+
+/**
+ * Parameters of a STAC API search that are not part of the filter.
+ */
+export interface StacSearchOptions {
+  /** Only search these collections */
+  collections?: string[];
+  /** Only return the items with these ids */
+  ids?: string[];
+  /** Only return items intersecting this bounding box. Cannot be combined with `intersects`. */
+  bbox?: BBox;
+  /** Only return items intersecting this geometry. Cannot be combined with `bbox`. */
+  intersects?: Geometry;
+  /** Only return items whose datetime or datetime range intersects this instant or interval */
+  datetime?: TemporalValue;
+}
+
+/**
+ * A sort key of the STAC API Sort extension.
+ */
+export interface StacSortBy {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/**
+ * The body of a `POST /search` request of a STAC API, with the Filter, Sort and Fields extensions.
+ *
+ * @see {@link https://github.com/radiantearth/stac-api-spec/tree/main/item-search STAC API - Item Search}
+ */
+export interface StacSearchBody {
+  collections?: string[];
+  ids?: string[];
+  bbox?: BBox;
+  intersects?: Geometry;
+  datetime?: string;
+  limit?: number;
+  sortby?: StacSortBy[];
+  fields?: { include: string[] };
+  "filter-lang"?: "cql2-json";
+  filter?: CQLJSONExpression;
+}
+
+/**
+ * Rejects a percentage outside 0 to 100.
+ *
+ * @param attr The property the percentage is compared with
+ * @param parameter The name of the parameter, reported in errors
+ */
+function checkPercent(attr: string, parameter: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0 || value > 100) {
+    throw new InvalidQueryOptionError(
+      parameter,
+      value,
+      `a percentage of ${attr} from 0 to 100`,
+    );
+  }
+}
+
+/**
+ * Matches items with at most the given cloud cover, in percent.
+ *
+ * @example
+ * ```typescript
+ * maxCloudCover(10).toCQLJSON();
+ * // { op: "<=", args: [{ property: "eo:cloud_cover" }, 10] }
+ * ```
+ *
+ * @param percent The highest cloud cover to accept, from 0 to 100
+ * @throws InvalidQueryOptionError if `percent` is not between 0 and 100
+ * @see {@link https://github.com/stac-extensions/eo#item-properties-fields STAC EO Extension}
+ */
+export function maxCloudCover(percent: number): Condition {
+  checkPercent("eo:cloud_cover", "percent", percent);
+  return lte("eo:cloud_cover", percent);
+}
+
+/**
+ * Matches items whose cloud cover lies within the given range, in percent.
+ *
+ * @example
+ * ```typescript
+ * cloudCoverBetween(5, 20); // eo:cloud_cover BETWEEN 5 AND 20
+ * ```
+ *
+ * @param min The lowest cloud cover to accept, from 0 to 100
+ * @param max The highest cloud cover to accept, from 0 to 100
+ * @throws InvalidQueryOptionError if a bound is not between 0 and 100
+ */
+export function cloudCoverBetween(min: number, max: number): Condition {
+  checkPercent("eo:cloud_cover", "min", min);
+  checkPercent("eo:cloud_cover", "max", max);
+  return between("eo:cloud_cover", min, max);
+}
+
+/**
+ * Matches items acquired at an instant or within an interval, comparing it with the `datetime`
+ * property. Open interval bounds are written as `null` or `".."`.
+ *
+ * @example
+ * ```typescript
+ * acquiredDuring({ start: "2023-06-01T00:00:00Z", end: "2023-09-01T00:00:00Z" }).toCQLJSON();
+ * // {
+ * //   op: "t_intersects",
+ * //   args: [{ property: "datetime" }, { interval: ["2023-06-01T00:00:00Z", "2023-09-01T00:00:00Z"] }]
+ * // }
+ * ```
+ *
+ * @param value The instant or interval
+ * @throws InvalidTemporalValueError if the value is not valid ISO 8601
+ */
+export function acquiredDuring(value: TemporalValue): Condition {
+  return tintersects("datetime", value);
+}
@@ -0,0 +1,188 @@
+import type { MultiPolygon, Polygon, Position } from "geojson";
+import { UnsupportedConditionTypeError } from "./errors";
+import type {
+  BBox,
+  ComparisonCondition,
+  TextCondition,
+} from "./operators/base-types";
+import { containsPattern } from "./operators/operands";
+import type {
+  IntervalBound,
+  TemporalInstant,
+  TemporalOperator,
+  TemporalValue,
+} from "./operators/temporal-operators";
+import { isOpenBound } from "./operators/temporal-values";
+
+// Helpers shared by the evaluator and the translators to other filter languages
+
+/**
+ * The value of a temporal condition. Open bounds are `undefined`, and instants have equal bounds.
+ */
+export interface TimeSpan<T> {
+  start?: T;
+  end?: T;
+  instant: boolean;
+}
+
+/**
+ * Bounds of a range comparison.
+ */
+export interface RangeBounds<T> {
+  gt?: T;
+  gte?: T;
+  lt?: T;
+  lte?: T;
+}
+
+/**
+ * The evaluator's Allen interval relations between an instant and the condition value `b`,
+ * as the bounds of a range comparison of the instant. Relations an instant cannot have
+ * with `b` are `undefined`.
+ */
+export const INSTANT_RELATIONS: Record<
+  TemporalOperator,
+  <T>(b: TimeSpan<T>) => RangeBounds<T> | undefined
+> = {
+  anyinteracts: (b) => ({ gte: b.start, lte: b.end }),
+  after: (b) => (b.end ? { gt: b.end } : undefined),
+  before: (b) => (b.start ? { lt: b.start } : undefined),
+  begins: (b) => (b.start ? { gte: b.start, lte: b.start } : undefined),
+  begunby: (b) => (b.instant ? { gte: b.start, lte: b.start } : undefined),
+  tcontains: () => undefined,
+  during: (b) => (b.instant ? undefined : { gt: b.start, lt: b.end }),
+  endedby: (b) => (b.instant ? { gte: b.end, lte: b.end } : undefined),
+  ends: (b) => (b.end ? { gte: b.end, lte: b.end } : undefined),
+  tequals: (b) => (b.instant ? { gte: b.start, lte: b.start } : undefined),
+  meets: (b) => (b.start ? { gte: b.start, lte: b.start } : undefined),
+  metby: (b) => (b.end ? { gte: b.end, lte: b.end } : undefined),
+  toverlaps: () => undefined,
+  overlappedby: () => undefined,
+  tintersects: (b) => ({ gte: b.start, lte: b.end }),
+};
+
+/**
+ * Converts a temporal value to a time span, converting each closed bound with `convert`.
+ */
+export function toTimeSpan<T>(
+  value: TemporalValue,
+  convert: (instant: TemporalInstant) => T,
+): TimeSpan<T> {
+  if (typeof value === "string" || value instanceof Date) {
+    const instant = convert(value);
+    return { start: instant, end: instant, instant: true };
+  }
+  const bound = (b: IntervalBound) => (isOpenBound(b) ? undefined : convert(b));
+  return { start: bound(value.start), end: bound(value.end), instant: false };
+}
+
+/**
+ * Removes the bounds of a range that are `undefined`.
+ */
+export function definedBounds<T>(bounds: RangeBounds<T>): RangeBounds<T> {
+  return Object.fromEntries(
+    Object.entries(bounds).filter(([, bound]) => bound !== undefined),
+  );
+}
+
+/**
+ * Rejects accent-insensitive matching, which none of the target languages supports directly.
+ *
+ * @param target The name of the target language, used in the error message
+ */
+export function checkOptions(
+  condition: ComparisonCondition | TextCondition,
+  target: string,
+): void {
+  if (condition.options?.accentInsensitive) {
+    throw new UnsupportedConditionTypeError(
+      `${condition.type} (accent-insensitive, ${target})`,
+      condition,
+    );
+  }
+}
+
+/**
+ * Returns the LIKE pattern of a text condition, the same pattern as its CQL output.
+ */
+export function likePattern(condition: TextCondition): string {
+  return condition.type === "contains"
+    ? containsPattern(condition.value)
+    : String(condition.value);
+}
+
+/**
+ * Converts a LIKE pattern to another pattern language: `%` becomes `any`, `_` becomes `one`,
+ * and the other characters, including those escaped with `\`, are written with `literal`.
+ */
+export function convertLikePattern(
+  pattern: string,
+  wildcards: { any: string; one: string },
+  literal: (char: string) => string,
+): string {
+  let result = "";
+  for (let index = 0; index < pattern.length; index++) {
+    let char = pattern.charAt(index);
+    if (char === "\\" && index + 1 < pattern.length) {
+      char = pattern.charAt(++index);
+    } else if (char === "%") {
+      result += wildcards.any;
+      continue;
+    } else if (char === "_") {
+      result += wildcards.one;
+      continue;
+    }
+    result += literal(char);
+  }
+  return result;
+}
+
+/**
+ * Returns the 2D extent `[minx, miny, maxx, maxy]` of a bounding box, dropping the z range of a 3D box.
+ */
+export function flattenBBox(bbox: BBox): [number, number, number, number] {
+  return bbox.length === 6 ? [bbox[0], bbox[1], bbox[3], bbox[4]] : bbox;
+}
+
+/**
+ * Splits a bounding box into the 2D extents it covers. A box crossing the antimeridian,
+ * whose west bound is greater than its east bound, becomes one extent on each side of it.
+ */
+export function splitBBox(bbox: BBox): [number, number, number, number][] {
+  const [minx, miny, maxx, maxy] = flattenBBox(bbox);
+  return minx > maxx
+    ? [
+        [minx, miny, 180, maxy],
+        [-180, miny, maxx, maxy],
+      ]
+    : [[minx, miny, maxx, maxy]];
+}
+
+function extentToRing([minx, miny, maxx, maxy]: [
+  number,
+  number,
+  number,
+  number,
+]): Position[] {
+  return [
+    [minx, miny],
+    [maxx, miny],
+    [maxx, maxy],
+    [minx, maxy],
+    [minx, miny],
+  ];
+}
+
+/**
+ * Converts a bounding box to the 2D area it covers: a polygon, or a multipolygon with a
+ * part on each side of the antimeridian.
+ */
+export function bboxToGeometry(bbox: BBox): Polygon | MultiPolygon {
+  const extents = splitBBox(bbox);
+  return extents.length === 1
+    ? { type: "Polygon", coordinates: extents.map(extentToRing) }
+    : {
+        type: "MultiPolygon",
+        coordinates: extents.map((extent) => [extentToRing(extent)]),
+      };
+}
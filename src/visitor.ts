@@ -0,0 +1,522 @@
+import type { Geometry } from "geojson";
+import { InvalidConditionError, UnsupportedConditionTypeError } from "./errors";
+import {
+  add,
+  div,
+  intDiv,
+  mod,
+  mul,
+  sub,
+} from "./operators/arithmetic-operators";
+import {
+  acontainedby,
+  acontains,
+  aequals,
+  aoverlaps,
+} from "./operators/array-operators";
+import type {
+  ArithmeticExpression,
+  ArithmeticOperand,
+  ArithmeticOperator,
+  ArrayCondition,
+  BBox,
+  ComparisonCondition,
+  Condition,
+  Expression,
+  LogicalCondition,
+  PropertyReference,
+  SpatialCondition,
+  TemporalCondition,
+  TextCondition,
+  TextMatchOptions,
+} from "./operators/base-types";
+import {
+  between,
+  eq,
+  gt,
+  gte,
+  isIn,
+  isNotIn,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  ne,
+} from "./operators/comparison-operators";
+import {
+  isArrayCondition,
+  isComparisonCondition,
+  isExpression,
+  isLogicalCondition,
+  isSpatialCondition,
+  isTemporalCondition,
+  isTextCondition,
+} from "./operators/condition-guards";
+import { fn } from "./operators/function-calls";
+import { and, not, or } from "./operators/logical-operators";
+import { prop } from "./operators/property-reference";
+import {
+  crosses,
+  disjoint,
+  intersects,
+  overlaps,
+  spatialContains,
+  spatialEquals,
+  touches,
+  within,
+} from "./operators/spatial-operators";
+import {
+  after,
+  anyinteracts,
+  before,
+  begins,
+  begunby,
+  during,
+  endedby,
+  ends,
+  meets,
+  metby,
+  overlappedby,
+  type TemporalValue,
+  tcontains,
+  tequals,
+  tintersects,
+  toverlaps,
+} from "./operators/temporal-operators";
+import { contains, like } from "./operators/text-operators";
+
+/**
+ * Callbacks for {@link visitCondition}, one per operator family. All of them are optional.
+ */
+export interface ConditionVisitor {
+  /** Called for `and`, `or` and `not`; return `false` to skip the operands */
+  logical?: (condition: LogicalCondition) => false | undefined;
+  comparison?: (condition: ComparisonCondition) => void;
+  text?: (condition: TextCondition) => void;
+  spatial?: (condition: SpatialCondition) => void;
+  temporal?: (condition: TemporalCondition) => void;
+  array?: (condition: ArrayCondition) => void;
+  /**
+   * Called for every property a condition refers to: its attribute as well as
+   * property references and properties used in expressions.
+   */
+  property?: (name: string, condition: Condition) => void;
+}
+
+/**
+ * Callbacks for {@link transformCondition}, one per operator family. All of them are optional.
+ * A callback returns the condition to put in place of the one it is given, or `undefined`
+ * to keep it.
+ */
+export interface ConditionTransformer {
+  /** Called for `and`, `or` and `not` after their operands have been transformed */
+  logical?: (condition: LogicalCondition) => Condition | undefined;
+  comparison?: (condition: ComparisonCondition) => Condition | undefined;
+  text?: (condition: TextCondition) => Condition | undefined;
+  spatial?: (condition: SpatialCondition) => Condition | undefined;
+  temporal?: (condition: TemporalCondition) => Condition | undefined;
+  array?: (condition: ArrayCondition) => Condition | undefined;
+  /**
+   * Returns the new name of a property. It is applied to attributes, property references
+   * and properties used in expressions, before the family callbacks are called.
+   */
+  property?: (name: string) => string;
+}
+
+const ARITHMETIC_FACTORIES: Record<
+  ArithmeticOperator,
+  (left: ArithmeticOperand, right: ArithmeticOperand) => ArithmeticExpression
+> = {
+  "+": add,
+  "-": sub,
+  "*": mul,
+  "/": div,
+  "%": mod,
+  div: intDiv,
+};
+
+const COMPARISON_FACTORIES: Record<
+  string,
+  (
+    attr: string | Expression,
+    value: unknown,
+    options?: TextMatchOptions,
+  ) => Condition
+> = {
+  eq,
+  ne,
+  lt,
+  lte,
+  gt,
+  gte,
+};
+
+const SPATIAL_FACTORIES: Record<
+  SpatialCondition["type"],
+  (attr: string, geometry: Geometry | BBox | PropertyReference) => Condition
+> = {
+  intersects,
+  disjoint,
+  contains: spatialContains,
+  within,
+  touches,
+  overlaps,
+  crosses,
+  eq: spatialEquals,
+};
+
+const TEMPORAL_FACTORIES: Record<
+  TemporalCondition["type"],
+  (attr: string, value: TemporalValue | PropertyReference) => Condition
+> = {
+  anyinteracts,
+  after,
+  before,
+  begins,
+  begunby,
+  tcontains,
+  during,
+  endedby,
+  ends,
+  tequals,
+  meets,
+  metby,
+  toverlaps,
+  overlappedby,
+  tintersects,
+};
+
+const ARRAY_FACTORIES: Record<
+  ArrayCondition["type"],
+  (attr: string, values: unknown[] | PropertyReference) => Condition
+> = {
+  aequals,
+  acontains,
+  acontainedby,
+  aoverlaps,
+};
+
+type Rename = (name: string) => string;
+
+const keepName: Rename = (name) => name;
+
+/**
+ * Calls `visit` for every property used in an operand. Strings are only property names
+ * in arithmetic expressions; anywhere else they are literals.
+ */
+function visitOperandProperties(
+  value: unknown,
+  visit: (name: string) => void,
+): void {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      visitOperandProperties(item, visit);
+    }
+    return;
+  }
+  if (!isExpression(value)) {
+    return;
+  }
+  switch (value.kind) {
+    case "property":
+      visit(value.name);
+      return;
+    case "function":
+      visitOperandProperties(value.args, visit);
+      return;
+    case "arithmetic":
+      for (const operand of [value.left, value.right]) {
+        if (typeof operand === "string") {
+          visit(operand);
+        } else {
+          visitOperandProperties(operand, visit);
+        }
+      }
+  }
+}
+
+function visitAttribute(
+  attr: string | Expression,
+  visit: (name: string) => void,
+): void {
+  if (typeof attr === "string") {
+    visit(attr);
+  } else {
+    visitOperandProperties(attr, visit);
+  }
+}
+
+/**
+ * Walks a condition tree depth-first, calling the visitor's callback for each condition
+ * before its operands. Use it to inspect conditions without having to know how each
+ * operator family stores its operands, e.g. to collect the properties or geometries a
+ * filter uses.
+ *
+ * @example
+ * ```typescript
+ * const properties = new Set<string>();
+ * const geometries: Geometry[] = [];
+ * visitCondition(condition, {
+ *   property: (name) => properties.add(name),
+ *   spatial: (c) => {
+ *     if (isGeometry(c.geometry)) geometries.push(c.geometry);
+ *   },
+ * });
+ * ```
+ *
+ * @param condition The condition to walk
+ * @param visitor Callbacks per operator family, and for every property
+ */
+export function visitCondition(
+  condition: Condition,
+  visitor: ConditionVisitor,
+): void {
+  const visit = (name: string) => visitor.property?.(name, condition);
+
+  if (isLogicalCondition(condition)) {
+    if (visitor.logical?.(condition) === false) {
+      return;
+    }
+    const operands = condition.condition
+      ? [condition.condition]
+      : (condition.conditions ?? []);
+    for (const operand of operands) {
+      visitCondition(operand, visitor);
+    }
+  } else if (isSpatialCondition(condition)) {
+    visitor.spatial?.(condition);
+    visit(condition.attr);
+    visitOperandProperties(condition.geometry, visit);
+  } else if (isTemporalCondition(condition)) {
+    visitor.temporal?.(condition);
+    visit(condition.attr);
+    visitOperandProperties(condition.value, visit);
+  } else if (isTextCondition(condition)) {
+    visitor.text?.(condition);
+    visit(condition.attr);
+  } else if (isComparisonCondition(condition)) {
+    visitor.comparison?.(condition);
+    visitAttribute(condition.attr, visit);
+    visitOperandProperties(condition.value, visit);
+  } else if (isArrayCondition(condition)) {
+    visitor.array?.(condition);
+    visit(condition.attr);
+    visitOperandProperties(condition.value, visit);
+  } else {
+    throw new UnsupportedConditionTypeError(
+      (condition as Condition).type,
+      condition,
+    );
+  }
+}
+
+function rebuildArithmeticOperand(
+  operand: ArithmeticOperand,
+  rename: Rename,
+): ArithmeticOperand {
+  if (typeof operand === "string") {
+    return rename(operand);
+  }
+  return typeof operand === "number"
+    ? operand
+    : (rebuildExpression(operand, rename) as ArithmeticOperand);
+}
+
+function rebuildExpression(expression: Expression, rename: Rename): Expression {
+  switch (expression.kind) {
+    case "property":
+      return prop(rename(expression.name));
+    case "function":
+      return fn(
+        expression.name,
+        ...expression.args.map((arg) => rebuildOperand(arg, rename)),
+      );
+    case "arithmetic":
+      return ARITHMETIC_FACTORIES[expression.operator](
+        rebuildArithmeticOperand(expression.left, rename),
+        rebuildArithmeticOperand(expression.right, rename),
+      );
+  }
+}
+
+/**
+ * Rebuilds the expressions in an operand, which may be a literal, an expression or a list of them.
+ */
+function rebuildOperand(value: unknown, rename: Rename): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => rebuildOperand(item, rename));
+  }
+  return isExpression(value) ? rebuildExpression(value, rename) : value;
+}
+
+function rebuildAttribute(
+  attr: string | Expression,
+  rename: Rename,
+): string | Expression {
+  return typeof attr === "string"
+    ? rename(attr)
+    : rebuildExpression(attr, rename);
+}
+
+function rebuildComparison(
+  condition: ComparisonCondition,
+  rename: Rename,
+): Condition {
+  const attr = rebuildAttribute(condition.attr, rename);
+  const value = rebuildOperand(condition.value, rename);
+  if (condition.type === "between") {
+    const [lower, upper] = value as unknown[];
+    return between(attr, lower, upper);
+  }
+  if (
+    (condition.type === "in" || condition.type === "notIn") &&
+    typeof attr === "string"
+  ) {
+    return condition.type === "in"
+      ? isIn(attr, value as unknown[])
+      : isNotIn(attr, value as unknown[]);
+  }
+  if (
+    (condition.type === "eq" || condition.type === "ne") &&
+    value === null &&
+    typeof attr === "string"
+  ) {
+    return condition.type === "eq" ? isNull(attr) : isNotNull(attr);
+  }
+  const factory = COMPARISON_FACTORIES[condition.type];
+  if (!factory) {
+    throw new InvalidConditionError(
+      condition.type,
+      condition,
+      "attr (property name)",
+    );
+  }
+  return factory(attr, value, condition.options);
+}
+
+/**
+ * Rebuilds a condition and its operands with the operator factories, so that its `toCQL`
+ * and `toCQLJSON` match its fields even if they were changed by spreading, and renames
+ * every property on the way.
+ */
+function rebuildCondition(condition: Condition, rename: Rename): Condition {
+  if (isLogicalCondition(condition)) {
+    if (condition.type === "not") {
+      return not(rebuildCondition(condition.condition as Condition, rename));
+    }
+    const operands = (condition.conditions ?? []).map((c) =>
+      rebuildCondition(c, rename),
+    );
+    return condition.type === "and" ? and(...operands) : or(...operands);
+  }
+  if (isSpatialCondition(condition)) {
+    return SPATIAL_FACTORIES[condition.type](
+      rename(condition.attr),
+      rebuildOperand(condition.geometry, rename) as
+        | Geometry
+        | BBox
+        | PropertyReference,
+    );
+  }
+  if (isTemporalCondition(condition)) {
+    return TEMPORAL_FACTORIES[condition.type](
+      rename(condition.attr),
+      rebuildOperand(condition.value, rename) as
+        | TemporalValue
+        | PropertyReference,
+    );
+  }
+  if (isTextCondition(condition)) {
+    const factory = condition.type === "like" ? like : contains;
+    return factory(rename(condition.attr), condition.value, condition.options);
+  }
+  if (isComparisonCondition(condition)) {
+    return rebuildComparison(condition, rename);
+  }
+  if (isArrayCondition(condition)) {
+    return ARRAY_FACTORIES[condition.type](
+      rename(condition.attr),
+      rebuildOperand(condition.value, rename) as unknown[] | PropertyReference,
+    );
+  }
+  throw new UnsupportedConditionTypeError(
+    (condition as Condition).type,
+    condition,
+  );
+}
+
+/**
+ * Calls the transformer's callback for the family of a condition.
+ */
+function applyCallback(
+  condition: Condition,
+  transformer: ConditionTransformer,
+): Condition | undefined {
+  if (isLogicalCondition(condition)) {
+    return transformer.logical?.(condition);
+  }
+  if (isSpatialCondition(condition)) {
+    return transformer.spatial?.(condition);
+  }
+  if (isTemporalCondition(condition)) {
+    return transformer.temporal?.(condition);
+  }
+  if (isTextCondition(condition)) {
+    return transformer.text?.(condition);
+  }
+  if (isComparisonCondition(condition)) {
+    return transformer.comparison?.(condition);
+  }
+  return isArrayCondition(condition)
+    ? transformer.array?.(condition)
+    : undefined;
+}
+
+/**
+ * Rewrites a condition tree bottom-up and returns the result; the given condition is left
+ * unchanged. Properties are renamed first, then each condition is passed to the callback
+ * for its family, with the operands of `and`, `or` and `not` already transformed.
+ *
+ * Callbacks may return conditions built with the operator factories or copies of the
+ * condition they were given with changed fields, e.g. `{ ...c, attr: "height" }`.
+ * Every condition in the result is rebuilt with the operator factories, so its `toCQL` and
+ * `toCQLJSON` reflect its fields, and changes that leave a condition invalid throw the
+ * factory's {@link InvalidConditionError}.
+ *
+ * @example
+ * ```typescript
+ * // Map public property names to the names of the data source
+ * transformCondition(condition, {
+ *   property: (name) => columns[name] ?? name,
+ * });
+ *
+ * // Match names regardless of case
+ * transformCondition(condition, {
+ *   text: (c) => ({ ...c, options: { caseInsensitive: true } }),
+ * });
+ * ```
+ *
+ * @param condition The condition to transform
+ * @param transformer Callbacks per operator family, and for renaming properties
+ * @returns The transformed condition
+ */
+export function transformCondition(
+  condition: Condition,
+  transformer: ConditionTransformer,
+): Condition {
+  let transformed: Condition;
+  if (isLogicalCondition(condition)) {
+    transformed =
+      condition.type === "not"
+        ? not(transformCondition(condition.condition as Condition, transformer))
+        : (condition.type === "and" ? and : or)(
+            ...(condition.conditions ?? []).map((c) =>
+              transformCondition(c, transformer),
+            ),
+          );
+  } else {
+    transformed = rebuildCondition(condition, transformer.property ?? keepName);
+  }
+  const replacement = applyCallback(transformed, transformer);
+  return replacement ? rebuildCondition(replacement, keepName) : transformed;
+}
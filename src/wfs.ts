@@ -0,0 +1,133 @@
+import { InvalidQueryOptionError } from "./errors";
+import type { SortDirection, SortSpec } from "./query-builder";
+
+/**
+ * WFS versions supported by the GetFeature request builder.
+ */
+export type WFSVersion = "1.0.0" | "1.1.0" | "2.0.0";
+
+/**
+ * Parameters of a WFS GetFeature request that are not part of the filter.
+ */
+export interface WFSGetFeatureOptions {
+  /** The feature type to query, e.g. `topp:states`. Several types are comma-joined. */
+  typeName: string | string[];
+  /** The WFS version; the parameter names follow it. Defaults to `"2.0.0"`. */
+  version?: WFSVersion;
+  /** CRS of the returned geometries, e.g. `EPSG:4326` */
+  srsName?: string;
+  /** Format of the response, e.g. `application/json` */
+  outputFormat?: string;
+}
+
+/**
+ * Key-value pairs of a WFS GetFeature request, in the order they are sent.
+ */
+export type WFSGetFeatureParams = Record<string, string>;
+
+/**
+ * The parts of a query sent in a WFS GetFeature request.
+ */
+export interface WFSQuery {
+  /** The filter, written as ECQL */
+  cqlFilter?: string;
+  /** The properties to return */
+  properties?: string[];
+  sortBy?: SortSpec[];
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * GetFeature parameter names and sort order keywords, which changed between WFS versions.
+ * WFS 1.0.0 has no sorting; `startIndex` is a GeoServer vendor parameter before 2.0.0.
+ */
+const WFS_PARAMETERS: Record<
+  WFSVersion,
+  {
+    typeName: string;
+    count: string;
+    sortOrder?: Record<SortDirection, string>;
+  }
+> = {
+  "1.0.0": { typeName: "typeName", count: "maxFeatures" },
+  "1.1.0": {
+    typeName: "typeName",
+    count: "maxFeatures",
+    sortOrder: { asc: "A", desc: "D" },
+  },
+  "2.0.0": {
+    typeName: "typeNames",
+    count: "count",
+    sortOrder: { asc: "ASC", desc: "DESC" },
+  },
+};
+
+/**
+ * Builds the key-value pairs of a WFS GetFeature request, naming the parameters as the
+ * requested WFS version does (`typeName`/`maxFeatures` up to 1.1.0, `typeNames`/`count` in 2.0.0).
+ * The filter goes into GeoServer's `CQL_FILTER` vendor parameter.
+ *
+ * @example
+ * ```typescript
+ * toWFSGetFeatureParams(
+ *   { cqlFilter: "PERSONS > 15000000", limit: 10 },
+ *   { typeName: "topp:states", version: "1.1.0" },
+ * );
+ * // {
+ * //   service: "WFS",
+ * //   version: "1.1.0",
+ * //   request: "GetFeature",
+ * //   typeName: "topp:states",
+ * //   maxFeatures: "10",
+ * //   CQL_FILTER: "PERSONS > 15000000"
+ * // }
+ * ```
+ *
+ * @param query The filter, properties, sort keys and paging of the request
+ * @param options The feature type, version and output parameters
+ * @returns The request parameters
+ * @throws InvalidQueryOptionError if the version is unknown or sorting is requested from WFS 1.0.0
+ * @see {@link https://docs.geoserver.org/latest/en/user/services/wfs/reference.html GeoServer WFS reference}
+ */
+export function toWFSGetFeatureParams(
+  query: WFSQuery,
+  options: WFSGetFeatureOptions,
+): WFSGetFeatureParams {
+  const { typeName, version = "2.0.0", srsName, outputFormat } = options;
+  const names = WFS_PARAMETERS[version];
+  if (!names) {
+    throw new InvalidQueryOptionError(
+      "version",
+      version,
+      "1.0.0, 1.1.0 or 2.0.0",
+    );
+  }
+  const { cqlFilter, properties, sortBy, limit, offset } = query;
+  const params: WFSGetFeatureParams = {
+    service: "WFS",
+    version,
+    request: "GetFeature",
+    [names.typeName]: Array.isArray(typeName) ? typeName.join(",") : typeName,
+  };
+  if (srsName) params.srsName = srsName;
+  if (outputFormat) params.outputFormat = outputFormat;
+  if (limit !== undefined) params[names.count] = String(limit);
+  if (offset !== undefined) params.startIndex = String(offset);
+  if (properties?.length) params.propertyName = properties.join(",");
+  if (sortBy?.length) {
+    const { sortOrder } = names;
+    if (!sortOrder) {
+      throw new InvalidQueryOptionError(
+        "sortBy",
+        sortBy.map(({ property }) => property).join(","),
+        "no sorting, as WFS 1.0.0 does not support it,",
+      );
+    }
+    params.sortBy = sortBy
+      .map(({ property, direction }) => `${property} ${sortOrder[direction]}`)
+      .join(",");
+  }
+  if (cqlFilter) params.CQL_FILTER = cqlFilter;
+  return params;
+}